@@ -9,11 +9,47 @@ import {
     externalEuint64
 } from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import {IERC1155} from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import {ERC1155Holder} from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 
 /// @title BlindBidAuction
 /// @notice Blind bid auction manager using Zama fhEVM encrypted types.
 /// @dev Implements fail-closed access control, encrypted bid aggregation, and gateway reveal hooks.
-contract BlindBidAuction is SepoliaConfig {
+///      Lots may escrow a bundle of ERC-721 and ERC-1155 items that is released to the winner
+///      or returned to the curator.
+contract BlindBidAuction is SepoliaConfig, ReentrancyGuard, ERC1155Holder {
+    enum TokenStandard {
+        ERC721,
+        ERC1155
+    }
+
+    /// @dev `SecondPrice` lots charge the winner the second-highest bid (Vickrey), or the
+    ///      reserve when that is higher. `UniformPrice` lots sell `supply` identical units to
+    ///      the top bids, all at the (N+1)th bid, or the reserve when that is higher.
+    enum AuctionType {
+        FirstPrice,
+        SecondPrice,
+        UniformPrice
+    }
+
+    /// @dev One escrowed token; `amount` is always 1 for ERC-721 items.
+    struct LotItem {
+        TokenStandard standard;
+        address token;
+        uint256 tokenId;
+        uint256 amount;
+    }
+
+    /// @notice Anti-sniping rule: a bid in the last `window` seconds pushes the close back by
+    ///         `extension` seconds, never past the original end plus `maxExtension`.
+    struct SoftClose {
+        uint32 window;
+        uint32 extension;
+        uint32 maxExtension;
+    }
+
     struct Lot {
         address curator;
         uint64 startTime;
@@ -21,12 +57,35 @@ contract BlindBidAuction is SepoliaConfig {
         bool closed;
         bool revealRequested;
         bool settled;
+        /// @dev Pulled by the curator while no bid stands; also sets `closed`.
+        bool cancelled;
         uint32 bidCount;
         euint64 encryptedReserve;
         euint64 encryptedWinningBid;
         euint32 encryptedWinningIndex;
+        ebool encryptedReserveMet;
+        AuctionType auctionType;
+        /// @dev Units for sale; always 1 unless `UniformPrice`.
+        uint32 supply;
+        /// @dev Highest bid outside the winning set: the runner-up on second-price lots, the
+        ///      (N+1)th bid on uniform-price lots.
+        euint64 encryptedSecondBid;
+        euint64 encryptedClearingPrice;
+        /// @dev First winner; uniform-price lots list every winner in `_lotWinners`.
         address winner;
         uint64 revealedAmount;
+        bool reserveMet;
+        uint64 depositCap;
+        bool proceedsWithdrawn;
+        /// @dev Whoever closed the lot after `endTime` in the curator's place; zero when the curator closed it.
+        address keeper;
+        /// @dev Share of the proceeds owed to `keeper`, fixed at settlement.
+        uint256 keeperReward;
+        /// @dev Soft-close rule; a zero window disables extensions.
+        uint32 softCloseWindow;
+        uint32 softCloseExtension;
+        /// @dev Latest `endTime` extensions may reach.
+        uint64 maxEndTime;
         string metadataURI;
     }
 
@@ -45,32 +104,90 @@ contract BlindBidAuction is SepoliaConfig {
         bool closed;
         bool revealRequested;
         bool settled;
+        bool cancelled;
         uint32 bidCount;
+        /// @dev Bids still standing: `bidCount` minus withdrawn bids.
+        uint32 activeBidCount;
         bytes32 encryptedReserve;
         bytes32 encryptedWinningBid;
         bytes32 encryptedWinningIndex;
+        bytes32 encryptedReserveMet;
+        AuctionType auctionType;
+        uint32 supply;
+        uint32 winnerCount;
+        bytes32 encryptedSecondBid;
+        bytes32 encryptedClearingPrice;
         address winner;
         uint64 revealedAmount;
+        bool reserveMet;
+        uint64 depositCap;
+        bool proceedsWithdrawn;
+        address keeper;
+        uint256 keeperReward;
+        uint32 softCloseWindow;
+        uint32 softCloseExtension;
+        uint64 maxEndTime;
+        LotItem[] items;
         string metadataURI;
     }
 
     uint256 private _nextLotId = 1;
     address public owner;
     address public gatewayOperator;
+    /// @notice Deposit required per bid on lots created without their own cap.
+    uint64 public defaultDepositCap = 1 ether;
+    /// @notice Upper bound on bundle size so settlement always fits in a block.
+    uint256 public constant MAX_LOT_ITEMS = 20;
+    /// @notice Upper bound on uniform-price supply; every bid costs O(supply) encrypted comparisons.
+    uint32 public constant MAX_LOT_SUPPLY = 10;
+    /// @notice Share of a sold lot's proceeds, in basis points, paid to a keeper who closed it.
+    uint256 public constant KEEPER_REWARD_BPS = 50;
+    /// @dev Index stored in empty top-N slots so they never resolve to a real bid.
+    uint32 private constant EMPTY_SLOT = type(uint32).max;
 
     mapping(uint256 => Lot) private _lots;
     mapping(uint256 => mapping(address => BidEnvelope)) private _bids;
     mapping(uint256 => mapping(bytes32 => bool)) private _saltRegistry;
     mapping(uint256 => mapping(uint32 => address)) private _indexToBidder;
     mapping(uint256 => address[]) private _lotParticipants;
+    mapping(uint256 => mapping(address => uint256)) private _deposits;
+    mapping(uint256 => LotItem[]) private _lotItems;
+    mapping(uint256 => euint64[]) private _topBids;
+    mapping(uint256 => euint32[]) private _topIndices;
+    mapping(uint256 => address[]) private _lotWinners;
+    /// @notice Keeper rewards credited at settlement and not yet withdrawn.
+    mapping(address => uint256) public keeperRewards;
+    /// @notice Units of a settled lot's escrowed items each account can pull with `claimItems`.
+    ///         One unit is `1 / supply` of every item, so single-winner lots have one unit.
+    mapping(uint256 => mapping(address => uint32)) public claimableItemUnits;
     uint256[] private _lotIds;
 
     event LotCreated(uint256 indexed lotId, address indexed curator, uint64 startTime, uint64 endTime, string metadataURI);
     event BidSubmitted(uint256 indexed lotId, address indexed bidder, uint32 indexed bidIndex, bytes32 saltHash);
+    event BidReplaced(uint256 indexed lotId, address indexed bidder, uint32 indexed bidIndex, bytes32 saltHash);
+    event BidWithdrawn(uint256 indexed lotId, address indexed bidder, uint32 indexed bidIndex, uint256 refund);
+    event EndTimeExtended(uint256 indexed lotId, uint64 endTime);
     event LotClosed(uint256 indexed lotId, address indexed curator);
+    event LotCancelled(uint256 indexed lotId, address indexed curator);
+    event KeeperRewarded(uint256 indexed lotId, address indexed keeper, uint256 amount);
+    event KeeperRewardsWithdrawn(address indexed keeper, uint256 amount);
     event RevealRequested(uint256 indexed lotId, address indexed operator);
     event RevealSettled(uint256 indexed lotId, address indexed winner, uint64 clearAmount);
+    event LotUnsold(uint256 indexed lotId);
+    event WinnersSettled(uint256 indexed lotId, address[] winners, uint64 clearAmount);
     event GatewayOperatorUpdated(address indexed operator);
+    event DefaultDepositCapUpdated(uint64 depositCap);
+    event DepositWithdrawn(uint256 indexed lotId, address indexed bidder, uint256 amount);
+    event ProceedsWithdrawn(uint256 indexed lotId, address indexed curator, uint256 amount);
+    event ItemEscrowed(
+        uint256 indexed lotId,
+        TokenStandard standard,
+        address indexed token,
+        uint256 tokenId,
+        uint256 amount
+    );
+    event ItemsReleased(uint256 indexed lotId, address indexed recipient, uint256 itemCount);
+    event ItemsClaimable(uint256 indexed lotId, address indexed account, uint32 units);
 
     error NotOwner();
     error LotNotFound();
@@ -80,6 +197,8 @@ contract BlindBidAuction is SepoliaConfig {
     error OutsideBiddingWindow();
     error SaltAlreadyUsed();
     error BidAlreadySubmitted();
+    error BidNotFound();
+    error InvalidSalt();
     error EmptySalt();
     error GatewayNotConfigured();
     error RevealAlreadyRequested();
@@ -87,6 +206,14 @@ contract BlindBidAuction is SepoliaConfig {
     error UnauthorizedGateway();
     error AuctionNotClosed();
     error AlreadySettled();
+    error InvalidDeposit();
+    error NotSettled();
+    error NothingToWithdraw();
+    error TransferFailed();
+    error InvalidLotItem();
+    error InvalidSupply();
+    error UnsupportedAuctionType();
+    error BidsAlreadyPlaced();
 
     modifier onlyOwner() {
         if (msg.sender != owner) {
@@ -119,52 +246,73 @@ contract BlindBidAuction is SepoliaConfig {
     /// @param endTime UNIX timestamp when bidding closes.
     /// @param encryptedReserve Encrypted reserve threshold provided by curator.
     /// @param reserveProof Zero-knowledge proof for the encrypted reserve value.
+    /// @param depositCap Public deposit every bid must lock, which is also the maximum bid.
+    ///        Zero uses `defaultDepositCap`.
+    /// @param auctionType Pricing rule applied at settlement.
+    /// @param supply Identical units sold by a uniform-price lot, 1 to `MAX_LOT_SUPPLY`.
+    ///        Must be 1 for the other types. ERC-1155 items are split evenly across the units.
+    /// @param softClose Anti-sniping extension rule, or all zeros for a hard close.
+    /// @param items ERC-721 and ERC-1155 tokens pulled into escrow together, or empty for a
+    ///        metadata-only lot. The curator must approve this contract for every item first.
     /// @return lotId Newly created lot identifier.
     function createLot(
-        string calldata metadataURI,
+        string memory metadataURI,
         uint64 startTime,
         uint64 endTime,
         externalEuint64 encryptedReserve,
-        bytes calldata reserveProof
-    ) external returns (uint256 lotId) {
+        bytes calldata reserveProof,
+        uint64 depositCap,
+        AuctionType auctionType,
+        uint32 supply,
+        SoftClose calldata softClose,
+        LotItem[] calldata items
+    ) external nonReentrant returns (uint256 lotId) {
         if (endTime <= startTime || endTime <= block.timestamp) {
             revert InvalidWindow();
         }
+        if (items.length > MAX_LOT_ITEMS) {
+            revert InvalidLotItem();
+        }
+        if (supply == 0 || supply > MAX_LOT_SUPPLY || (auctionType != AuctionType.UniformPrice && supply != 1)) {
+            revert InvalidSupply();
+        }
+        if (
+            softClose.window == 0
+                ? softClose.extension != 0 || softClose.maxExtension != 0
+                : softClose.extension == 0 || softClose.maxExtension < softClose.extension
+        ) {
+            revert InvalidWindow();
+        }
 
         lotId = _nextLotId++;
         Lot storage lot = _lots[lotId];
         lot.curator = msg.sender;
         lot.startTime = startTime;
         lot.endTime = endTime;
+        lot.depositCap = depositCap == 0 ? defaultDepositCap : depositCap;
+        lot.auctionType = auctionType;
+        lot.supply = supply;
+        lot.softCloseWindow = softClose.window;
+        lot.softCloseExtension = softClose.extension;
+        lot.maxEndTime = endTime + softClose.maxExtension;
         lot.metadataURI = metadataURI;
 
-        euint64 reserve = FHE.fromExternal(encryptedReserve, reserveProof);
-        lot.encryptedReserve = reserve;
-        FHE.allowThis(lot.encryptedReserve);
-        FHE.allow(lot.encryptedReserve, msg.sender);
-        if (gatewayOperator != address(0)) {
-            FHE.allow(lot.encryptedReserve, gatewayOperator);
+        _initEncryptedState(lot, FHE.fromExternal(encryptedReserve, reserveProof));
+        if (auctionType == AuctionType.UniformPrice) {
+            _initTopBids(lotId, supply);
         }
 
-        lot.encryptedWinningBid = FHE.asEuint64(0);
-        FHE.allowThis(lot.encryptedWinningBid);
-        FHE.allow(lot.encryptedWinningBid, msg.sender);
-        if (gatewayOperator != address(0)) {
-            FHE.allow(lot.encryptedWinningBid, gatewayOperator);
-        }
+        _lotIds.push(lotId);
+        emit LotCreated(lotId, msg.sender, lot.startTime, lot.endTime, lot.metadataURI);
 
-        lot.encryptedWinningIndex = FHE.asEuint32(0);
-        FHE.allowThis(lot.encryptedWinningIndex);
-        FHE.allow(lot.encryptedWinningIndex, msg.sender);
-        if (gatewayOperator != address(0)) {
-            FHE.allow(lot.encryptedWinningIndex, gatewayOperator);
+        for (uint256 i = 0; i < items.length; i++) {
+            _escrowItem(lotId, items[i]);
         }
-
-        _lotIds.push(lotId);
-        emit LotCreated(lotId, msg.sender, startTime, endTime, metadataURI);
     }
 
     /// @notice Submit a sealed bid for a lot with salted commitment.
+    /// @dev Every bid locks exactly the lot's public deposit cap, so the deposit reveals nothing
+    ///      about the bid. Encrypted amounts above the cap are clamped to it.
     /// @param lotId Target lot identifier.
     /// @param encryptedBid Bid ciphertext generated in the frontend.
     /// @param inputProof Proof used to import the encrypted bid.
@@ -174,11 +322,14 @@ contract BlindBidAuction is SepoliaConfig {
         externalEuint64 encryptedBid,
         bytes calldata inputProof,
         bytes32 saltHash
-    ) external lotExists(lotId) {
+    ) external payable lotExists(lotId) {
         if (saltHash == bytes32(0)) {
             revert EmptySalt();
         }
         Lot storage lot = _lots[lotId];
+        if (msg.value != lot.depositCap) {
+            revert InvalidDeposit();
+        }
         if (lot.closed) {
             revert AuctionClosed();
         }
@@ -193,55 +344,151 @@ contract BlindBidAuction is SepoliaConfig {
         }
 
         _saltRegistry[lotId][saltHash] = true;
-        euint64 bidAmount = FHE.fromExternal(encryptedBid, inputProof);
-        FHE.allowThis(bidAmount);
-        FHE.allow(bidAmount, msg.sender);
-        if (gatewayOperator != address(0)) {
-            FHE.allow(bidAmount, gatewayOperator);
-        }
+        _deposits[lotId][msg.sender] = msg.value;
+        euint64 bidAmount = _importBid(lot, encryptedBid, inputProof);
 
         uint32 bidIndex = lot.bidCount;
         lot.bidCount = bidIndex + 1;
 
+        {
+            BidEnvelope storage envelope = _bids[lotId][msg.sender];
+            envelope.amount = bidAmount;
+            envelope.saltHash = saltHash;
+            envelope.submittedAt = uint64(block.timestamp);
+            envelope.index = bidIndex;
+            envelope.isSealed = false;
+        }
+
+        _indexToBidder[lotId][bidIndex] = msg.sender;
+        _lotParticipants[lotId].push(msg.sender);
+
+        // First by live participants: after every bid is withdrawn the next one takes the lead outright
+        _applyBid(lotId, lot, bidAmount, bidIndex, _lotParticipants[lotId].length == 1);
+        _extendForLateBid(lotId, lot);
+
+        emit BidSubmitted(lotId, msg.sender, bidIndex, saltHash);
+    }
+
+    /// @notice Replace the caller's sealed bid while the lot is still open.
+    /// @dev Revealing the previous salt proves the caller placed the bid being replaced. The
+    ///      bid keeps its index and deposit; only the encrypted amount and salt change. A running
+    ///      maximum cannot forget a bid, so the lot's standings are recomputed from every
+    ///      envelope, which costs O(activeBidCount) encrypted operations.
+    /// @param lotId Target lot identifier.
+    /// @param encryptedBid New bid ciphertext generated in the frontend.
+    /// @param inputProof Proof used to import the encrypted bid.
+    /// @param previousSalt Salt whose keccak256 is the current envelope's `saltHash`.
+    /// @param saltHash Fresh commitment hash for the new bid.
+    function replaceBid(
+        uint256 lotId,
+        externalEuint64 encryptedBid,
+        bytes calldata inputProof,
+        string calldata previousSalt,
+        bytes32 saltHash
+    ) external lotExists(lotId) {
+        if (saltHash == bytes32(0)) {
+            revert EmptySalt();
+        }
+        Lot storage lot = _lots[lotId];
+        if (lot.closed) {
+            revert AuctionClosed();
+        }
+        if (block.timestamp < lot.startTime || block.timestamp > lot.endTime) {
+            revert OutsideBiddingWindow();
+        }
         BidEnvelope storage envelope = _bids[lotId][msg.sender];
-        envelope.amount = bidAmount;
+        if (envelope.saltHash == bytes32(0)) {
+            revert BidNotFound();
+        }
+        if (keccak256(bytes(previousSalt)) != envelope.saltHash) {
+            revert InvalidSalt();
+        }
+        if (_saltRegistry[lotId][saltHash]) {
+            revert SaltAlreadyUsed();
+        }
+
+        _saltRegistry[lotId][saltHash] = true;
+        envelope.amount = _importBid(lot, encryptedBid, inputProof);
         envelope.saltHash = saltHash;
         envelope.submittedAt = uint64(block.timestamp);
-        envelope.index = bidIndex;
-        envelope.isSealed = false;
 
-        _indexToBidder[lotId][bidIndex] = msg.sender;
-        _lotParticipants[lotId].push(msg.sender);
+        _recomputeStandings(lotId, lot);
+        _extendForLateBid(lotId, lot);
 
-        if (bidIndex == 0) {
-            lot.encryptedWinningBid = bidAmount;
-            lot.encryptedWinningIndex = FHE.asEuint32(bidIndex);
-        } else {
-            ebool isHigher = FHE.gt(bidAmount, lot.encryptedWinningBid);
-            lot.encryptedWinningBid = FHE.select(isHigher, bidAmount, lot.encryptedWinningBid);
-            lot.encryptedWinningIndex = FHE.select(
-                isHigher,
-                FHE.asEuint32(bidIndex),
-                lot.encryptedWinningIndex
-            );
+        emit BidReplaced(lotId, msg.sender, envelope.index, saltHash);
+    }
+
+    /// @notice Withdraw the caller's sealed bid while the lot is still open and refund its deposit.
+    /// @dev Revealing the salt proves ownership. The bid index is retired rather than reused, so
+    ///      `bidCount` keeps counting every index issued. The running winner cannot drop a bid, so
+    ///      the standings are recomputed over the remaining envelopes in `_lotParticipants`. The
+    ///      caller may bid again later with a new salt.
+    /// @param lotId Target lot identifier.
+    /// @param salt Salt whose keccak256 is the envelope's `saltHash`.
+    function withdrawBid(uint256 lotId, string calldata salt) external nonReentrant lotExists(lotId) {
+        Lot storage lot = _lots[lotId];
+        if (lot.closed) {
+            revert AuctionClosed();
+        }
+        if (block.timestamp < lot.startTime || block.timestamp > lot.endTime) {
+            revert OutsideBiddingWindow();
+        }
+        BidEnvelope storage envelope = _bids[lotId][msg.sender];
+        if (envelope.saltHash == bytes32(0)) {
+            revert BidNotFound();
+        }
+        if (keccak256(bytes(salt)) != envelope.saltHash) {
+            revert InvalidSalt();
         }
 
-        FHE.allowThis(lot.encryptedWinningBid);
-        FHE.allowThis(lot.encryptedWinningIndex);
-        FHE.allow(lot.encryptedWinningBid, lot.curator);
-        FHE.allow(lot.encryptedWinningIndex, lot.curator);
-        if (gatewayOperator != address(0)) {
-            FHE.allow(lot.encryptedWinningBid, gatewayOperator);
-            FHE.allow(lot.encryptedWinningIndex, gatewayOperator);
+        uint32 bidIndex = envelope.index;
+        delete _bids[lotId][msg.sender];
+        delete _indexToBidder[lotId][bidIndex];
+        _removeParticipant(lotId, msg.sender);
+
+        _recomputeStandings(lotId, lot);
+
+        uint256 refund = _deposits[lotId][msg.sender];
+        _deposits[lotId][msg.sender] = 0;
+        _sendValue(msg.sender, refund);
+
+        emit BidWithdrawn(lotId, msg.sender, bidIndex, refund);
+    }
+
+    /// @notice Pull a lot that has no standing bid, or has not opened, and return its
+    ///         escrowed items to the curator.
+    /// @dev Withdrawn bids do not count. Marks the lot closed as well, so bidding, closing and
+    ///      settlement all reject it.
+    ///      Needs no gateway since there is nothing to reveal.
+    /// @param lotId Target lot identifier.
+    function cancelLot(uint256 lotId) external nonReentrant lotExists(lotId) onlyCurator(lotId) {
+        Lot storage lot = _lots[lotId];
+        if (lot.closed) {
+            revert AuctionClosed();
         }
+        if (_lotParticipants[lotId].length != 0 && block.timestamp >= lot.startTime) {
+            revert BidsAlreadyPlaced();
+        }
+        lot.closed = true;
+        lot.cancelled = true;
 
-        emit BidSubmitted(lotId, msg.sender, bidIndex, saltHash);
+        // The curator is the caller, so a failing transfer only blocks their own cancellation.
+        _transferItems(lotId, lot.curator, lot.supply, lot.supply);
+
+        emit LotCancelled(lotId, lot.curator);
     }
 
     /// @notice Close bidding and request reveal from the configured gateway.
+    /// @dev The curator may close at any time. Once `endTime` has passed anyone may, so bidders
+    ///      are never stuck behind an absent curator; a non-curator caller is recorded as the
+    ///      lot's keeper and earns `KEEPER_REWARD_BPS` of the proceeds if the lot sells.
     /// @param lotId Target lot identifier.
-    function closeLot(uint256 lotId) external lotExists(lotId) onlyCurator(lotId) {
+    function closeLot(uint256 lotId) external lotExists(lotId) {
         Lot storage lot = _lots[lotId];
+        bool byCurator = msg.sender == lot.curator;
+        if (!byCurator && block.timestamp <= lot.endTime) {
+            revert NotCurator();
+        }
         if (lot.closed) {
             revert AuctionClosed();
         }
@@ -253,6 +500,24 @@ contract BlindBidAuction is SepoliaConfig {
         }
         lot.closed = true;
         lot.revealRequested = true;
+        // The operator may have changed since the bids were placed
+        _allowGateway(lotId, lot);
+        if (!byCurator) {
+            lot.keeper = msg.sender;
+        }
+
+        // Compared once at close so the gateway decrypts a single flag alongside the winner.
+        lot.encryptedReserveMet = FHE.ge(lot.encryptedWinningBid, lot.encryptedReserve);
+        FHE.allowThis(lot.encryptedReserveMet);
+        FHE.allow(lot.encryptedReserveMet, lot.curator);
+        FHE.allow(lot.encryptedReserveMet, gatewayOperator);
+
+        lot.encryptedClearingPrice = lot.auctionType != AuctionType.FirstPrice
+            ? FHE.max(lot.encryptedSecondBid, lot.encryptedReserve)
+            : lot.encryptedWinningBid;
+        FHE.allowThis(lot.encryptedClearingPrice);
+        FHE.allow(lot.encryptedClearingPrice, lot.curator);
+        FHE.allow(lot.encryptedClearingPrice, gatewayOperator);
 
         address[] storage participants = _lotParticipants[lotId];
         for (uint256 i = 0; i < participants.length; i++) {
@@ -264,16 +529,22 @@ contract BlindBidAuction is SepoliaConfig {
     }
 
     /// @notice Gateway callback finalising reveal and settlement.
+    /// @dev Lots without bids or whose decrypted reserve flag is false settle unsold and
+    ///      emit `LotUnsold`; the winning index, amount and bidder are ignored in that case.
     /// @param lotId Target lot identifier.
     /// @param winningIndex Plain index returned by the gateway after decrypting.
-    /// @param clearWinningBid Plain winning amount revealed by the gateway.
+    /// @param clearPrice Decrypted `encryptedClearingPrice`: the winning bid for first-price lots,
+    ///        the higher of the second-highest bid and the reserve for second-price lots.
+    ///        Uniform-price lots settle through `settleUniformReveal` instead.
     /// @param bidder Winner address asserted by the gateway.
+    /// @param reserveMet Decrypted result of comparing the winning bid with the reserve.
     function settleReveal(
         uint256 lotId,
         uint32 winningIndex,
-        uint64 clearWinningBid,
-        address bidder
-    ) external lotExists(lotId) {
+        uint64 clearPrice,
+        address bidder,
+        bool reserveMet
+    ) external nonReentrant lotExists(lotId) {
         if (msg.sender != gatewayOperator) {
             revert UnauthorizedGateway();
         }
@@ -287,37 +558,215 @@ contract BlindBidAuction is SepoliaConfig {
         if (!lot.revealRequested) {
             revert RevealNotRequested();
         }
+        if (lot.auctionType == AuctionType.UniformPrice) {
+            revert UnsupportedAuctionType();
+        }
+
+        if (!reserveMet || _lotParticipants[lotId].length == 0) {
+            lot.settled = true;
+            emit LotUnsold(lotId);
+            _creditItems(lotId, lot.curator, lot.supply);
+            return;
+        }
 
         address recordedBidder = _indexToBidder[lotId][winningIndex];
         if (recordedBidder != bidder || recordedBidder == address(0)) {
             revert UnauthorizedGateway();
         }
 
+        if (clearPrice > _deposits[lotId][recordedBidder]) {
+            revert InvalidDeposit();
+        }
+        // Charge the winner; the excess stays claimable through withdrawDeposit.
+        _deposits[lotId][recordedBidder] -= clearPrice;
+
         lot.winner = recordedBidder;
-        lot.revealedAmount = clearWinningBid;
+        lot.revealedAmount = clearPrice;
+        lot.reserveMet = true;
         lot.settled = true;
+        _lotWinners[lotId].push(recordedBidder);
+        _creditKeeper(lotId, lot, clearPrice);
+
+        emit RevealSettled(lotId, recordedBidder, clearPrice);
+        _creditItems(lotId, recordedBidder, lot.supply);
+    }
+
+    /// @notice Gateway callback settling a uniform-price lot with up to `supply` winners.
+    /// @dev The gateway decrypts the top-N slots and passes the indices of those holding a bid
+    ///      at or above the reserve. An empty list settles the lot unsold. Every winner pays the
+    ///      same `clearPrice` and can claim `amount / supply` of each escrowed item; units left
+    ///      without a winner are claimable by the curator.
+    /// @param lotId Target lot identifier.
+    /// @param winningIndices Plain bid indices of the winners, highest bid first.
+    /// @param clearPrice Decrypted `encryptedClearingPrice`: the higher of the (N+1)th bid and
+    ///        the reserve.
+    function settleUniformReveal(
+        uint256 lotId,
+        uint32[] calldata winningIndices,
+        uint64 clearPrice
+    ) external nonReentrant lotExists(lotId) {
+        if (msg.sender != gatewayOperator) {
+            revert UnauthorizedGateway();
+        }
+        Lot storage lot = _lots[lotId];
+        if (!lot.closed) {
+            revert AuctionNotClosed();
+        }
+        if (lot.settled) {
+            revert AlreadySettled();
+        }
+        if (!lot.revealRequested) {
+            revert RevealNotRequested();
+        }
+        if (lot.auctionType != AuctionType.UniformPrice) {
+            revert UnsupportedAuctionType();
+        }
+        if (winningIndices.length > lot.supply) {
+            revert InvalidSupply();
+        }
+
+        lot.settled = true;
+        if (winningIndices.length == 0) {
+            emit LotUnsold(lotId);
+            _creditItems(lotId, lot.curator, lot.supply);
+            return;
+        }
+
+        address[] storage winners = _lotWinners[lotId];
+        for (uint256 i = 0; i < winningIndices.length; i++) {
+            address bidder = _indexToBidder[lotId][winningIndices[i]];
+            if (winningIndices[i] >= lot.bidCount || bidder == address(0)) {
+                revert UnauthorizedGateway();
+            }
+            for (uint256 j = 0; j < winners.length; j++) {
+                if (winners[j] == bidder) {
+                    revert UnauthorizedGateway();
+                }
+            }
+            if (clearPrice > _deposits[lotId][bidder]) {
+                revert InvalidDeposit();
+            }
+            _deposits[lotId][bidder] -= clearPrice;
+            winners.push(bidder);
+        }
+
+        lot.winner = winners[0];
+        lot.revealedAmount = clearPrice;
+        lot.reserveMet = true;
+        _creditKeeper(lotId, lot, uint256(clearPrice) * winners.length);
+
+        emit WinnersSettled(lotId, winners, clearPrice);
+        for (uint256 i = 0; i < winners.length; i++) {
+            _creditItems(lotId, winners[i], 1);
+        }
+        _creditItems(lotId, lot.curator, lot.supply - uint32(winners.length));
+    }
+
+    /// @notice Withdraw the caller's escrowed deposit once a lot is settled.
+    /// @dev Losing bidders get their full deposit back, the winner gets the excess over the
+    ///      revealed amount.
+    /// @param lotId Target lot identifier.
+    function withdrawDeposit(uint256 lotId) external nonReentrant lotExists(lotId) {
+        if (!_lots[lotId].settled) {
+            revert NotSettled();
+        }
+        uint256 amount = _deposits[lotId][msg.sender];
+        if (amount == 0) {
+            revert NothingToWithdraw();
+        }
+        _deposits[lotId][msg.sender] = 0;
+        _sendValue(msg.sender, amount);
+
+        emit DepositWithdrawn(lotId, msg.sender, amount);
+    }
+
+    /// @notice Withdraw the winning payments of a sold lot to its curator.
+    /// @dev Every winner paid `revealedAmount`, so proceeds scale with the winner count, less any
+    ///      keeper reward.
+    /// @param lotId Target lot identifier.
+    function withdrawProceeds(uint256 lotId) external nonReentrant lotExists(lotId) onlyCurator(lotId) {
+        Lot storage lot = _lots[lotId];
+        if (!lot.settled) {
+            revert NotSettled();
+        }
+        if (!lot.reserveMet || lot.proceedsWithdrawn) {
+            revert NothingToWithdraw();
+        }
+        lot.proceedsWithdrawn = true;
+        uint256 proceeds = lot.revealedAmount * _lotWinners[lotId].length - lot.keeperReward;
+        _sendValue(msg.sender, proceeds);
 
-        emit RevealSettled(lotId, recordedBidder, clearWinningBid);
+        emit ProceedsWithdrawn(lotId, msg.sender, proceeds);
+    }
+
+    /// @notice Transfer the caller's share of a settled lot's escrowed items: the whole bundle
+    ///         for a single-winner lot, one unit per winning bid on uniform-price lots, and the
+    ///         unsold units (or the whole bundle) to the curator.
+    /// @dev Settlement only records claims, so a recipient that cannot receive ERC-1155 tokens
+    ///      blocks its own claim rather than settlement and everyone else's deposits.
+    /// @param lotId Target lot identifier.
+    function claimItems(uint256 lotId) external nonReentrant lotExists(lotId) {
+        Lot storage lot = _lots[lotId];
+        if (!lot.settled) {
+            revert NotSettled();
+        }
+        uint32 units = claimableItemUnits[lotId][msg.sender];
+        if (units == 0) {
+            revert NothingToWithdraw();
+        }
+        claimableItemUnits[lotId][msg.sender] = 0;
+        _transferItems(lotId, msg.sender, units, lot.supply);
+    }
+
+    /// @notice Withdraw every keeper reward credited to the caller.
+    function withdrawKeeperRewards() external nonReentrant {
+        uint256 amount = keeperRewards[msg.sender];
+        if (amount == 0) {
+            revert NothingToWithdraw();
+        }
+        keeperRewards[msg.sender] = 0;
+        _sendValue(msg.sender, amount);
+
+        emit KeeperRewardsWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Update the deposit applied to lots created without their own cap.
+    /// @param depositCap New default deposit cap in wei.
+    function updateDefaultDepositCap(uint64 depositCap) external onlyOwner {
+        if (depositCap == 0) {
+            revert InvalidDeposit();
+        }
+        defaultDepositCap = depositCap;
+        emit DefaultDepositCapUpdated(depositCap);
     }
 
     /// @notice Update the global gateway operator responsible for decryptions.
+    /// @dev Lots closed from now on grant the new operator access at `closeLot`. Lots already
+    ///      awaiting reveal keep their grants to the previous operator; pass them to
+    ///      `grantGatewayAccess`, a page at a time.
     /// @param newOperator Address of the relayer gateway.
     function updateGatewayOperator(address newOperator) external onlyOwner {
         gatewayOperator = newOperator;
+        emit GatewayOperatorUpdated(newOperator);
+    }
 
-        for (uint256 i = 0; i < _lotIds.length; i++) {
-            Lot storage lot = _lots[_lotIds[i]];
-            if (lot.curator == address(0)) {
+    /// @notice Grant the current gateway operator decryption access to a range of lots.
+    /// @dev Bounded by the range so the call always fits in a block. Settled and cancelled lots,
+    ///      and ids that were never created, are skipped.
+    /// @param fromLotId First lot id of the range.
+    /// @param toLotId Lot id just past the end of the range.
+    function grantGatewayAccess(uint256 fromLotId, uint256 toLotId) external onlyOwner {
+        if (gatewayOperator == address(0)) {
+            revert GatewayNotConfigured();
+        }
+        uint256 end = toLotId < _nextLotId ? toLotId : _nextLotId;
+        for (uint256 lotId = fromLotId; lotId < end; lotId++) {
+            Lot storage lot = _lots[lotId];
+            if (lot.curator == address(0) || lot.settled || lot.cancelled) {
                 continue;
             }
-            if (newOperator != address(0)) {
-                FHE.allow(lot.encryptedReserve, newOperator);
-                FHE.allow(lot.encryptedWinningBid, newOperator);
-                FHE.allow(lot.encryptedWinningIndex, newOperator);
-            }
+            _allowGateway(lotId, lot);
         }
-
-        emit GatewayOperatorUpdated(newOperator);
     }
 
     /// @notice Fetch public lot information without decrypting private values.
@@ -329,12 +778,29 @@ contract BlindBidAuction is SepoliaConfig {
         snapshot.closed = lot.closed;
         snapshot.revealRequested = lot.revealRequested;
         snapshot.settled = lot.settled;
+        snapshot.cancelled = lot.cancelled;
         snapshot.bidCount = lot.bidCount;
+        snapshot.activeBidCount = uint32(_lotParticipants[lotId].length);
         snapshot.encryptedReserve = FHE.toBytes32(lot.encryptedReserve);
         snapshot.encryptedWinningBid = FHE.toBytes32(lot.encryptedWinningBid);
         snapshot.encryptedWinningIndex = FHE.toBytes32(lot.encryptedWinningIndex);
+        snapshot.encryptedReserveMet = FHE.toBytes32(lot.encryptedReserveMet);
+        snapshot.auctionType = lot.auctionType;
+        snapshot.supply = lot.supply;
+        snapshot.winnerCount = uint32(_lotWinners[lotId].length);
+        snapshot.encryptedSecondBid = FHE.toBytes32(lot.encryptedSecondBid);
+        snapshot.encryptedClearingPrice = FHE.toBytes32(lot.encryptedClearingPrice);
         snapshot.winner = lot.winner;
         snapshot.revealedAmount = lot.revealedAmount;
+        snapshot.reserveMet = lot.reserveMet;
+        snapshot.depositCap = lot.depositCap;
+        snapshot.proceedsWithdrawn = lot.proceedsWithdrawn;
+        snapshot.keeper = lot.keeper;
+        snapshot.keeperReward = lot.keeperReward;
+        snapshot.softCloseWindow = lot.softCloseWindow;
+        snapshot.softCloseExtension = lot.softCloseExtension;
+        snapshot.maxEndTime = lot.maxEndTime;
+        snapshot.items = _lotItems[lotId];
         snapshot.metadataURI = lot.metadataURI;
     }
 
@@ -367,8 +833,356 @@ contract BlindBidAuction is SepoliaConfig {
         );
     }
 
+    /// @notice Winners of a settled lot, highest bid first. Empty until settled or when unsold.
+    function getWinners(uint256 lotId) external view lotExists(lotId) returns (address[] memory) {
+        return _lotWinners[lotId];
+    }
+
+    /// @notice Encrypted top-N slots of a uniform-price lot, highest first. Empty slots hold a
+    ///         zero bid and the index `type(uint32).max`. Only the curator and gateway can decrypt.
+    function getTopBidHandles(uint256 lotId)
+        external
+        view
+        lotExists(lotId)
+        returns (bytes32[] memory bids, bytes32[] memory indices)
+    {
+        euint64[] storage topBids = _topBids[lotId];
+        euint32[] storage topIndices = _topIndices[lotId];
+        bids = new bytes32[](topBids.length);
+        indices = new bytes32[](topIndices.length);
+        for (uint256 i = 0; i < topBids.length; i++) {
+            bids[i] = FHE.toBytes32(topBids[i]);
+            indices[i] = FHE.toBytes32(topIndices[i]);
+        }
+    }
+
+    /// @notice Escrowed deposit still claimable by a bidder on a lot.
+    function getDeposit(uint256 lotId, address bidder) external view returns (uint256) {
+        return _deposits[lotId][bidder];
+    }
+
     /// @notice List all lot ids created so far.
     function getAllLotIds() external view returns (uint256[] memory) {
         return _lotIds;
     }
+
+    /// @dev Store the reserve and zeroed running winner, granting the curator and gateway access.
+    function _initEncryptedState(Lot storage lot, euint64 reserve) private {
+        lot.encryptedReserve = reserve;
+        FHE.allowThis(lot.encryptedReserve);
+        FHE.allow(lot.encryptedReserve, msg.sender);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(lot.encryptedReserve, gatewayOperator);
+        }
+
+        lot.encryptedWinningBid = FHE.asEuint64(0);
+        FHE.allowThis(lot.encryptedWinningBid);
+        FHE.allow(lot.encryptedWinningBid, msg.sender);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(lot.encryptedWinningBid, gatewayOperator);
+        }
+
+        lot.encryptedWinningIndex = FHE.asEuint32(0);
+        FHE.allowThis(lot.encryptedWinningIndex);
+        FHE.allow(lot.encryptedWinningIndex, msg.sender);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(lot.encryptedWinningIndex, gatewayOperator);
+        }
+
+        if (lot.auctionType != AuctionType.FirstPrice) {
+            lot.encryptedSecondBid = FHE.asEuint64(0);
+            FHE.allowThis(lot.encryptedSecondBid);
+            FHE.allow(lot.encryptedSecondBid, msg.sender);
+            if (gatewayOperator != address(0)) {
+                FHE.allow(lot.encryptedSecondBid, gatewayOperator);
+            }
+        }
+    }
+
+    /// @dev Import an encrypted bid clamped to the lot's deposit cap, granting the bidder and gateway access.
+    function _importBid(
+        Lot storage lot,
+        externalEuint64 encryptedBid,
+        bytes calldata inputProof
+    ) private returns (euint64 bidAmount) {
+        bidAmount = FHE.min(FHE.fromExternal(encryptedBid, inputProof), lot.depositCap);
+        FHE.allowThis(bidAmount);
+        FHE.allow(bidAmount, msg.sender);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(bidAmount, gatewayOperator);
+        }
+    }
+
+    /// @dev Fold one bid into the lot's running winner, runner-up and top-N slots. `first` marks
+    ///      the first bid folded in, which takes the lead unconditionally.
+    function _applyBid(uint256 lotId, Lot storage lot, euint64 bidAmount, uint32 bidIndex, bool first) private {
+        if (first) {
+            if (lot.auctionType == AuctionType.UniformPrice) {
+                _insertTopBid(lotId, lot, bidAmount, bidIndex);
+            }
+            lot.encryptedWinningBid = bidAmount;
+            lot.encryptedWinningIndex = FHE.asEuint32(bidIndex);
+        } else {
+            ebool isHigher = FHE.gt(bidAmount, lot.encryptedWinningBid);
+            if (lot.auctionType == AuctionType.UniformPrice) {
+                _insertTopBid(lotId, lot, bidAmount, bidIndex);
+            } else if (lot.auctionType == AuctionType.SecondPrice) {
+                _trackSecondBid(lot, bidAmount, isHigher);
+            }
+            lot.encryptedWinningBid = FHE.select(isHigher, bidAmount, lot.encryptedWinningBid);
+            lot.encryptedWinningIndex = FHE.select(
+                isHigher,
+                FHE.asEuint32(bidIndex),
+                lot.encryptedWinningIndex
+            );
+        }
+
+        FHE.allowThis(lot.encryptedWinningBid);
+        FHE.allowThis(lot.encryptedWinningIndex);
+        FHE.allow(lot.encryptedWinningBid, lot.curator);
+        FHE.allow(lot.encryptedWinningIndex, lot.curator);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(lot.encryptedWinningBid, gatewayOperator);
+            FHE.allow(lot.encryptedWinningIndex, gatewayOperator);
+        }
+    }
+
+    /// @dev Rebuild the running winner, runner-up and top-N slots from the current envelopes,
+    ///      in bid order so ties still go to the earlier bid.
+    function _recomputeStandings(uint256 lotId, Lot storage lot) private {
+        // Only kept when every bid has been withdrawn; otherwise the first envelope replaces them
+        lot.encryptedWinningBid = FHE.asEuint64(0);
+        lot.encryptedWinningIndex = FHE.asEuint32(0);
+        FHE.allowThis(lot.encryptedWinningBid);
+        FHE.allowThis(lot.encryptedWinningIndex);
+        FHE.allow(lot.encryptedWinningBid, lot.curator);
+        FHE.allow(lot.encryptedWinningIndex, lot.curator);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(lot.encryptedWinningBid, gatewayOperator);
+            FHE.allow(lot.encryptedWinningIndex, gatewayOperator);
+        }
+        if (lot.auctionType != AuctionType.FirstPrice) {
+            lot.encryptedSecondBid = FHE.asEuint64(0);
+            FHE.allowThis(lot.encryptedSecondBid);
+            FHE.allow(lot.encryptedSecondBid, lot.curator);
+            if (gatewayOperator != address(0)) {
+                FHE.allow(lot.encryptedSecondBid, gatewayOperator);
+            }
+        }
+        euint64[] storage topBids = _topBids[lotId];
+        euint32[] storage topIndices = _topIndices[lotId];
+        for (uint256 slot = 0; slot < topBids.length; slot++) {
+            topBids[slot] = FHE.asEuint64(0);
+            topIndices[slot] = FHE.asEuint32(EMPTY_SLOT);
+        }
+
+        address[] storage participants = _lotParticipants[lotId];
+        for (uint256 i = 0; i < participants.length; i++) {
+            BidEnvelope storage envelope = _bids[lotId][participants[i]];
+            _applyBid(lotId, lot, envelope.amount, envelope.index, i == 0);
+        }
+    }
+
+    /// @dev Soft close: a bid landing inside the final window pushes `endTime` back by the
+    ///      lot's extension, capped at `maxEndTime`.
+    function _extendForLateBid(uint256 lotId, Lot storage lot) private {
+        if (lot.softCloseWindow == 0 || block.timestamp + lot.softCloseWindow <= lot.endTime) {
+            return;
+        }
+        uint64 extended = lot.endTime + lot.softCloseExtension;
+        if (extended > lot.maxEndTime) {
+            extended = lot.maxEndTime;
+        }
+        if (extended > lot.endTime) {
+            lot.endTime = extended;
+            emit EndTimeExtended(lotId, extended);
+        }
+    }
+
+    /// @dev Set aside the keeper's share of a sale's proceeds. Credited at settlement rather than
+    ///      at `withdrawProceeds`, so the keeper is paid even if the curator never returns.
+    function _creditKeeper(uint256 lotId, Lot storage lot, uint256 proceeds) private {
+        if (lot.keeper == address(0)) {
+            return;
+        }
+        uint256 reward = (proceeds * KEEPER_REWARD_BPS) / 10_000;
+        lot.keeperReward = reward;
+        keeperRewards[lot.keeper] += reward;
+        emit KeeperRewarded(lotId, lot.keeper, reward);
+    }
+
+    /// @dev Let the gateway operator decrypt a lot's standings: the reserve, the running winner
+    ///      and, once closed, the reserve flag, second bid and clearing price.
+    function _allowGateway(uint256 lotId, Lot storage lot) private {
+        FHE.allow(lot.encryptedReserve, gatewayOperator);
+        FHE.allow(lot.encryptedWinningBid, gatewayOperator);
+        FHE.allow(lot.encryptedWinningIndex, gatewayOperator);
+        if (FHE.isInitialized(lot.encryptedReserveMet)) {
+            FHE.allow(lot.encryptedReserveMet, gatewayOperator);
+        }
+        if (FHE.isInitialized(lot.encryptedSecondBid)) {
+            FHE.allow(lot.encryptedSecondBid, gatewayOperator);
+        }
+        if (FHE.isInitialized(lot.encryptedClearingPrice)) {
+            FHE.allow(lot.encryptedClearingPrice, gatewayOperator);
+        }
+        euint64[] storage topBids = _topBids[lotId];
+        euint32[] storage topIndices = _topIndices[lotId];
+        for (uint256 slot = 0; slot < topBids.length; slot++) {
+            FHE.allow(topBids[slot], gatewayOperator);
+            FHE.allow(topIndices[slot], gatewayOperator);
+        }
+    }
+
+    /// @dev Drop a withdrawn bidder from `_lotParticipants`, shifting the tail so the list stays
+    ///      in bid order for `_recomputeStandings`.
+    function _removeParticipant(uint256 lotId, address bidder) private {
+        address[] storage participants = _lotParticipants[lotId];
+        uint256 length = participants.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (participants[i] == bidder) {
+                for (uint256 j = i + 1; j < length; j++) {
+                    participants[j - 1] = participants[j];
+                }
+                participants.pop();
+                return;
+            }
+        }
+    }
+
+    /// @dev Keep the runner-up of a second-price lot: the previous leader when the new bid
+    ///      takes over, otherwise the larger of the current runner-up and the new bid.
+    function _trackSecondBid(Lot storage lot, euint64 bidAmount, ebool isHigher) private {
+        lot.encryptedSecondBid = FHE.select(
+            isHigher,
+            lot.encryptedWinningBid,
+            FHE.max(lot.encryptedSecondBid, bidAmount)
+        );
+        FHE.allowThis(lot.encryptedSecondBid);
+        FHE.allow(lot.encryptedSecondBid, lot.curator);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(lot.encryptedSecondBid, gatewayOperator);
+        }
+    }
+
+    /// @dev Fill the top-N slots of a uniform-price lot with zero bids and the empty index.
+    function _initTopBids(uint256 lotId, uint32 supply) private {
+        for (uint32 i = 0; i < supply; i++) {
+            euint64 bid = FHE.asEuint64(0);
+            euint32 index = FHE.asEuint32(EMPTY_SLOT);
+            FHE.allowThis(bid);
+            FHE.allowThis(index);
+            FHE.allow(bid, msg.sender);
+            FHE.allow(index, msg.sender);
+            if (gatewayOperator != address(0)) {
+                FHE.allow(bid, gatewayOperator);
+                FHE.allow(index, gatewayOperator);
+            }
+            _topBids[lotId].push(bid);
+            _topIndices[lotId].push(index);
+        }
+    }
+
+    /// @dev Insert a bid into the sorted top-N slots of a uniform-price lot. The new bid is
+    ///      carried down the slots, swapping with every lower one, so each slot costs the same
+    ///      encrypted work whatever the bid. Whatever falls off the end is the best losing bid
+    ///      so far, which feeds the (N+1)th price. Ties keep the earlier bid.
+    function _insertTopBid(uint256 lotId, Lot storage lot, euint64 bidAmount, uint32 bidIndex) private {
+        euint64[] storage topBids = _topBids[lotId];
+        euint32[] storage topIndices = _topIndices[lotId];
+        euint64 carryBid = bidAmount;
+        euint32 carryIndex = FHE.asEuint32(bidIndex);
+
+        for (uint256 i = 0; i < topBids.length; i++) {
+            ebool isHigher = FHE.gt(carryBid, topBids[i]);
+            euint64 slotBid = FHE.select(isHigher, carryBid, topBids[i]);
+            euint32 slotIndex = FHE.select(isHigher, carryIndex, topIndices[i]);
+            carryBid = FHE.select(isHigher, topBids[i], carryBid);
+            carryIndex = FHE.select(isHigher, topIndices[i], carryIndex);
+
+            topBids[i] = slotBid;
+            topIndices[i] = slotIndex;
+            FHE.allowThis(slotBid);
+            FHE.allowThis(slotIndex);
+            FHE.allow(slotBid, lot.curator);
+            FHE.allow(slotIndex, lot.curator);
+            if (gatewayOperator != address(0)) {
+                FHE.allow(slotBid, gatewayOperator);
+                FHE.allow(slotIndex, gatewayOperator);
+            }
+        }
+
+        lot.encryptedSecondBid = FHE.max(lot.encryptedSecondBid, carryBid);
+        FHE.allowThis(lot.encryptedSecondBid);
+        FHE.allow(lot.encryptedSecondBid, lot.curator);
+        if (gatewayOperator != address(0)) {
+            FHE.allow(lot.encryptedSecondBid, gatewayOperator);
+        }
+    }
+
+    /// @dev Pull one item from the curator into custody; requires prior approval. Any failing
+    ///      item reverts `createLot`, so a bundle is escrowed atomically.
+    function _escrowItem(uint256 lotId, LotItem calldata item) private {
+        if (item.token == address(0)) {
+            revert InvalidLotItem();
+        }
+        Lot storage lot = _lots[lotId];
+        // Uniform-price units must be fungible and split evenly between winners.
+        if (
+            lot.auctionType == AuctionType.UniformPrice &&
+            (item.standard != TokenStandard.ERC1155 || item.amount % lot.supply != 0)
+        ) {
+            revert InvalidLotItem();
+        }
+        if (item.standard == TokenStandard.ERC721) {
+            if (item.amount != 1) {
+                revert InvalidLotItem();
+            }
+            IERC721(item.token).transferFrom(msg.sender, address(this), item.tokenId);
+        } else {
+            if (item.amount == 0) {
+                revert InvalidLotItem();
+            }
+            IERC1155(item.token).safeTransferFrom(msg.sender, address(this), item.tokenId, item.amount, "");
+        }
+        _lotItems[lotId].push(item);
+        emit ItemEscrowed(lotId, item.standard, item.token, item.tokenId, item.amount);
+    }
+
+    /// @dev Record `units` of a lot's items as claimable by `account`. Metadata-only lots have
+    ///      nothing to claim.
+    function _creditItems(uint256 lotId, address account, uint32 units) private {
+        if (units == 0 || _lotItems[lotId].length == 0) {
+            return;
+        }
+        claimableItemUnits[lotId][account] += units;
+        emit ItemsClaimable(lotId, account, units);
+    }
+
+    /// @dev Send `units / supply` of every escrowed item to `recipient`. ERC-721 items only exist
+    ///      on single-unit lots (see `_escrowItem`) and use `transferFrom`; ERC-1155 has no
+    ///      unchecked transfer, so those use `safeTransferFrom`.
+    function _transferItems(uint256 lotId, address recipient, uint32 units, uint32 supply) private {
+        LotItem[] storage items = _lotItems[lotId];
+        if (items.length == 0) {
+            return;
+        }
+        for (uint256 i = 0; i < items.length; i++) {
+            LotItem storage item = items[i];
+            if (item.standard == TokenStandard.ERC721) {
+                IERC721(item.token).transferFrom(address(this), recipient, item.tokenId);
+            } else {
+                uint256 amount = (item.amount / supply) * units;
+                IERC1155(item.token).safeTransferFrom(address(this), recipient, item.tokenId, amount, "");
+            }
+        }
+        emit ItemsReleased(lotId, recipient, items.length);
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        (bool success, ) = payable(to).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+    }
 }
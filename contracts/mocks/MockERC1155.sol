@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+/// @title MockERC1155
+/// @notice Freely mintable ERC-1155 used to exercise bundle custody in tests and local deployments.
+contract MockERC1155 is ERC1155 {
+    constructor() ERC1155("ipfs://blindbid-mock/{id}.json") {}
+
+    /// @notice Mint `amount` editions of `tokenId` to `to`.
+    function mint(address to, uint256 tokenId, uint256 amount) external {
+        _mint(to, tokenId, amount, "");
+    }
+}
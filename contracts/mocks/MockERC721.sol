@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/// @title MockERC721
+/// @notice Freely mintable ERC-721 used to exercise NFT custody in tests and local deployments.
+contract MockERC721 is ERC721 {
+    uint256 private _nextTokenId = 1;
+
+    constructor() ERC721("BlindBid Mock", "BBMOCK") {}
+
+    /// @notice Mint the next token id to `to`.
+    /// @return tokenId Newly minted token identifier.
+    function mint(address to) external returns (uint256 tokenId) {
+        tokenId = _nextTokenId++;
+        _mint(to, tokenId);
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * E2E Test: Curator Console
+ * Tests the curator dashboard at /me/lots
+ */
+
+import { test, expect } from '@playwright/test';
+
+test.describe('Curator Console', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/me/lots');
+  });
+
+  test('should load curator console', async ({ page }) => {
+    await expect(page).toHaveURL('/me/lots');
+    await expect(page.locator('h1')).toContainText(/my lots/i);
+  });
+
+  test('should ask for a wallet when not connected', async ({ page }) => {
+    await expect(page.locator('text=/connect your wallet/i')).toBeVisible();
+  });
+
+  test('should highlight My Lots in the navigation', async ({ page }) => {
+    const navLink = page.getByRole('navigation', { name: 'Main navigation' }).getByRole('link', { name: /my lots/i });
+    await expect(navLink).toHaveClass(/text-primary/);
+  });
+});
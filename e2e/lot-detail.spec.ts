@@ -0,0 +1,30 @@
+/**
+ * E2E Test: Lot Detail Page
+ * Tests the shareable /auctions/:lotId deep link
+ */
+
+import { test, expect } from '@playwright/test';
+
+test.describe('Lot Detail Page', () => {
+  test('should render not-found state for a malformed lot id', async ({ page }) => {
+    await page.goto('/auctions/not-a-lot');
+
+    await expect(page.locator('h1')).toContainText(/lot not found/i);
+    await expect(page.getByRole('link', { name: /back to auctions/i })).toBeVisible();
+  });
+
+  test('should navigate back to the auction grid', async ({ page }) => {
+    await page.goto('/auctions/not-a-lot');
+
+    await page.getByRole('link', { name: /back to auctions/i }).click();
+    await expect(page).toHaveURL('/auctions');
+  });
+
+  test('should keep the header navigation on deep links', async ({ page }) => {
+    await page.goto('/auctions/1');
+
+    const header = page.locator('header');
+    await expect(header).toBeVisible();
+    await expect(header.getByRole('link', { name: /auctions/i }).first()).toBeVisible();
+  });
+});
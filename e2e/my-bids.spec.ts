@@ -0,0 +1,26 @@
+/**
+ * E2E Test: My Bids Page
+ * Tests the bidder dashboard at /me/bids
+ */
+
+import { test, expect } from '@playwright/test';
+
+test.describe('My Bids Page', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/me/bids');
+  });
+
+  test('should load my bids page', async ({ page }) => {
+    await expect(page).toHaveURL('/me/bids');
+    await expect(page.locator('h1')).toContainText(/my bids/i);
+  });
+
+  test('should ask for a wallet when not connected', async ({ page }) => {
+    await expect(page.locator('text=/connect your wallet/i')).toBeVisible();
+  });
+
+  test('should highlight My Bids in the navigation', async ({ page }) => {
+    const navLink = page.getByRole('navigation', { name: 'Main navigation' }).getByRole('link', { name: /my bids/i });
+    await expect(navLink).toHaveClass(/text-primary/);
+  });
+});
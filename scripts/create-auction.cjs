@@ -1,4 +1,6 @@
 require("dotenv").config();
+const fs = require("fs");
+const path = require("path");
 const hre = require("hardhat");
 const { ethers } = require("ethers");
 
@@ -9,9 +11,76 @@ const { ethers } = require("ethers");
  *   node scripts/create-auction.cjs
  *
  * Or with custom parameters:
- *   METADATA_URI="ipfs://..." RESERVE_PRICE=1.5 DURATION_HOURS=24 node scripts/create-auction.cjs
+ *   METADATA_URI="ipfs://..." RESERVE_PRICE=1.5 DURATION_HOURS=24 DEPOSIT_CAP=2 node scripts/create-auction.cjs
+ *
+ * DEPOSIT_CAP (ETH) is the deposit each bid locks and the maximum bid; omit it to use the contract default.
+ * AUCTION_TYPE=second-price makes the winner pay the second-highest bid (default: first-price).
+ * AUCTION_TYPE=uniform-price with SUPPLY=N sells N editions to the top N bids at one price; its
+ * bundle may only hold ERC-1155 amounts divisible by N.
+ * SOFT_CLOSE_MINUTES=W with EXTENSION_MINUTES=E and MAX_EXTENSION_MINUTES=M extends the close by E
+ * minutes whenever a bid lands in its final W minutes, by at most M minutes in total (default: hard close).
+ * BUNDLE_FILE points to a JSON manifest of ERC-721 / ERC-1155 items to escrow together
+ * (see scripts/bundle.example.json). NFT_CONTRACT and TOKEN_ID are a shortcut for a single ERC-721.
+ * The script approves the auction for every item first if needed.
  */
 
+const TOKEN_STANDARDS = ["erc721", "erc1155"];
+const AUCTION_TYPES = ["first-price", "second-price", "uniform-price"];
+
+/**
+ * Read the lot's escrowed items from BUNDLE_FILE, or NFT_CONTRACT / TOKEN_ID for a single token.
+ */
+function loadBundle() {
+  if (process.env.BUNDLE_FILE) {
+    const manifest = JSON.parse(fs.readFileSync(path.resolve(process.env.BUNDLE_FILE), "utf8"));
+    const entries = Array.isArray(manifest) ? manifest : manifest.items;
+    if (!Array.isArray(entries)) {
+      throw new Error(`Bundle manifest ${process.env.BUNDLE_FILE} has no items array`);
+    }
+    return entries.map((entry, i) => {
+      const standard = TOKEN_STANDARDS.indexOf(String(entry.standard).toLowerCase().replace("-", ""));
+      if (standard === -1 || !hre.ethers.isAddress(entry.token)) {
+        throw new Error(`Invalid bundle item ${i}: expected { standard: "erc721" | "erc1155", token, tokenId, amount? }`);
+      }
+      return {
+        standard,
+        token: entry.token,
+        tokenId: BigInt(entry.tokenId),
+        amount: standard === 0 ? 1n : BigInt(entry.amount ?? 1),
+      };
+    });
+  }
+  if (process.env.NFT_CONTRACT) {
+    return [{ standard: 0, token: process.env.NFT_CONTRACT, tokenId: BigInt(process.env.TOKEN_ID || "0"), amount: 1n }];
+  }
+  return [];
+}
+
+/**
+ * Approve the auction for every item: per token for ERC-721, per collection for ERC-1155.
+ */
+async function approveBundle(items, curator, auctionAddress) {
+  const approvedCollections = new Set();
+  for (const item of items) {
+    const key = item.token.toLowerCase();
+    if (approvedCollections.has(key)) continue;
+
+    const collection = await hre.ethers.getContractAt(item.standard === 0 ? "IERC721" : "IERC1155", item.token, curator);
+    if (await collection.isApprovedForAll(curator.address, auctionAddress)) {
+      approvedCollections.add(key);
+      continue;
+    }
+    if (item.standard === 1) {
+      console.log(`🖼️  Approving auction for ERC-1155 ${item.token}...`);
+      await (await collection.setApprovalForAll(auctionAddress, true)).wait();
+      approvedCollections.add(key);
+    } else if ((await collection.getApproved(item.tokenId)).toLowerCase() !== auctionAddress.toLowerCase()) {
+      console.log(`🖼️  Approving auction for ERC-721 ${item.token} #${item.tokenId}...`);
+      await (await collection.approve(auctionAddress, item.tokenId)).wait();
+    }
+  }
+}
+
 async function main() {
   console.log("🎨 Creating new BlindBid auction...\n");
 
@@ -34,6 +103,19 @@ async function main() {
   const metadataURI = process.env.METADATA_URI || "ipfs://QmExample123/metadata.json";
   const reservePriceEth = process.env.RESERVE_PRICE || "0.1"; // 0.1 ETH default
   const durationHours = parseInt(process.env.DURATION_HOURS || "24"); // 24 hours default
+  const depositCap = process.env.DEPOSIT_CAP ? hre.ethers.parseEther(process.env.DEPOSIT_CAP) : 0n; // 0 = contract default
+  const items = loadBundle(); // empty = metadata-only lot
+  const auctionType = AUCTION_TYPES.indexOf(process.env.AUCTION_TYPE || "first-price");
+  if (auctionType === -1) {
+    throw new Error(`AUCTION_TYPE must be one of ${AUCTION_TYPES.join(", ")}`);
+  }
+  const supply = parseInt(process.env.SUPPLY || "1"); // units sold, uniform-price only
+  const softCloseMinutes = parseInt(process.env.SOFT_CLOSE_MINUTES || "0"); // 0 = hard close
+  const softClose = {
+    window: softCloseMinutes * 60,
+    extension: softCloseMinutes > 0 ? parseInt(process.env.EXTENSION_MINUTES || "5") * 60 : 0,
+    maxExtension: softCloseMinutes > 0 ? parseInt(process.env.MAX_EXTENSION_MINUTES || "60") * 60 : 0,
+  };
 
   // Calculate timestamps
   const now = Math.floor(Date.now() / 1000);
@@ -45,7 +127,24 @@ async function main() {
   console.log(`   Reserve Price: ${reservePriceEth} ETH`);
   console.log(`   Start Time: ${new Date(startTime * 1000).toLocaleString()}`);
   console.log(`   End Time: ${new Date(endTime * 1000).toLocaleString()}`);
-  console.log(`   Duration: ${durationHours} hours\n`);
+  console.log(`   Duration: ${durationHours} hours`);
+  console.log(`   Deposit Cap: ${depositCap > 0n ? `${hre.ethers.formatEther(depositCap)} ETH` : "contract default"}`);
+  console.log(`   Pricing: ${AUCTION_TYPES[auctionType]}`);
+  console.log(`   Supply: ${supply}`);
+  console.log(
+    `   Soft Close: ${
+      softClose.window > 0
+        ? `+${softClose.extension / 60} min for bids in the last ${softCloseMinutes} min, up to ${softClose.maxExtension / 60} min`
+        : "off"
+    }`,
+  );
+  console.log(`   Escrowed Items: ${items.length === 0 ? "none" : items.length}`);
+  items.forEach((item) =>
+    console.log(`     - ${TOKEN_STANDARDS[item.standard].toUpperCase()} ${item.token} #${item.tokenId} ×${item.amount}`),
+  );
+  console.log("");
+
+  await approveBundle(items, curator, contractAddress);
 
   // Encrypt reserve price using FHE SDK
   console.log("🔐 Encrypting reserve price with FHE SDK...");
@@ -86,7 +185,12 @@ async function main() {
       startTime,
       endTime,
       encryptedReserve,
-      reserveProof
+      reserveProof,
+      depositCap,
+      auctionType,
+      supply,
+      softClose,
+      items
     );
 
     console.log(`⏳ Transaction hash: ${tx.hash}`);
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+"use strict";
+
+const fs = require("fs");
+const path = require("path");
+const hre = require("hardhat");
+
+/**
+ * Deploy BlindBidAuction to a local Hardhat node running the fhEVM mock.
+ *
+ * Usage:
+ *   npx hardhat node
+ *   npx hardhat run scripts/deploy-local.cjs --network localhost
+ *
+ * The first signer deploys the contract and is registered as gateway operator so
+ * scripts/services/gateway-operator.ts can settle lots without extra setup.
+ * A MockERC721 (one token) and a MockERC1155 (ten editions of id 1) are deployed alongside
+ * it and minted to the deployer, ready to escrow through scripts/create-auction.cjs.
+ */
+async function main() {
+  const { ethers, network } = hre;
+  if (network.name !== "localhost" && network.name !== "hardhat") {
+    throw new Error(`deploy-local only targets the Hardhat network (got ${network.name})`);
+  }
+
+  const [deployer] = await ethers.getSigners();
+  console.log(`🚀 Deploying BlindBidAuction to ${network.name} as ${deployer.address}`);
+
+  const factory = await ethers.getContractFactory("BlindBidAuction", deployer);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+
+  const contractAddress = await contract.getAddress();
+  const deploymentReceipt = await contract.deploymentTransaction().wait();
+  await (await contract.updateGatewayOperator(deployer.address)).wait();
+
+  console.log(`✅ Deployed at ${contractAddress} (block ${deploymentReceipt.blockNumber})`);
+  console.log(`🔑 Gateway operator: ${deployer.address}`);
+
+  const nftFactory = await ethers.getContractFactory("MockERC721", deployer);
+  const mockNft = await nftFactory.deploy();
+  await mockNft.waitForDeployment();
+  const mockNftAddress = await mockNft.getAddress();
+  const mockTokenId = await mockNft.mint.staticCall(deployer.address);
+  await (await mockNft.mint(deployer.address)).wait();
+
+  console.log(`🖼️  MockERC721 at ${mockNftAddress} (token #${mockTokenId} minted to deployer)`);
+
+  const editionsFactory = await ethers.getContractFactory("MockERC1155", deployer);
+  const mockEditions = await editionsFactory.deploy();
+  await mockEditions.waitForDeployment();
+  const mockEditionsAddress = await mockEditions.getAddress();
+  await (await mockEditions.mint(deployer.address, 1n, 10n)).wait();
+
+  console.log(`🖼️  MockERC1155 at ${mockEditionsAddress} (10 editions of #1 minted to deployer)`);
+
+  const deploymentsDir = path.join(__dirname, "..", "deployments");
+  fs.mkdirSync(deploymentsDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(deploymentsDir, `BlindBidAuction-${network.name}.json`),
+    JSON.stringify(
+      {
+        address: contractAddress,
+        network: network.name,
+        blockNumber: deploymentReceipt.blockNumber,
+        deployedAt: new Date().toISOString(),
+        deployer: deployer.address,
+        gatewayOperator: deployer.address,
+        mockNft: mockNftAddress,
+        mockEditions: mockEditionsAddress,
+      },
+      null,
+      2,
+    ),
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Local deployment failed:", error);
+    process.exit(1);
+  });
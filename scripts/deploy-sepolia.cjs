@@ -27,7 +27,9 @@ async function main() {
   await contract.waitForDeployment();
 
   const contractAddress = await contract.getAddress();
-  console.log(`✅ BlindBidAuction deployed at: ${contractAddress}`);
+  const deploymentReceipt = await contract.deploymentTransaction().wait();
+  console.log(`✅ BlindBidAuction deployed at: ${contractAddress} (block ${deploymentReceipt.blockNumber})`);
+  console.log(`ℹ️  Set VITE_APP_DEPLOYMENT_BLOCK=${deploymentReceipt.blockNumber} so the frontend lot index starts there`);
 
   // Persist deployment metadata for future scripts.
   const deploymentsDir = path.join(__dirname, "..", "deployments");
@@ -35,6 +37,7 @@ async function main() {
   const deploymentRecord = {
     address: contractAddress,
     network: network.name,
+    blockNumber: deploymentReceipt.blockNumber,
     deployedAt: new Date().toISOString(),
     deployer: deployer.address,
   };
@@ -0,0 +1,348 @@
+import path from "path";
+import hre from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { NonceManager, ZeroAddress, type Contract, type Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { resolveDeployment } from "./lib/deployment";
+import { openJobQueue, type Job, type JobQueue } from "./lib/jobQueue";
+import { readLot } from "./lib/lotReader";
+
+/**
+ * Gateway operator service for BlindBid.
+ *
+ * Watches `RevealRequested`, decrypts each closed lot's reserve flag, winning index
+ * and clearing price through the ACL grants the contract gives the gateway operator,
+ * resolves the winning bidder from `BidSubmitted`, and calls `settleReveal`.
+ * Uniform-price lots decrypt their top-N slots instead and settle every slot at or
+ * above the reserve through `settleUniformReveal`.
+ * Lots without bids or below reserve are settled unsold.
+ *
+ * Jobs are persisted to a JSON queue so restarts never drop or double-settle a lot.
+ *
+ * Usage (local, fhEVM mock):
+ *   npx hardhat node
+ *   npx hardhat run scripts/deploy-local.cjs --network localhost
+ *   npx hardhat run scripts/services/gateway-operator.ts --network localhost
+ *
+ * Environment:
+ *   GATEWAY_CONTRACT_ADDRESS  Contract to watch (defaults to deployments/BlindBidAuction-<network>.json)
+ *   GATEWAY_PRIVATE_KEY       Operator key (defaults to the first configured signer)
+ *   GATEWAY_QUEUE_FILE        Job queue path (defaults to deployments/gateway-queue-<network>.json)
+ *   GATEWAY_FROM_BLOCK        First block to scan for a new queue (defaults to the deployment block)
+ *   GATEWAY_POLL_INTERVAL_MS  Delay between scans (default 5000)
+ *   GATEWAY_MAX_ATTEMPTS      Attempts per lot before it is marked failed (default 5)
+ *   GATEWAY_RETRY_DELAY_MS    Base retry delay, doubled per attempt (default 2000)
+ *   GATEWAY_CONFIRMATIONS     Confirmations to wait for each settlement (default 1)
+ *   GATEWAY_DRY_RUN=true      Decrypt and log settlements without sending transactions
+ *   GATEWAY_ONCE=true         Process the backlog once and exit
+ */
+
+export interface GatewayOperatorOptions {
+  contractAddress: string;
+  queueFile: string;
+  fromBlock: number;
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  confirmations: number;
+  dryRun: boolean;
+}
+
+export interface Winner {
+  winningIndex: number;
+  bidder: string;
+}
+
+export interface Settlement {
+  lotId: bigint;
+  winningIndex: number;
+  /**
+   * Clearing price each winner pays: their bid, the second-highest bid on second-price
+   * lots, or the (N+1)th bid on uniform-price lots
+   */
+  amount: bigint;
+  bidder: string;
+  reserveMet: boolean;
+  /** Every winner of a uniform-price lot, highest bid first; the first is also `bidder` */
+  winners?: Winner[];
+}
+
+const MAX_BLOCK_SPAN = 5_000;
+/** Index the contract stores in unfilled top-N slots */
+const EMPTY_SLOT = 0xffffffffn;
+
+const revertName = (error: unknown): string | undefined =>
+  (error as { revert?: { name?: string } })?.revert?.name;
+
+const errorMessage = (error: unknown) =>
+  revertName(error) ?? (error instanceof Error ? error.message : String(error));
+
+const isNonceError = (error: unknown) => /nonce/i.test(error instanceof Error ? error.message : String(error));
+
+/**
+ * Build a gateway operator bound to one contract and one signer.
+ */
+export async function createGatewayOperator(
+  runtime: HardhatRuntimeEnvironment,
+  signer: Signer,
+  options: GatewayOperatorOptions,
+) {
+  const nonceManager = new NonceManager(signer);
+  const operatorAddress = await signer.getAddress();
+  const contract = (await runtime.ethers.getContractAt("BlindBidAuction", options.contractAddress)) as unknown as Contract;
+  const queue: JobQueue = openJobQueue(options.queueFile, options.fromBlock, !options.dryRun);
+
+  const log = (message: string) => console.log(`[Gateway]${options.dryRun ? " [dry-run]" : ""} ${message}`);
+
+  /**
+   * Enqueue every `RevealRequested` emitted since the last scan.
+   */
+  async function scan(): Promise<number> {
+    const latest = await runtime.ethers.provider.getBlockNumber();
+    let added = 0;
+
+    for (let from = queue.lastBlock + 1; from <= latest; from += MAX_BLOCK_SPAN) {
+      const to = Math.min(from + MAX_BLOCK_SPAN - 1, latest);
+      const events = await contract.queryFilter(contract.filters.RevealRequested(), from, to);
+      for (const event of events) {
+        const [lotId] = (event as unknown as { args: [bigint, string] }).args;
+        if (queue.enqueue(lotId.toString(), event.blockNumber)) {
+          log(`Queued reveal for lot #${lotId} (block ${event.blockNumber})`);
+          added++;
+        }
+      }
+      queue.setLastBlock(to);
+    }
+
+    return added;
+  }
+
+  /**
+   * Decrypt the winning index and clearing price of a closed lot and resolve the winning bidder.
+   * Unsold lots resolve to a settlement with `reserveMet` false and no bidder.
+   */
+  async function resolveSettlement(lotId: bigint): Promise<Settlement> {
+    const unsold: Settlement = { lotId, winningIndex: 0, amount: 0n, bidder: ZeroAddress, reserveMet: false };
+
+    const lot = await readLot(contract, lotId);
+    if (lot.activeBidCount === 0) {
+      return unsold;
+    }
+
+    const reserveMet = await runtime.fhevm.userDecryptEbool(lot.encryptedReserveMet, options.contractAddress, signer);
+    if (!reserveMet) {
+      return unsold;
+    }
+
+    const amount = await runtime.fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      lot.encryptedClearingPrice,
+      options.contractAddress,
+      signer,
+    );
+
+    if (lot.auctionType === "uniform-price") {
+      const winners = await resolveUniformWinners(lotId, lot.encryptedReserve);
+      return { lotId, ...winners[0], amount, reserveMet, winners };
+    }
+
+    const winningIndex = await runtime.fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      lot.encryptedWinningIndex,
+      options.contractAddress,
+      signer,
+    );
+    const bidder = await bidderAt(lotId, winningIndex);
+
+    return { lotId, winningIndex: Number(winningIndex), amount, bidder, reserveMet };
+  }
+
+  /**
+   * Decrypt the top-N slots of a uniform-price lot and keep the filled ones at or above the reserve.
+   * Slots are sorted, so the first one below the reserve ends the winning set.
+   */
+  async function resolveUniformWinners(lotId: bigint, encryptedReserve: string): Promise<Winner[]> {
+    const reserve = await runtime.fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      encryptedReserve,
+      options.contractAddress,
+      signer,
+    );
+    const [bids, indices] = (await contract.getTopBidHandles(lotId)) as [string[], string[]];
+
+    const winners: Winner[] = [];
+    for (let slot = 0; slot < bids.length; slot++) {
+      const index = await runtime.fhevm.userDecryptEuint(FhevmType.euint32, indices[slot], options.contractAddress, signer);
+      const bid = await runtime.fhevm.userDecryptEuint(FhevmType.euint64, bids[slot], options.contractAddress, signer);
+      if (index === EMPTY_SLOT || bid < reserve) {
+        break;
+      }
+      winners.push({ winningIndex: Number(index), bidder: await bidderAt(lotId, index) });
+    }
+    return winners;
+  }
+
+  async function bidderAt(lotId: bigint, index: bigint): Promise<string> {
+    const submissions = await contract.queryFilter(contract.filters.BidSubmitted(lotId, null, index), options.fromBlock);
+    if (submissions.length === 0) {
+      throw new Error(`No BidSubmitted event for lot #${lotId} index ${index}`);
+    }
+    const [, bidder] = (submissions[0] as unknown as { args: [bigint, string] }).args;
+    return bidder;
+  }
+
+  async function processJob(job: Job) {
+    const lotId = BigInt(job.lotId);
+
+    const lot = await readLot(contract, lotId);
+    if (lot.settled) {
+      queue.update(job.lotId, { status: "settled" });
+      log(`Lot #${lotId} is already settled`);
+      return;
+    }
+
+    const settlement = await resolveSettlement(lotId);
+    if (settlement.winners) {
+      log(
+        `Lot #${lotId}: ${settlement.winners.length} winner(s) ${settlement.winners.map((winner) => winner.bidder).join(", ")} at ${runtime.ethers.formatEther(settlement.amount)} ETH each`,
+      );
+    } else if (settlement.reserveMet) {
+      log(
+        `Lot #${lotId}: winner ${settlement.bidder} at index ${settlement.winningIndex} for ${runtime.ethers.formatEther(settlement.amount)} ETH`,
+      );
+    } else {
+      log(`Lot #${lotId}: ${lot.activeBidCount === 0 ? "no bids" : "reserve not met"}, settling unsold`);
+    }
+    if (options.dryRun) {
+      return;
+    }
+
+    const connected = contract.connect(nonceManager) as Contract;
+    const uniform = lot.auctionType === "uniform-price";
+    const tx = uniform
+      ? await connected.settleUniformReveal(
+          settlement.lotId,
+          (settlement.winners ?? []).map((winner) => winner.winningIndex),
+          settlement.amount,
+        )
+      : await connected.settleReveal(
+          settlement.lotId,
+          settlement.winningIndex,
+          settlement.amount,
+          settlement.bidder,
+          settlement.reserveMet,
+        );
+    queue.update(job.lotId, { status: "submitted", txHash: tx.hash });
+    log(`Submitted ${uniform ? "settleUniformReveal" : "settleReveal"} for lot #${lotId}: ${tx.hash}`);
+
+    await tx.wait(options.confirmations);
+    queue.update(job.lotId, { status: "settled", lastError: undefined });
+    log(`✅ Lot #${lotId} settled`);
+  }
+
+  /**
+   * Work through every due job, scheduling retries with exponential backoff.
+   */
+  async function processDue() {
+    for (const job of queue.due()) {
+      try {
+        await processJob(job);
+      } catch (error) {
+        if (revertName(error) === "AlreadySettled") {
+          queue.update(job.lotId, { status: "settled" });
+          continue;
+        }
+        if (isNonceError(error)) {
+          nonceManager.reset();
+        }
+
+        const attempts = job.attempts + 1;
+        const failed = attempts >= options.maxAttempts;
+        queue.update(job.lotId, {
+          status: failed ? "failed" : "pending",
+          attempts,
+          nextAttemptAt: Date.now() + options.retryDelayMs * 2 ** (attempts - 1),
+          lastError: errorMessage(error),
+        });
+        console.error(
+          `[Gateway] ${failed ? "❌ Giving up on" : "⚠️  Retrying"} lot #${job.lotId} (attempt ${attempts}/${options.maxAttempts}): ${errorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Scan for new reveal requests and process everything that is due.
+   */
+  async function runOnce() {
+    await scan();
+    await processDue();
+    return queue.all();
+  }
+
+  /**
+   * Poll until the process is stopped.
+   */
+  async function start() {
+    const configured = await contract.gatewayOperator();
+    if (configured.toLowerCase() !== operatorAddress.toLowerCase()) {
+      const message = `Signer ${operatorAddress} is not the gateway operator (${configured})`;
+      if (!options.dryRun) {
+        throw new Error(message);
+      }
+      console.warn(`[Gateway] ⚠️  ${message}`);
+    }
+
+    log(`Watching ${options.contractAddress} as ${operatorAddress}`);
+    for (;;) {
+      await runOnce();
+      await new Promise((resolve) => setTimeout(resolve, options.pollIntervalMs));
+    }
+  }
+
+  return { scan, resolveSettlement, processDue, runOnce, start, queue };
+}
+
+async function main() {
+  const networkName = hre.network.name;
+  const deployment = resolveDeployment(networkName, "GATEWAY_CONTRACT_ADDRESS");
+
+  const options: GatewayOperatorOptions = {
+    contractAddress: deployment.address,
+    queueFile:
+      process.env.GATEWAY_QUEUE_FILE ||
+      path.join(__dirname, "..", "..", "deployments", `gateway-queue-${networkName}.json`),
+    fromBlock: Number(process.env.GATEWAY_FROM_BLOCK ?? deployment.blockNumber ?? 0),
+    pollIntervalMs: Number(process.env.GATEWAY_POLL_INTERVAL_MS || 5000),
+    maxAttempts: Number(process.env.GATEWAY_MAX_ATTEMPTS || 5),
+    retryDelayMs: Number(process.env.GATEWAY_RETRY_DELAY_MS || 2000),
+    confirmations: Number(process.env.GATEWAY_CONFIRMATIONS || 1),
+    dryRun: process.env.GATEWAY_DRY_RUN === "true",
+  };
+
+  await hre.fhevm.initializeCLIApi();
+
+  const signer: Signer = process.env.GATEWAY_PRIVATE_KEY
+    ? new hre.ethers.Wallet(process.env.GATEWAY_PRIVATE_KEY, hre.ethers.provider)
+    : (await hre.ethers.getSigners())[0];
+
+  const operator = await createGatewayOperator(hre, signer, options);
+
+  if (process.env.GATEWAY_ONCE === "true") {
+    const jobs = await operator.runOnce();
+    console.table(jobs.map(({ lotId, status, attempts, txHash, lastError }) => ({ lotId, status, attempts, txHash, lastError })));
+    return;
+  }
+
+  await operator.start();
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Gateway operator failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,162 @@
+import hre from "hardhat";
+import { NonceManager, ZeroAddress, type Contract, type Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { resolveDeployment } from "./lib/deployment";
+import { isExpired, readAllLots, type LotView } from "./lib/lotReader";
+
+/**
+ * Keeper service for BlindBid.
+ *
+ * Polls every lot through the shared lot reader and calls `closeLot` on the ones whose
+ * bidding window has passed without the curator closing them. After `endTime` the
+ * contract accepts the close from anyone and pays the closer `KEEPER_REWARD_BPS` of the
+ * proceeds once the gateway settles a sale, so bidders are never stuck behind an absent
+ * curator.
+ *
+ * Usage (local, fhEVM mock):
+ *   npx hardhat node
+ *   npx hardhat run scripts/deploy-local.cjs --network localhost
+ *   npx hardhat run scripts/services/keeper.ts --network localhost
+ *
+ * Environment:
+ *   KEEPER_CONTRACT_ADDRESS   Contract to watch (defaults to deployments/BlindBidAuction-<network>.json)
+ *   KEEPER_PRIVATE_KEY        Keeper key (defaults to the first configured signer)
+ *   KEEPER_POLL_INTERVAL_MS   Delay between scans (default 15000)
+ *   KEEPER_CONFIRMATIONS      Confirmations to wait for each close (default 1)
+ *   KEEPER_DRY_RUN=true       Log the lots that would be closed without sending transactions
+ *   KEEPER_ONCE=true          Close the current backlog once and exit
+ */
+
+export interface KeeperOptions {
+  contractAddress: string;
+  pollIntervalMs: number;
+  confirmations: number;
+  dryRun: boolean;
+}
+
+export type CloseStatus = "closed" | "skipped" | "failed";
+
+export interface CloseResult {
+  lotId: bigint;
+  status: CloseStatus;
+  txHash?: string;
+  error?: string;
+}
+
+const revertName = (error: unknown): string | undefined =>
+  (error as { revert?: { name?: string } })?.revert?.name;
+
+const errorMessage = (error: unknown) =>
+  revertName(error) ?? (error instanceof Error ? error.message : String(error));
+
+const isNonceError = (error: unknown) => /nonce/i.test(error instanceof Error ? error.message : String(error));
+
+/**
+ * Build a keeper bound to one contract and one signer.
+ */
+export async function createKeeper(runtime: HardhatRuntimeEnvironment, signer: Signer, options: KeeperOptions) {
+  const nonceManager = new NonceManager(signer);
+  const keeperAddress = await signer.getAddress();
+  const contract = (await runtime.ethers.getContractAt("BlindBidAuction", options.contractAddress)) as unknown as Contract;
+
+  const log = (message: string) => console.log(`[Keeper]${options.dryRun ? " [dry-run]" : ""} ${message}`);
+
+  /**
+   * Lots past their end time that are still open, judged by the latest block's timestamp.
+   */
+  async function findExpired(): Promise<LotView[]> {
+    const latest = await runtime.ethers.provider.getBlock("latest");
+    const now = Number(latest?.timestamp ?? Math.floor(Date.now() / 1000));
+    return (await readAllLots(contract)).filter((lot) => isExpired(lot, now));
+  }
+
+  async function closeLot(lot: LotView): Promise<CloseResult> {
+    log(`Lot #${lot.id} ended at ${new Date(lot.endTime * 1000).toISOString()} with ${lot.activeBidCount} bid(s)`);
+    if (options.dryRun) {
+      return { lotId: lot.id, status: "skipped" };
+    }
+
+    try {
+      const tx = await (contract.connect(nonceManager) as Contract).closeLot(lot.id);
+      log(`Submitted closeLot for lot #${lot.id}: ${tx.hash}`);
+      await tx.wait(options.confirmations);
+      log(`✅ Lot #${lot.id} closed, reveal requested`);
+      return { lotId: lot.id, status: "closed", txHash: tx.hash };
+    } catch (error) {
+      // Someone else (the curator or another keeper) got there first
+      if (revertName(error) === "AuctionClosed") {
+        return { lotId: lot.id, status: "skipped" };
+      }
+      if (isNonceError(error)) {
+        nonceManager.reset();
+      }
+      console.error(`[Keeper] ⚠️  Failed to close lot #${lot.id}: ${errorMessage(error)}`);
+      return { lotId: lot.id, status: "failed", error: errorMessage(error) };
+    }
+  }
+
+  /**
+   * Close every expired lot once. Nothing is sent while no gateway operator is configured,
+   * since `closeLot` would revert with `GatewayNotConfigured`.
+   */
+  async function runOnce(): Promise<CloseResult[]> {
+    if ((await contract.gatewayOperator()) === ZeroAddress) {
+      console.warn("[Keeper] ⚠️  No gateway operator configured; lots cannot be closed yet");
+      return [];
+    }
+
+    const results: CloseResult[] = [];
+    for (const lot of await findExpired()) {
+      results.push(await closeLot(lot));
+    }
+    return results;
+  }
+
+  /**
+   * Poll until the process is stopped.
+   */
+  async function start() {
+    log(`Watching ${options.contractAddress} as ${keeperAddress}`);
+    for (;;) {
+      await runOnce();
+      await new Promise((resolve) => setTimeout(resolve, options.pollIntervalMs));
+    }
+  }
+
+  return { findExpired, runOnce, start };
+}
+
+async function main() {
+  const deployment = resolveDeployment(hre.network.name, "KEEPER_CONTRACT_ADDRESS");
+
+  const options: KeeperOptions = {
+    contractAddress: deployment.address,
+    pollIntervalMs: Number(process.env.KEEPER_POLL_INTERVAL_MS || 15000),
+    confirmations: Number(process.env.KEEPER_CONFIRMATIONS || 1),
+    dryRun: process.env.KEEPER_DRY_RUN === "true",
+  };
+
+  const signer: Signer = process.env.KEEPER_PRIVATE_KEY
+    ? new hre.ethers.Wallet(process.env.KEEPER_PRIVATE_KEY, hre.ethers.provider)
+    : (await hre.ethers.getSigners())[0];
+
+  const keeper = await createKeeper(hre, signer, options);
+
+  if (process.env.KEEPER_ONCE === "true") {
+    const results = await keeper.runOnce();
+    console.table(results.map(({ lotId, status, txHash, error }) => ({ lotId: lotId.toString(), status, txHash, error })));
+    return;
+  }
+
+  await keeper.start();
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Keeper failed:", error);
+      process.exit(1);
+    });
+}
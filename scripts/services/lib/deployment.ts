@@ -0,0 +1,25 @@
+import fs from "fs";
+import path from "path";
+
+export interface Deployment {
+  address: string;
+  /** Block the contract was deployed in, when the deployment record has it */
+  blockNumber?: number;
+}
+
+/**
+ * Resolve the BlindBidAuction address a service should use: the `envVar` override, or
+ * the record `deploy-local.cjs` / `deploy-sepolia.cjs` wrote for the network.
+ */
+export function resolveDeployment(networkName: string, envVar: string): Deployment {
+  const override = process.env[envVar];
+  if (override) {
+    return { address: override, blockNumber: undefined };
+  }
+  const deploymentPath = path.join(__dirname, "..", "..", "..", "deployments", `BlindBidAuction-${networkName}.json`);
+  if (fs.existsSync(deploymentPath)) {
+    const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+    return { address: deployment.address as string, blockNumber: deployment.blockNumber as number | undefined };
+  }
+  throw new Error(`No contract address: set ${envVar} or deploy to ${networkName} first.`);
+}
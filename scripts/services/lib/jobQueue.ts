@@ -0,0 +1,116 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * File-backed job queue shared by the off-chain services.
+ *
+ * State is written atomically (temp file + rename) after every change so a
+ * crashed or restarted service resumes exactly where it stopped.
+ */
+
+export type JobStatus = "pending" | "submitted" | "settled" | "failed";
+
+export interface Job {
+  lotId: string;
+  /** Block of the event that created the job */
+  blockNumber: number;
+  status: JobStatus;
+  attempts: number;
+  /** Epoch milliseconds before which the job is not retried */
+  nextAttemptAt: number;
+  txHash?: string;
+  lastError?: string;
+  updatedAt: string;
+}
+
+interface PersistedQueue {
+  version: 1;
+  /** Last block whose events have been enqueued */
+  lastBlock: number;
+  jobs: Record<string, Job>;
+}
+
+export interface JobQueue {
+  readonly lastBlock: number;
+  setLastBlock(block: number): void;
+  /** Add a job unless one already exists for the lot. Returns true when added. */
+  enqueue(lotId: string, blockNumber: number): boolean;
+  update(lotId: string, patch: Partial<Omit<Job, "lotId">>): Job;
+  /** Pending jobs whose retry delay has elapsed, oldest first */
+  due(now?: number): Job[];
+  all(): Job[];
+}
+
+const QUEUE_VERSION = 1;
+
+function readQueue(filePath: string, fromBlock: number): PersistedQueue {
+  if (fs.existsSync(filePath)) {
+    const persisted = JSON.parse(fs.readFileSync(filePath, "utf8")) as PersistedQueue;
+    if (persisted.version === QUEUE_VERSION) {
+      return persisted;
+    }
+    console.warn(`⚠️  Ignoring job queue with unsupported version ${persisted.version}: ${filePath}`);
+  }
+  return { version: QUEUE_VERSION, lastBlock: fromBlock - 1, jobs: {} };
+}
+
+/**
+ * Open (or create) a job queue at `filePath`.
+ *
+ * @param filePath - JSON file holding the queue
+ * @param fromBlock - First block to scan when the queue is new
+ * @param persist - Set to false to keep changes in memory only (dry runs)
+ */
+export function openJobQueue(filePath: string, fromBlock: number, persist = true): JobQueue {
+  const state = readQueue(filePath, fromBlock);
+
+  const save = () => {
+    if (!persist) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  return {
+    get lastBlock() {
+      return state.lastBlock;
+    },
+    setLastBlock(block) {
+      state.lastBlock = block;
+      save();
+    },
+    enqueue(lotId, blockNumber) {
+      if (state.jobs[lotId]) {
+        return false;
+      }
+      state.jobs[lotId] = {
+        lotId,
+        blockNumber,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: 0,
+        updatedAt: new Date().toISOString(),
+      };
+      save();
+      return true;
+    },
+    update(lotId, patch) {
+      const job = state.jobs[lotId];
+      if (!job) {
+        throw new Error(`Unknown job for lot ${lotId}`);
+      }
+      Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+      save();
+      return job;
+    },
+    due(now = Date.now()) {
+      return Object.values(state.jobs)
+        .filter((job) => (job.status === "pending" || job.status === "submitted") && job.nextAttemptAt <= now)
+        .sort((a, b) => a.blockNumber - b.blockNumber);
+    },
+    all() {
+      return Object.values(state.jobs);
+    },
+  };
+}
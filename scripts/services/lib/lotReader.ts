@@ -0,0 +1,94 @@
+import type { Contract } from "ethers";
+
+/**
+ * Typed `getLot` reads shared by the off-chain services.
+ *
+ * Mirrors the frontend's lot model (`src/lib/lots.ts`) closely enough that the
+ * services and the marketplace agree on a lot's status, but reads lots straight from
+ * the contract instead of the browser's event index.
+ */
+
+export const AUCTION_TYPES = ["first-price", "second-price", "uniform-price"] as const;
+
+export type AuctionType = (typeof AUCTION_TYPES)[number];
+
+export type LotStatus = "active" | "ended" | "upcoming" | "cancelled";
+
+export interface LotView {
+  id: bigint;
+  curator: string;
+  startTime: number;
+  endTime: number;
+  closed: boolean;
+  revealRequested: boolean;
+  settled: boolean;
+  cancelled: boolean;
+  bidCount: number;
+  activeBidCount: number;
+  auctionType: AuctionType;
+  supply: number;
+  encryptedReserve: string;
+  encryptedWinningIndex: string;
+  encryptedReserveMet: string;
+  encryptedClearingPrice: string;
+  /** Address that closed the lot after `endTime` in the curator's place, or the zero address */
+  keeper: string;
+}
+
+const READ_BATCH_SIZE = 10;
+
+/**
+ * Read one lot. Reverts with `LotNotFound` for unknown ids.
+ */
+export async function readLot(contract: Contract, lotId: bigint): Promise<LotView> {
+  const lot = await contract.getLot(lotId);
+  return {
+    id: lotId,
+    curator: lot.curator,
+    startTime: Number(lot.startTime),
+    endTime: Number(lot.endTime),
+    closed: lot.closed,
+    revealRequested: lot.revealRequested,
+    settled: lot.settled,
+    cancelled: lot.cancelled,
+    bidCount: Number(lot.bidCount),
+    activeBidCount: Number(lot.activeBidCount),
+    auctionType: AUCTION_TYPES[Number(lot.auctionType)],
+    supply: Number(lot.supply),
+    encryptedReserve: lot.encryptedReserve,
+    encryptedWinningIndex: lot.encryptedWinningIndex,
+    encryptedReserveMet: lot.encryptedReserveMet,
+    encryptedClearingPrice: lot.encryptedClearingPrice,
+    keeper: lot.keeper,
+  };
+}
+
+/**
+ * Read every lot the contract has created, oldest first.
+ */
+export async function readAllLots(contract: Contract): Promise<LotView[]> {
+  const lotIds = (await contract.getAllLotIds()) as bigint[];
+  const lots: LotView[] = [];
+  for (let offset = 0; offset < lotIds.length; offset += READ_BATCH_SIZE) {
+    const batch = lotIds.slice(offset, offset + READ_BATCH_SIZE);
+    lots.push(...(await Promise.all(batch.map((lotId) => readLot(contract, lotId)))));
+  }
+  return lots;
+}
+
+/**
+ * Bidding status of a lot at `now` (UNIX seconds), matching the frontend's `deriveStatus`.
+ * Pass the latest block timestamp rather than the wall clock so local chains with
+ * shifted time agree with the contract.
+ */
+export const lotStatus = (lot: LotView, now: number): LotStatus => {
+  if (lot.cancelled) return "cancelled";
+  if (lot.closed || lot.endTime <= now) return "ended";
+  if (lot.startTime > now) return "upcoming";
+  return "active";
+};
+
+/**
+ * Lots whose window has passed but that nobody has closed yet; `closeLot` accepts them from any caller.
+ */
+export const isExpired = (lot: LotView, now: number) => !lot.closed && lot.endTime < now;
@@ -7,7 +7,8 @@
  * Provider Hierarchy (order matters!):
  * 1. Web3Provider - Wallet connection (must be first)
  * 2. QueryClientProvider - React Query for data fetching
- * 3. TooltipProvider - UI tooltips
+ * 3. FheProvider - Shared FHE client state
+ * 4. TooltipProvider - UI tooltips
  *
  * Key Features:
  * - Wagmi wallet integration (MetaMask, WalletConnect)
@@ -17,7 +18,6 @@
  * - FHE initialization status banner
  */
 
-import { useEffect, useState } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -25,9 +25,12 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Landing from "./pages/Landing";
 import Auction from "./pages/Auction";
+import LotDetail from "./pages/LotDetail";
+import MyBids from "./pages/MyBids";
+import CuratorConsole from "./pages/CuratorConsole";
 import NotFound from "./pages/NotFound";
 import { Web3Provider } from "@/providers/Web3Provider";
-import { ensureFheInstance, getFheState, onFheStateChange, type FheInitState } from "@/lib/fhe";
+import { FheProvider, useFheContext } from "@/providers/FheProvider";
 
 /**
  * React Query client configuration
@@ -50,17 +53,12 @@ const queryClient = new QueryClient({
  * or if there are any initialization errors.
  *
  * States:
- * - Loading: Shows "Initializing FHE SDK..."
+ * - Loading: Shows the current initialization step reported by the FHE worker
  * - Error: Shows error message in red
  * - Ready: Banner hidden
  */
 const FheStatusBanner = () => {
-  const [fheState, setFheState] = useState<FheInitState>(getFheState());
-
-  useEffect(() => {
-    const unsubscribe = onFheStateChange(setFheState);
-    return unsubscribe;
-  }, []);
+  const { state: fheState } = useFheContext();
 
   // Show error banner if initialization failed
   if (fheState.status === 'error') {
@@ -77,7 +75,7 @@ const FheStatusBanner = () => {
       <div className="bg-secondary border-b border-border/50 text-muted-foreground px-4 py-2 text-sm text-center">
         <span className="inline-flex items-center gap-2">
           <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-          Initializing FHE SDK (Zama CDN)...
+          {fheState.progress ? `${fheState.progress.message}…` : 'Initializing FHE SDK…'}
         </span>
       </div>
     );
@@ -87,24 +85,6 @@ const FheStatusBanner = () => {
   return null;
 };
 
-/**
- * FheInitializer Component
- *
- * Initializes the FHE SDK when the app starts.
- * This component triggers FHE initialization on mount.
- */
-const FheInitializer = () => {
-  useEffect(() => {
-    // Start FHE initialization when app mounts
-    console.log('[App] Triggering FHE initialization...');
-    ensureFheInstance().catch((error) => {
-      console.error('[App] FHE initialization failed:', error);
-    });
-  }, []);
-
-  return null;
-};
-
 /**
  * AppShell Component
  *
@@ -113,14 +93,14 @@ const FheInitializer = () => {
  *
  * Routes:
  * - / : Landing page
- * - /app : Auction marketplace
+ * - /auctions : Auction marketplace
+ * - /auctions/:lotId : Lot detail (shareable deep link)
+ * - /me/bids : Connected wallet's bid history
+ * - /me/lots : Curator console for the connected wallet's lots
  * - * : 404 Not Found page
  */
 const AppShell = () => (
   <BrowserRouter>
-    {/* Initialize FHE SDK on app start */}
-    <FheInitializer />
-
     {/* FHE initialization status banner */}
     <FheStatusBanner />
 
@@ -128,6 +108,9 @@ const AppShell = () => (
     <Routes>
       <Route path="/" element={<Landing />} />
       <Route path="/auctions" element={<Auction />} />
+      <Route path="/auctions/:lotId" element={<LotDetail />} />
+      <Route path="/me/bids" element={<MyBids />} />
+      <Route path="/me/lots" element={<CuratorConsole />} />
       {/* Catch-all route for 404 - must be last */}
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -142,23 +125,25 @@ const AppShell = () => (
  * Provider Stack:
  * 1. Web3Provider: Wallet connection and network management
  * 2. QueryClientProvider: Server state management
- * 3. TooltipProvider: UI tooltip functionality
- * 4. Toasters: Toast notification systems
+ * 3. FheProvider: Pre-warms the shared FHE client and exposes its state
+ * 4. TooltipProvider: UI tooltip functionality
+ * 5. Toasters: Toast notification systems
  *
- * FHE SDK is loaded via CDN (see index.html) and initialized on app mount.
- * This ensures proper initialization of window.relayerSDK before use.
+ * FheProvider starts the FHE worker once a wallet connects on the app chain.
  */
 const App = () => (
   <Web3Provider>
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        {/* Toast notification systems */}
-        <Toaster />
-        <Sonner />
+      <FheProvider>
+        <TooltipProvider>
+          {/* Toast notification systems */}
+          <Toaster />
+          <Sonner />
 
-        {/* Main application shell */}
-        <AppShell />
-      </TooltipProvider>
+          {/* Main application shell */}
+          <AppShell />
+        </TooltipProvider>
+      </FheProvider>
     </QueryClientProvider>
   </Web3Provider>
 );
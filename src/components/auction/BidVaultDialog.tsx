@@ -0,0 +1,215 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatEther } from "viem";
+import { toast } from "sonner";
+import { Copy, Download, KeyRound, Loader2, Lock, Unlock, Upload, Vault } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useBidVault } from "@/hooks/useBidVault";
+import { exportBidVault, importBidVault } from "@/lib/bidVault";
+import { lotPath, truncateHex } from "@/lib/lots";
+
+const copySalt = async (salt: string) => {
+  try {
+    await navigator.clipboard.writeText(salt);
+    toast.success("Salt copied");
+  } catch {
+    toast.error("Unable to copy salt");
+  }
+};
+
+/**
+ * BidVaultDialog Component
+ *
+ * Lets a bidder unlock their encrypted bid receipts with a wallet signature,
+ * review stored salts and amounts, and move them between browsers through a
+ * password-protected export file.
+ */
+export function BidVaultDialog() {
+  const { address, state, receipts, unlock, lock } = useBidVault();
+  const [open, setOpen] = useState(false);
+  const [exportPassword, setExportPassword] = useState("");
+  const [importPassword, setImportPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleUnlock = async () => {
+    try {
+      await unlock();
+    } catch (error) {
+      console.error("[BidVault] Unlock failed:", error);
+      toast.error(error instanceof Error ? error.message : "Unable to unlock the bid vault");
+    }
+  };
+
+  const handleExport = async () => {
+    if (!address) return;
+    try {
+      setBusy(true);
+      const exported = await exportBidVault(address, exportPassword);
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = `blindbid-bids-${address.slice(0, 8).toLowerCase()}.json`;
+      anchor.click();
+      URL.revokeObjectURL(url);
+      setExportPassword("");
+      toast.success("Bid vault exported");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const file = fileInput.current?.files?.[0];
+    if (!address || !file) {
+      toast.error("Choose a vault export file first.");
+      return;
+    }
+    try {
+      setBusy(true);
+      const imported = await importBidVault(address, await file.text(), importPassword);
+      setImportPassword("");
+      if (fileInput.current) fileInput.current.value = "";
+      toast.success(`Imported ${imported} bid receipt${imported === 1 ? "" : "s"}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={!address}>
+          <Vault className="w-4 h-4" />
+          Bid Vault
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Bid Receipt Vault</DialogTitle>
+          <DialogDescription>
+            Salts and plaintext bids are encrypted in this browser with a key derived from your wallet signature.
+          </DialogDescription>
+        </DialogHeader>
+
+        {state.status !== "unlocked" ? (
+          <div className="py-8 text-center space-y-4">
+            <Lock className="w-12 h-12 text-muted-foreground mx-auto" />
+            <p className="text-sm text-muted-foreground">
+              Sign a message with your wallet to open the vault. No transaction is sent.
+            </p>
+            <Button onClick={handleUnlock} disabled={state.status === "unlocking"} className="gap-2">
+              {state.status === "unlocking" ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Unlock className="w-4 h-4" />
+              )}
+              Unlock with wallet
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {receipts.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No bid receipts stored yet.</p>
+              ) : (
+                receipts.map((receipt) => (
+                  <div
+                    key={`${receipt.contractAddress}-${receipt.lotId}-${receipt.saltHash}`}
+                    className="p-3 rounded-lg bg-secondary border border-border text-sm space-y-1"
+                  >
+                    <div className="flex items-center justify-between">
+                      <Link to={lotPath(receipt.lotId)} className="font-semibold hover:text-primary" onClick={() => setOpen(false)}>
+                        Lot #{receipt.lotId}
+                      </Link>
+                      <span className="font-bold text-primary">{formatEther(BigInt(receipt.amount))} ETH</span>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <button
+                        type="button"
+                        className="font-mono inline-flex items-center gap-1 hover:text-primary"
+                        onClick={() => copySalt(receipt.salt)}
+                      >
+                        <KeyRound className="w-3 h-3" />
+                        {truncateHex(receipt.salt)}
+                        <Copy className="w-3 h-3" />
+                      </button>
+                      <span className="font-mono">
+                        {receipt.status === "pending" || receipt.status === "failed"
+                          ? receipt.status
+                          : `block ${receipt.blockNumber}`}
+                      </span>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vaultExportPassword">Export password</Label>
+                <Input
+                  id="vaultExportPassword"
+                  type="password"
+                  value={exportPassword}
+                  onChange={(event) => setExportPassword(event.target.value)}
+                  placeholder="At least 8 characters"
+                />
+                <Button
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={handleExport}
+                  disabled={busy || exportPassword.length < 8}
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vaultImportFile">Import file</Label>
+                <Input id="vaultImportFile" type="file" accept="application/json,.json" ref={fileInput} />
+                <Input
+                  type="password"
+                  value={importPassword}
+                  onChange={(event) => setImportPassword(event.target.value)}
+                  placeholder="Export password"
+                  aria-label="Import password"
+                />
+                <Button
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={handleImport}
+                  disabled={busy || !importPassword}
+                >
+                  <Upload className="w-4 h-4" />
+                  Import
+                </Button>
+              </div>
+            </div>
+
+            <Button variant="ghost" className="w-full gap-2" onClick={lock}>
+              <Lock className="w-4 h-4" />
+              Lock vault
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
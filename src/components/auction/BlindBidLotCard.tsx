@@ -1,10 +1,14 @@
-import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Clock, Lock, ShieldCheck, Tag } from "lucide-react";
+import { Link } from "react-router-dom";
+import { ArrowUpRight, Clock, Lock, ShieldCheck, Tag, Timer, XCircle } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
+import { LotItemsGallery } from "@/components/auction/LotItemsGallery";
+import { useLotMetadata } from "@/hooks/useLotMetadata";
+import { useNow } from "@/hooks/useNow";
+import { lotPath, truncateHex, type AuctionType, type LotItem, type LotStatus } from "@/lib/lots";
 
 interface BlindBidLotCardProps {
   lotId: bigint;
@@ -12,25 +16,28 @@ interface BlindBidLotCardProps {
   curator: string;
   endTime: number;
   totalBids: number;
-  status: "active" | "ended" | "upcoming";
+  status: LotStatus;
   encryptedReserve: `0x${string}`;
   image: string;
   metadataURI: string;
+  auctionType?: AuctionType;
+  /** Editions on offer; only shown for uniform-price lots */
+  supply?: number;
+  /** Late bids extend `endTime` */
+  softClose?: boolean;
+  /** Tokens escrowed by the lot */
+  items?: LotItem[];
+  /** Settled without a sale because the reserve was not met */
+  unsold?: boolean;
   onClick?: () => void;
   isSelected?: boolean;
 }
 
-interface NFTMetadata {
-  name?: string;
-  description?: string;
-  image?: string;
-  attributes?: Array<{ trait_type: string; value: string | number }>;
-}
+/** Below this many seconds the footer switches to a ticking mm:ss countdown */
+const COUNTDOWN_THRESHOLD = 60 * 60;
 
-const truncate = (value: string, visible = 6) =>
-  value.length <= visible * 2 + 2
-    ? value
-    : `${value.slice(0, visible + 2)}…${value.slice(-visible)}`;
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
 
 export default function BlindBidLotCard({
   lotId,
@@ -42,51 +49,33 @@ export default function BlindBidLotCard({
   encryptedReserve,
   image,
   metadataURI,
+  auctionType = "first-price",
+  supply = 1,
+  softClose = false,
+  items = [],
+  unsold = false,
   onClick,
   isSelected = false,
 }: BlindBidLotCardProps) {
-  const [metadata, setMetadata] = useState<NFTMetadata | null>(null);
-  const [loadingMetadata, setLoadingMetadata] = useState(false);
-
-  // Fetch NFT metadata
-  useEffect(() => {
-    if (!metadataURI || metadataURI.length < 10) return;
-
-    const fetchMetadata = async () => {
-      setLoadingMetadata(true);
-      try {
-        let url = metadataURI;
-        // Convert IPFS URLs to HTTP gateway
-        if (url.startsWith('ipfs://')) {
-          url = url.replace('ipfs://', 'https://ipfs.io/ipfs/');
-        }
-
-        const response = await fetch(url);
-        if (response.ok) {
-          const data = await response.json();
-          setMetadata(data);
-        }
-      } catch (error) {
-        console.error(`Failed to fetch metadata for lot ${lotId}:`, error);
-      } finally {
-        setLoadingMetadata(false);
-      }
-    };
-
-    fetchMetadata();
-  }, [metadataURI, lotId]);
+  const { data: metadata, isLoading: loadingMetadata } = useLotMetadata(metadataURI);
 
   const statusConfig = {
     active: { label: "Live", color: "bg-primary" },
     ended: { label: "Ended", color: "bg-muted" },
     upcoming: { label: "Upcoming", color: "bg-accent" },
+    cancelled: { label: "Cancelled", color: "bg-destructive" },
   } as const;
 
-  const endDate = new Date(endTime * 1000);
+  const now = useNow();
+  const secondsLeft = endTime - now;
+  // The parent derives status once per data change; flip live lots to ended as the clock runs out
+  const displayStatus: LotStatus = status === "active" && secondsLeft <= 0 ? "ended" : status;
   const endLabel =
-    endTime * 1000 > Date.now()
-      ? formatDistanceToNow(endDate, { addSuffix: true })
-      : "Closed";
+    secondsLeft <= 0
+      ? "Closed"
+      : secondsLeft < COUNTDOWN_THRESHOLD
+        ? `${formatCountdown(secondsLeft)} left`
+        : formatDistanceToNow(new Date(endTime * 1000), { addSuffix: true });
 
   const displayTitle = metadata?.name || title;
 
@@ -111,9 +100,16 @@ export default function BlindBidLotCard({
           />
 
           <div className="absolute top-4 left-4">
-            <Badge className={`${statusConfig[status].color} text-background border-0`}>{
-              statusConfig[status].label
-            }</Badge>
+            {unsold ? (
+              <Badge className="bg-destructive text-destructive-foreground border-0 gap-1">
+                <XCircle className="w-3 h-3" />
+                Reserve not met
+              </Badge>
+            ) : (
+              <Badge className={`${statusConfig[displayStatus].color} text-background border-0`}>{
+                statusConfig[displayStatus].label
+              }</Badge>
+            )}
           </div>
 
           <div className="absolute top-4 right-4 w-10 h-10 rounded-full glass-card flex items-center justify-center">
@@ -130,11 +126,51 @@ export default function BlindBidLotCard({
               <span className="text-xs font-mono text-muted-foreground">
                 #{lotId.toString().padStart(3, '0')}
               </span>
-              {metadata?.name && !loadingMetadata && (
-                <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary">
-                  NFT
-                </span>
-              )}
+              <div className="flex items-center gap-2">
+                {auctionType === "second-price" && (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded-full bg-accent/10 text-accent"
+                    title="Winner pays the second-highest bid"
+                  >
+                    2nd price
+                  </span>
+                )}
+                {auctionType === "uniform-price" && (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded-full bg-accent/10 text-accent"
+                    title="Top bids each win one edition at a single clearing price"
+                  >
+                    {supply} editions
+                  </span>
+                )}
+                {softClose && (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded-full bg-accent/10 text-accent flex items-center gap-1"
+                    title="Bids in the final minutes extend the closing time"
+                  >
+                    <Timer className="w-3 h-3" />
+                    Soft close
+                  </span>
+                )}
+                {items.length > 1 ? (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary">
+                    Bundle · {items.length}
+                  </span>
+                ) : (items.length === 1 || metadata?.name) && !loadingMetadata && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary">
+                    NFT
+                  </span>
+                )}
+                <Link
+                  to={lotPath(lotId)}
+                  onClick={(event) => event.stopPropagation()}
+                  className="text-xs text-muted-foreground hover:text-primary flex items-center gap-0.5"
+                  aria-label={`Open lot #${lotId.toString()}`}
+                >
+                  Details
+                  <ArrowUpRight className="w-3 h-3" />
+                </Link>
+              </div>
             </div>
             <h3 className="text-lg font-bold text-foreground line-clamp-1 mb-1">
               {loadingMetadata ? "Loading..." : displayTitle}
@@ -144,6 +180,11 @@ export default function BlindBidLotCard({
                 {metadata.description}
               </p>
             )}
+            {items.length > 0 && (
+              <div className="mt-3">
+                <LotItemsGallery items={items} variant="strip" />
+              </div>
+            )}
           </div>
 
           {/* Price & Stats Grid */}
@@ -174,12 +215,12 @@ export default function BlindBidLotCard({
           <div className="flex items-center justify-between text-xs">
             <div className="flex items-center gap-1.5 text-muted-foreground">
               <Clock className="w-3.5 h-3.5" />
-              <span className="font-medium">{endLabel}</span>
+              <span className="font-medium">{unsold ? "Unsold" : endLabel}</span>
             </div>
             <div className="flex items-center gap-1 text-muted-foreground">
               <span>by</span>
               <span className="font-mono font-medium text-foreground">
-                {truncate(curator, 4)}
+                {truncateHex(curator, 4)}
               </span>
             </div>
           </div>
@@ -1,10 +1,9 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import { useForm } from "react-hook-form";
-import { Lock, Send, Shield, Info, KeyRound } from "lucide-react";
+import { Lock, Send, Shield, Info, KeyRound, Wallet, RefreshCw } from "lucide-react";
 import { useAccount, useWalletClient, usePublicClient } from "wagmi";
-import { sepolia } from "wagmi/chains";
-import { parseEther, keccak256, toUtf8Bytes } from "ethers";
+import { parseEther, formatEther, keccak256, toUtf8Bytes } from "ethers";
 import { type Address } from "viem";
 import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
@@ -13,10 +12,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
-import blindBidAbi from "@/abi/BlindBidAuction.json";
-import { encryptBid, getFheState, onFheStateChange, type FheInitState } from "@/lib/fhe";
+import { blindBidAbi, writeContract } from "@/lib/contracts";
+import { encryptBid, getFheState, isFheAbortError, onFheStateChange, type FheInitState } from "@/lib/fhe";
+import { appChain } from "@/config/chain";
 import { appEnv } from "@/config/env";
 import type { LotSummary } from "@/hooks/useLots";
+import { useBidVault } from "@/hooks/useBidVault";
+import type { BidReceipt } from "@/lib/bidVault";
+import { useBidEnvelope } from "@/hooks/useBidEnvelope";
 
 interface BlindBidSubmissionFormProps {
   lots: LotSummary[];
@@ -27,6 +30,8 @@ interface BidFormValues {
   lotId: string;
   amount: string;
   salt: string;
+  /** Salt of the bid being replaced; only used in update mode */
+  previousSalt: string;
 }
 
 const generateSalt = () => {
@@ -42,6 +47,7 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
   const { data: walletClient } = useWalletClient();
   const publicClient = usePublicClient();
   const queryClient = useQueryClient();
+  const { saveReceipt, receipts } = useBidVault();
   const [switching, setSwitching] = useState(false);
 
   // Subscribe to FHE state changes
@@ -57,11 +63,33 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
     handleSubmit,
     setValue,
     reset,
+    watch,
     formState: { errors },
   } = useForm<BidFormValues>({
-    defaultValues: { lotId: defaultLotId, amount: "", salt: generateSalt() },
+    defaultValues: { lotId: defaultLotId, amount: "", salt: generateSalt(), previousSalt: "" },
   });
 
+  const watchedLotId = watch("lotId");
+  const selectedLot = useMemo(
+    () => lots.find((lot) => lot.id.toString() === watchedLotId),
+    [lots, watchedLotId],
+  );
+
+  // An existing envelope switches the form to replaceBid, which proves ownership with the previous salt
+  const { data: existingBid } = useBidEnvelope(selectedLot ? selectedLot.id : null);
+  const isUpdate = Boolean(existingBid);
+  const previousReceipt = useMemo(
+    () =>
+      existingBid
+        ? receipts.find((receipt) => receipt.saltHash.toLowerCase() === existingBid.saltHash.toLowerCase())
+        : undefined,
+    [existingBid, receipts],
+  );
+
+  useEffect(() => {
+    setValue("previousSalt", previousReceipt?.salt ?? "");
+  }, [previousReceipt, setValue]);
+
   useEffect(() => {
     if (defaultLotId) {
       setValue("lotId", defaultLotId);
@@ -76,13 +104,16 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
   }, [selectedLotId, setValue]);
 
   const [isEncrypting, setEncrypting] = useState(false);
+  const [encryptProgress, setEncryptProgress] = useState<string | null>(null);
   const [isSubmitting, setSubmitting] = useState(false);
+  const encryptAbortRef = useRef<AbortController | null>(null);
+
+  // Stop an in-flight encryption when the form goes away
+  useEffect(() => () => encryptAbortRef.current?.abort(), []);
+
+  const cancelEncryption = () => encryptAbortRef.current?.abort();
 
   const onSubmit = handleSubmit(async (values) => {
-    if (fheState.status !== 'ready') {
-      toast.error("FHE encryption not ready. Please wait...");
-      return;
-    }
 
     if (status !== "connected" || !address) {
       toast.error("Connect your wallet before submitting a bid.");
@@ -100,12 +131,27 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
       return;
     }
 
+    const lot = lots.find((candidate) => candidate.id.toString() === values.lotId);
+    if (!lot || lot.depositCap === 0n) {
+      toast.error("Unable to read the deposit required for this lot.");
+      return;
+    }
+    if (parseEther(values.amount) > lot.depositCap) {
+      toast.error(`Bids on this lot are capped at the ${formatEther(lot.depositCap)} ETH deposit.`);
+      return;
+    }
+    const previousSalt = values.previousSalt.trim();
+    if (existingBid && keccak256(toUtf8Bytes(previousSalt)) !== existingBid.saltHash) {
+      toast.error("The previous salt does not match your sealed bid.");
+      return;
+    }
+
     // Check if on correct network
-    if (chainId !== sepolia.id) {
-      console.log(`[BidSubmission] Current chain: ${chainId}, need Sepolia (${sepolia.id})`);
+    if (chainId !== appChain.id) {
+      console.log(`[BidSubmission] Current chain: ${chainId}, need ${appChain.name} (${appChain.id})`);
 
       try {
-        console.log("[BidSubmission] Requesting network switch to Sepolia...");
+        console.log(`[BidSubmission] Requesting network switch to ${appChain.name}...`);
         setSwitching(true);
         const toastId = toast.info("Please approve network switch in your wallet", { duration: Infinity });
 
@@ -113,11 +159,11 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
         if (walletClient?.account) {
           await walletClient.request({
             method: 'wallet_switchEthereumChain',
-            params: [{ chainId: `0x${sepolia.id.toString(16)}` }], // Convert to hex
+            params: [{ chainId: `0x${appChain.id.toString(16)}` }], // Convert to hex
           });
           console.log("[BidSubmission] Network switched successfully");
           toast.dismiss(toastId);
-          toast.success("Switched to Sepolia network");
+          toast.success(`Switched to ${appChain.name} network`);
 
           // Wait for wagmi to update chainId
           await new Promise(resolve => setTimeout(resolve, 500));
@@ -132,34 +178,30 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
         // Error code 4902 means the chain hasn't been added to MetaMask yet
         if (error.code === 4902) {
           try {
-            console.log("[BidSubmission] Adding Sepolia network to wallet...");
+            console.log(`[BidSubmission] Adding ${appChain.name} network to wallet...`);
             await walletClient?.request({
               method: 'wallet_addEthereumChain',
               params: [{
-                chainId: `0x${sepolia.id.toString(16)}`,
-                chainName: 'Sepolia',
-                nativeCurrency: {
-                  name: 'Sepolia ETH',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
-                rpcUrls: ['https://rpc.sepolia.org'],
-                blockExplorerUrls: ['https://sepolia.etherscan.io'],
+                chainId: `0x${appChain.id.toString(16)}`,
+                chainName: appChain.name,
+                nativeCurrency: appChain.nativeCurrency,
+                rpcUrls: [appEnv.rpcUrl],
+                blockExplorerUrls: appChain.blockExplorers ? [appChain.blockExplorers.default.url] : undefined,
               }],
             });
             console.log("[BidSubmission] Network added and switched");
-            toast.success("Switched to Sepolia network");
+            toast.success(`Switched to ${appChain.name} network`);
 
             // Wait for wagmi to update chainId
             await new Promise(resolve => setTimeout(resolve, 500));
           } catch (addError) {
             console.error("[BidSubmission] Failed to add network:", addError);
-            toast.error("Failed to add Sepolia network. Please add it manually.");
+            toast.error(`Failed to add ${appChain.name} network. Please add it manually.`);
             return;
           }
         } else if (error.code === 4001) {
           // User rejected the request
-          toast.error("Network switch cancelled. Please switch to Sepolia to continue.");
+          toast.error(`Network switch cancelled. Please switch to ${appChain.name} to continue.`);
           return;
         } else {
           toast.error(`Failed to switch network: ${error.message || 'Unknown error'}`);
@@ -169,14 +211,17 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
         setSwitching(false);
       }
     } else {
-      console.log("[BidSubmission] Already on Sepolia network");
+      console.log(`[BidSubmission] Already on ${appChain.name} network`);
     }
 
-    if (!walletClient) {
+    if (!walletClient || !publicClient) {
       toast.error("Unable to access the connected wallet.");
       return;
     }
 
+    const abortController = new AbortController();
+    encryptAbortRef.current = abortController;
+
     try {
       setEncrypting(true);
       setSubmitting(true);
@@ -184,52 +229,128 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
       const encrypted = await encryptBid(
         appEnv.contractAddress as Address,
         address as Address,
-        weiAmount
+        weiAmount,
+        { signal: abortController.signal, onProgress: (progress) => setEncryptProgress(progress.message) }
       );
+      encryptAbortRef.current = null;
+      setEncrypting(false);
       const salt = values.salt.trim() || generateSalt();
       const saltHash = keccak256(toUtf8Bytes(salt));
 
-      const hash = await walletClient.writeContract({
-        address: appEnv.contractAddress as Address,
-        abi: blindBidAbi,
-        functionName: "submitBid",
-        args: [BigInt(values.lotId), encrypted.ciphertext, encrypted.inputProof, saltHash],
-      });
+      // Save the salt before sending so it survives a closed tab or a lost receipt. Receipts are
+      // keyed by saltHash, so this never touches the receipt of the bid being replaced.
+      const pendingReceipt: BidReceipt = {
+        contractAddress: appEnv.contractAddress as string,
+        chainId: appChain.id,
+        lotId: values.lotId,
+        salt,
+        amount: weiAmount.toString(),
+        saltHash: saltHash as `0x${string}`,
+        status: "pending",
+        createdAt: Date.now(),
+      };
+      const updateReceipt = (update: Partial<BidReceipt>) =>
+        saveReceipt({ ...pendingReceipt, ...update }).catch((vaultError) =>
+          console.error("[BidSubmission] Failed to update bid receipt:", vaultError),
+        );
+      const pendingSaved = await saveReceipt(pendingReceipt).then(
+        () => true,
+        (vaultError) => {
+          console.error("[BidSubmission] Failed to save pending bid receipt:", vaultError);
+          return false;
+        },
+      );
+
+      let hash: `0x${string}`;
+      try {
+        // Replacing keeps the original deposit, so no value is sent
+        hash = existingBid
+          ? await writeContract(walletClient, {
+              address: appEnv.contractAddress as Address,
+              abi: blindBidAbi,
+              functionName: "replaceBid",
+              args: [BigInt(values.lotId), encrypted.ciphertext, encrypted.inputProof, previousSalt, saltHash],
+            })
+          : await writeContract(walletClient, {
+              address: appEnv.contractAddress as Address,
+              abi: blindBidAbi,
+              functionName: "submitBid",
+              args: [BigInt(values.lotId), encrypted.ciphertext, encrypted.inputProof, saltHash],
+              value: lot.depositCap,
+            });
+      } catch (sendError) {
+        if (pendingSaved) await updateReceipt({ status: "failed" });
+        throw sendError;
+      }
+      if (pendingSaved) await updateReceipt({ txHash: hash });
 
-      if (publicClient) {
-        await publicClient.waitForTransactionReceipt({ hash });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") {
+        if (pendingSaved) await updateReceipt({ txHash: hash, status: "failed" });
+        throw new Error(`Transaction ${hash} reverted; your ${existingBid ? "previous bid still stands" : "bid was not placed"}.`);
       }
 
-      toast.success("Encrypted bid submitted", {
-        description: `Store this salt safely: ${salt}`,
-      });
+      try {
+        await saveReceipt({
+          ...pendingReceipt,
+          status: "confirmed",
+          txHash: hash,
+          blockNumber: receipt.blockNumber.toString(),
+        });
+        toast.success(existingBid ? "Encrypted bid updated" : "Encrypted bid submitted", {
+          description: "Salt and amount saved to your encrypted bid vault.",
+        });
+      } catch (vaultError) {
+        console.error("[BidSubmission] Failed to save bid receipt:", vaultError);
+        toast.warning(`Encrypted bid ${existingBid ? "updated" : "submitted"}, but the receipt was not saved`, {
+          description: `Store this salt safely: ${salt}`,
+          duration: Infinity,
+        });
+      }
 
-      reset({ lotId: values.lotId, amount: "", salt: generateSalt() });
-      await queryClient.invalidateQueries({ queryKey: ["blindbid", "lots"] });
+      reset({ lotId: values.lotId, amount: "", salt: generateSalt(), previousSalt: "" });
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lots"] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lot", values.lotId] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "bid", values.lotId] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "my-bids"] }),
+      ]);
     } catch (error) {
+      if (isFheAbortError(error)) {
+        toast.info("Encryption cancelled", { description: "Your bid was not submitted." });
+        return;
+      }
       console.error(error);
       toast.error("Bid failed", {
         description:
           error instanceof Error ? error.message : "Transaction reverted or the relayer could not be reached.",
       });
     } finally {
+      encryptAbortRef.current = null;
       setEncrypting(false);
+      setEncryptProgress(null);
       setSubmitting(false);
     }
   });
 
-  const encryptionDisabled = fheState.status !== 'ready' || status !== "connected";
+  // Encryption initializes the FHE client on demand, so only a wallet is required
+  const encryptionDisabled = status !== "connected";
+  const initProgress = fheState.status === "initializing" ? fheState.progress?.message : undefined;
 
   return (
     <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.6 }}>
       <Card className="glass-card p-8 space-y-6">
         <div className="flex items-center gap-3">
           <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-accent flex items-center justify-center">
-            <Lock className="w-6 h-6 text-background" />
+            {isUpdate ? <RefreshCw className="w-6 h-6 text-background" /> : <Lock className="w-6 h-6 text-background" />}
           </div>
           <div>
-            <h3 className="text-2xl font-bold text-foreground">Submit Encrypted Bid</h3>
-            <p className="text-sm text-muted-foreground">Ciphertexts are generated client-side with the Zama relayer.</p>
+            <h3 className="text-2xl font-bold text-foreground">{isUpdate ? "Update Encrypted Bid" : "Submit Encrypted Bid"}</h3>
+            <p className="text-sm text-muted-foreground">
+              {isUpdate
+                ? "You already have a sealed bid on this lot. A new bid replaces it; your deposit stays in escrow."
+                : "Ciphertexts are generated client-side with the Zama relayer."}
+            </p>
           </div>
         </div>
 
@@ -239,8 +360,8 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
             <div>
               <p className="font-semibold text-foreground mb-1">Fail-closed safeguards</p>
               <p>
-                Bids encrypt locally and are allowed on-chain only after proof verification. Keep the generated salt so
-                you can later prove ownership of this sealed bid.
+                Bids encrypt locally and are allowed on-chain only after proof verification. The salt and amount are
+                kept in your encrypted bid vault so you can later prove ownership of this sealed bid.
               </p>
             </div>
           </div>
@@ -258,7 +379,7 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
               {lots.length === 0 && <option value="">No lots available</option>}
               {lots.map((lot) => (
                 <option key={lot.id.toString()} value={lot.id.toString()}>
-                  Lot #{lot.id.toString()} · bids {lot.bidCount}
+                  Lot #{lot.id.toString()} · bids {lot.activeBidCount}
                 </option>
               ))}
             </select>
@@ -282,6 +403,24 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
             {errors.amount && <p className="text-xs text-destructive">{errors.amount.message}</p>}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="bidDeposit">Escrow deposit (ETH)</Label>
+            <div className="relative">
+              <Input
+                id="bidDeposit"
+                readOnly
+                value={selectedLot ? formatEther(selectedLot.depositCap) : ""}
+                placeholder="Select a lot"
+                className="font-mono pr-12 bg-background/50"
+              />
+              <Wallet className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Every bid locks the same public deposit, which is also the maximum bid. The winner pays the revealed
+              amount and withdraws the rest; other bidders withdraw their full deposit after settlement.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label htmlFor="salt">Bid salt</Label>
@@ -302,10 +441,31 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
             <p className="text-xs text-muted-foreground">
               Salt is hashed on-chain ({""}
               <span className="font-mono">keccak256</span>
-              ). Store it privately to prove your commitment later.
+              ). It is saved to your bid vault after submission.
             </p>
           </div>
 
+          {isUpdate && (
+            <div className="space-y-2">
+              <Label htmlFor="previousSalt">Previous bid salt</Label>
+              <Input
+                id="previousSalt"
+                disabled={encryptionDisabled}
+                placeholder="Salt of the bid you are replacing"
+                {...register("previousSalt", {
+                  validate: (value) => !isUpdate || value.trim() !== "" || "Enter the salt of your current bid",
+                })}
+                className="font-mono"
+              />
+              {errors.previousSalt && <p className="text-xs text-destructive">{errors.previousSalt.message}</p>}
+              <p className="text-xs text-muted-foreground">
+                {previousReceipt
+                  ? "Filled in from your bid vault."
+                  : "Revealing it proves the sealed bid is yours. Unlock your bid vault to fill it in."}
+              </p>
+            </div>
+          )}
+
           {(isEncrypting || isSubmitting || switching) && (
             <motion.div
               initial={{ opacity: 0, height: 0 }}
@@ -320,12 +480,17 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
                   </p>
                   <p className="text-muted-foreground">
                     {isEncrypting
-                      ? "Generating ciphertext and zero-knowledge input proof."
+                      ? `${encryptProgress ?? initProgress ?? "Generating ciphertext and zero-knowledge input proof"}. You can keep browsing while this runs.`
                       : isSubmitting
                       ? "Confirm the transaction in your wallet."
-                      : "Confirm Sepolia in your wallet to continue."}
+                      : `Confirm ${appChain.name} in your wallet to continue.`}
                   </p>
                 </div>
+                {isEncrypting && (
+                  <Button type="button" variant="outline" size="sm" className="ml-auto" onClick={cancelEncryption}>
+                    Cancel
+                  </Button>
+                )}
               </div>
             </motion.div>
           )}
@@ -360,15 +525,16 @@ export default function BlindBidSubmissionForm({ lots, selectedLotId }: BlindBid
               </>
             ) : (
               <>
-                Submit Encrypted Bid
+                {isUpdate ? "Update Encrypted Bid" : "Submit Encrypted Bid"}
                 <Send className="ml-2 w-5 h-5 group-hover:translate-x-1 transition-transform" />
               </>
             )}
           </Button>
 
           <p className="text-xs text-center text-muted-foreground">
-            After submission bids cannot be withdrawn. Winning decryptions are initiated by the curator through the
-            gateway relayer.
+            Until the lot closes you can replace or withdraw your bid by revealing its salt; deposits become
+            withdrawable once the lot settles. Winning decryptions are initiated by the curator through the gateway
+            relayer.
           </p>
         </form>
       </Card>
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { type Address } from "viem";
+import { toast } from "sonner";
+import { Loader2, PackageOpen } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { appEnv } from "@/config/env";
+import { blindBidAbi, readContract, writeContract } from "@/lib/contracts";
+import type { LotSummary } from "@/lib/lots";
+
+interface ClaimItemsButtonProps {
+  lot: Pick<LotSummary, "id" | "settled" | "items">;
+}
+
+/**
+ * ClaimItemsButton Component
+ *
+ * Pull action for the escrowed items of a settled lot: winners claim the bundle (or their
+ * editions on uniform-price lots) and curators claim unsold items. Renders nothing when
+ * the connected wallet has nothing to claim.
+ */
+export function ClaimItemsButton({ lot }: ClaimItemsButtonProps) {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { address } = useAccount();
+  const [claiming, setClaiming] = useState(false);
+
+  const { data: units = 0 } = useQuery<number>({
+    queryKey: ["blindbid", "claimable-items", lot.id.toString(), address],
+    enabled: Boolean(publicClient && appEnv.contractAddress && address && lot.settled && lot.items.length > 0),
+    queryFn: async () => {
+      if (!publicClient || !appEnv.contractAddress || !address) {
+        return 0;
+      }
+      const claimable = await readContract(publicClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName: "claimableItemUnits",
+        args: [lot.id, address],
+      });
+      return Number(claimable);
+    },
+  });
+
+  const handleClaim = async () => {
+    if (!walletClient || !publicClient || !appEnv.contractAddress) {
+      toast.error("Unable to access the connected wallet.");
+      return;
+    }
+    try {
+      setClaiming(true);
+      const hash = await writeContract(walletClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName: "claimItems",
+        args: [lot.id],
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") {
+        throw new Error(`Transaction ${hash} reverted.`);
+      }
+      toast.success(`Items of lot #${lot.id.toString()} transferred to your wallet`);
+      await queryClient.invalidateQueries({ queryKey: ["blindbid", "claimable-items", lot.id.toString()] });
+    } catch (error) {
+      console.error("[ClaimItems] Claim failed:", error);
+      toast.error("Claim failed", {
+        description: error instanceof Error ? error.message : "Transaction reverted.",
+      });
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (units === 0) {
+    return null;
+  }
+
+  return (
+    <Button variant="outline" size="sm" className="gap-2" onClick={handleClaim} disabled={claiming || !walletClient}>
+      {claiming ? <Loader2 className="w-3 h-3 animate-spin" /> : <PackageOpen className="w-3 h-3" />}
+      Claim items
+    </Button>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { type Address } from "viem";
+import { toast } from "sonner";
+import { Loader2, ShieldAlert } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { appEnv } from "@/config/env";
+import { blindBidAbi, writeContract } from "@/lib/contracts";
+import type { LotSummary } from "@/lib/lots";
+
+interface CloseLotButtonProps {
+  lot: Pick<LotSummary, "id" | "curator">;
+}
+
+/**
+ * CloseLotButton Component
+ *
+ * Closes a lot and asks the gateway to reveal the winner. The curator can close at any
+ * time; once the bidding window has ended anyone can, and a non-curator is recorded as
+ * the lot's keeper and earns a share of the proceeds if it sells.
+ */
+export function CloseLotButton({ lot }: CloseLotButtonProps) {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { address } = useAccount();
+  const [closing, setClosing] = useState(false);
+
+  const isCurator = address?.toLowerCase() === lot.curator.toLowerCase();
+
+  const handleClose = async () => {
+    if (!walletClient || !appEnv.contractAddress) {
+      toast.error("Unable to access the connected wallet.");
+      return;
+    }
+    try {
+      setClosing(true);
+      const hash = await writeContract(walletClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName: "closeLot",
+        args: [lot.id],
+      });
+      toast.info("Closing lot...");
+      if (publicClient) {
+        await publicClient.waitForTransactionReceipt({ hash });
+      }
+      toast.success(`Lot #${lot.id.toString()} closed`, {
+        description: isCurator
+          ? "Bids are sealed and the gateway has been asked to reveal the winner."
+          : "The gateway has been asked to reveal the winner. Your keeper reward is credited if the lot sells.",
+      });
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lots"] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lot", lot.id.toString()] }),
+      ]);
+    } catch (error) {
+      console.error("[CloseLot] Close failed:", error);
+      toast.error("Close failed", {
+        description: error instanceof Error ? error.message : "Transaction reverted.",
+      });
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  return (
+    <Button className="gap-2" onClick={handleClose} disabled={closing || !walletClient}>
+      {closing ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldAlert className="w-4 h-4" />}
+      Close &amp; request reveal
+    </Button>
+  );
+}
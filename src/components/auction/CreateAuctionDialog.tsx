@@ -1,9 +1,9 @@
 import { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm, useWatch, type Control, type UseFormRegister, type UseFormSetValue } from "react-hook-form";
 import { ethers } from "ethers";
+import { addHours, addMinutes, format, formatDistanceStrict, startOfMinute } from "date-fns";
 import { useAccount, useWalletClient, usePublicClient } from "wagmi";
-import { sepolia } from "wagmi/chains";
-import { type Address } from "viem";
+import { erc1155Abi, erc721Abi, isAddress, type Address } from "viem";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -17,15 +17,174 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { DateTimePicker } from "@/components/auction/DateTimePicker";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Loader2, CheckCircle2, AlertCircle, Trash2 } from "lucide-react";
+import { useOwnedNfts } from "@/hooks/useOwnedNfts";
 import { encryptBid, getFheState, onFheStateChange, type FheInitState } from "@/lib/fhe";
+import { appChain, explorerTxUrl } from "@/config/chain";
 import { appEnv } from "@/config/env";
-import BlindBidAuctionABI from "@/abi/BlindBidAuction.json";
+import {
+  AUCTION_TYPES,
+  TOKEN_STANDARDS,
+  auctionTypeLabel,
+  type AuctionType,
+  type LotItem,
+  type TokenStandard,
+} from "@/lib/lots";
+import { blindBidAbi, readContract, writeContract } from "@/lib/contracts";
 
 interface CreateAuctionFormData {
   metadataURI: string;
   reservePrice: string;
-  durationHours: string;
+  /** Bidding window in the browser's local time */
+  startAt: Date;
+  endAt: Date;
+  depositCap: string;
+  auctionType: AuctionType;
+  /** Editions sold by a uniform-price lot */
+  supply: string;
+  /** Anti-sniping: late bids push the close back */
+  softClose: boolean;
+  softCloseMinutes: string;
+  extensionMinutes: string;
+  maxExtensionMinutes: string;
+  items: LotItemDraft[];
+}
+
+interface LotItemDraft {
+  standard: TokenStandard;
+  token: string;
+  tokenId: string;
+  amount: string;
+}
+
+// Mirror MAX_LOT_ITEMS and MAX_LOT_SUPPLY in BlindBidAuction
+const MAX_LOT_ITEMS = 20;
+const MAX_LOT_SUPPLY = 10;
+const MAX_DURATION_HOURS = 720;
+// Headroom for the transaction to be mined before the window it opens has already closed
+const MIN_END_LEAD_MINUTES = 5;
+
+/**
+ * Default bidding window: opens in ten minutes and runs for a day.
+ */
+const defaultSchedule = () => {
+  const startAt = addMinutes(startOfMinute(new Date()), 10);
+  return { startAt, endAt: addHours(startAt, 24) };
+};
+
+/**
+ * Mirror `createLot`'s `InvalidWindow` rule (end after start and in the future) plus the
+ * dialog's own duration limit.
+ */
+const validateWindow = (startAt: Date, endAt: Date): string | null => {
+  if (endAt <= startAt) return "Bidding must close after it opens";
+  if (endAt <= addMinutes(new Date(), MIN_END_LEAD_MINUTES)) {
+    return `Bidding must close at least ${MIN_END_LEAD_MINUTES} minutes from now`;
+  }
+  if (endAt > addHours(startAt, MAX_DURATION_HOURS)) return "Maximum 720 hours (30 days)";
+  return null;
+};
+
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const emptyItem: LotItemDraft = { standard: "erc721", token: "", tokenId: "", amount: "1" };
+
+const toLotItem = (draft: LotItemDraft): LotItem => ({
+  standard: draft.standard,
+  token: draft.token.trim(),
+  tokenId: BigInt(draft.tokenId.trim()),
+  amount: draft.standard === "erc721" ? 1n : BigInt(draft.amount.trim()),
+});
+
+interface LotItemRowProps {
+  index: number;
+  control: Control<CreateAuctionFormData>;
+  register: UseFormRegister<CreateAuctionFormData>;
+  setValue: UseFormSetValue<CreateAuctionFormData>;
+  error?: string;
+  onRemove: () => void;
+}
+
+/**
+ * One bundle item: standard, collection, token id (picked from the wallet for ERC-721)
+ * and edition count (ERC-1155 only).
+ */
+function LotItemRow({ index, control, register, setValue, error, onRemove }: LotItemRowProps) {
+  const item = useWatch({ control, name: `items.${index}` });
+  const collection = item?.token.trim() ?? "";
+  const { data: ownedTokens = [], isFetching: loadingTokens } = useOwnedNfts(
+    item?.standard === "erc721" ? collection : undefined,
+  );
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg border border-border">
+      <div className="flex gap-2">
+        <Select
+          value={item?.standard}
+          onValueChange={(value) => setValue(`items.${index}.standard`, value as TokenStandard)}
+        >
+          <SelectTrigger className="w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="erc721">ERC-721</SelectItem>
+            <SelectItem value="erc1155">ERC-1155</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Token contract 0x..."
+          className="font-mono"
+          {...register(`items.${index}.token`, {
+            validate: (value) => isAddress(value.trim()) || "Must be a valid contract address",
+          })}
+        />
+        <Button type="button" variant="ghost" size="icon" onClick={onRemove} aria-label="Remove item">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        {item?.standard === "erc721" && ownedTokens.length > 0 && (
+          <Select
+            value={item.tokenId}
+            onValueChange={(value) => setValue(`items.${index}.tokenId`, value, { shouldValidate: true })}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Your tokens" />
+            </SelectTrigger>
+            <SelectContent>
+              {ownedTokens.map((token) => (
+                <SelectItem key={token.toString()} value={token.toString()}>
+                  Token #{token.toString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          placeholder={loadingTokens ? "Looking up your tokens..." : "Token id"}
+          {...register(`items.${index}.tokenId`, {
+            validate: (value) => /^\d+$/.test(value.trim()) || "Enter the token id to escrow",
+          })}
+        />
+        {item?.standard === "erc1155" && (
+          <Input
+            type="number"
+            min={1}
+            placeholder="Editions"
+            className="w-[110px]"
+            {...register(`items.${index}.amount`, {
+              validate: (value, form) =>
+                form.items[index]?.standard !== "erc1155" || /^[1-9]\d*$/.test(value.trim()) || "At least 1 edition",
+            })}
+          />
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
 }
 
 export function CreateAuctionDialog() {
@@ -33,6 +192,7 @@ export function CreateAuctionDialog() {
   const [txHash, setTxHash] = useState<string>();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
   const [fheState, setFheState] = useState<FheInitState>(getFheState());
 
   const { address, chainId } = useAccount();
@@ -50,14 +210,109 @@ export function CreateAuctionDialog() {
     handleSubmit,
     formState: { errors },
     reset,
+    control,
+    setValue,
+    getValues,
   } = useForm<CreateAuctionFormData>({
     defaultValues: {
       metadataURI: "",
       reservePrice: "0.1",
-      durationHours: "24",
+      ...defaultSchedule(),
+      depositCap: "",
+      auctionType: "first-price",
+      supply: "2",
+      softClose: false,
+      softCloseMinutes: "10",
+      extensionMinutes: "5",
+      maxExtensionMinutes: "60",
+      items: [],
     },
   });
 
+  const auctionType = useWatch({ control, name: "auctionType" });
+  const softClose = useWatch({ control, name: "softClose" });
+  const startAt = useWatch({ control, name: "startAt" });
+  const endAt = useWatch({ control, name: "endAt" });
+  const windowError = validateWindow(startAt, endAt);
+  const { fields: itemFields, append: appendItem, remove: removeItem } = useFieldArray({ control, name: "items" });
+
+  /**
+   * Approve the auction contract for every bundle item that is not approved yet, so
+   * `createLot` can pull the whole bundle into escrow: per token for ERC-721 and once
+   * per collection for ERC-1155.
+   */
+  const ensureItemApprovals = async (items: LotItem[]) => {
+    if (!walletClient || !publicClient || !address) {
+      throw new Error("Unable to access wallet");
+    }
+    const auction = appEnv.contractAddress as Address;
+    const approvedCollections = new Set<string>();
+
+    const approve = async (send: () => Promise<`0x${string}`>) => {
+      const hash = await send();
+      console.log("[CreateAuction] Approval submitted:", hash);
+      await publicClient.waitForTransactionReceipt({ hash });
+    };
+
+    try {
+      setIsApproving(true);
+      for (const item of items) {
+        const collection = item.token as Address;
+        if (approvedCollections.has(collection.toLowerCase())) {
+          continue;
+        }
+
+        const approvedForAll = await readContract<boolean>(publicClient, {
+          address: collection,
+          abi: erc721Abi,
+          functionName: "isApprovedForAll",
+          args: [address, auction],
+        });
+        if (approvedForAll) {
+          approvedCollections.add(collection.toLowerCase());
+          continue;
+        }
+
+        if (item.standard === "erc1155") {
+          toast.info("Approve the auction contract to escrow your editions...");
+          await approve(() =>
+            writeContract(walletClient, {
+              address: collection,
+              abi: erc1155Abi,
+              functionName: "setApprovalForAll",
+              args: [auction, true],
+            }),
+          );
+          approvedCollections.add(collection.toLowerCase());
+          continue;
+        }
+
+        const approved = await readContract<Address>(publicClient, {
+          address: collection,
+          abi: erc721Abi,
+          functionName: "getApproved",
+          args: [item.tokenId],
+        });
+        if (approved.toLowerCase() !== auction.toLowerCase()) {
+          toast.info(`Approve the auction contract to escrow token #${item.tokenId.toString()}...`);
+          await approve(() =>
+            writeContract(walletClient, {
+              address: collection,
+              abi: erc721Abi,
+              functionName: "approve",
+              args: [auction, item.tokenId],
+            }),
+          );
+        }
+      }
+      if (items.length > 0) {
+        toast.success("Bundle approved for escrow");
+      }
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
   const onSubmit = async (data: CreateAuctionFormData) => {
     console.log("[CreateAuction] Form submitted with data:", data);
 
@@ -66,33 +321,34 @@ export function CreateAuctionDialog() {
       return;
     }
 
-    if (fheState.status !== 'ready') {
-      toast.error("FHE encryption not ready. Please wait...");
+    if (!walletClient) {
+      toast.error("Unable to access wallet");
       return;
     }
 
-    if (!walletClient) {
-      toast.error("Unable to access wallet");
+    const scheduleError = validateWindow(data.startAt, data.endAt);
+    if (scheduleError) {
+      toast.error(scheduleError);
       return;
     }
 
     // Check if on correct network
-    if (chainId !== sepolia.id) {
-      console.log(`[CreateAuction] Current chain: ${chainId}, need Sepolia (${sepolia.id})`);
+    if (chainId !== appChain.id) {
+      console.log(`[CreateAuction] Current chain: ${chainId}, need ${appChain.name} (${appChain.id})`);
 
       try {
-        console.log("[CreateAuction] Requesting network switch to Sepolia...");
+        console.log(`[CreateAuction] Requesting network switch to ${appChain.name}...`);
         const toastId = toast.info("Please approve network switch in your wallet", { duration: Infinity });
 
         // Use wallet_switchEthereumChain RPC method directly
         if (walletClient?.account) {
           await walletClient.request({
             method: 'wallet_switchEthereumChain',
-            params: [{ chainId: `0x${sepolia.id.toString(16)}` }], // Convert to hex
+            params: [{ chainId: `0x${appChain.id.toString(16)}` }], // Convert to hex
           });
           console.log("[CreateAuction] Network switched successfully");
           toast.dismiss(toastId);
-          toast.success("Switched to Sepolia network");
+          toast.success(`Switched to ${appChain.name} network`);
 
           // Wait for wagmi to update chainId
           await new Promise(resolve => setTimeout(resolve, 500));
@@ -107,34 +363,30 @@ export function CreateAuctionDialog() {
         // Error code 4902 means the chain hasn't been added to MetaMask yet
         if (error.code === 4902) {
           try {
-            console.log("[CreateAuction] Adding Sepolia network to wallet...");
+            console.log(`[CreateAuction] Adding ${appChain.name} network to wallet...`);
             await walletClient?.request({
               method: 'wallet_addEthereumChain',
               params: [{
-                chainId: `0x${sepolia.id.toString(16)}`,
-                chainName: 'Sepolia',
-                nativeCurrency: {
-                  name: 'Sepolia ETH',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
-                rpcUrls: ['https://rpc.sepolia.org'],
-                blockExplorerUrls: ['https://sepolia.etherscan.io'],
+                chainId: `0x${appChain.id.toString(16)}`,
+                chainName: appChain.name,
+                nativeCurrency: appChain.nativeCurrency,
+                rpcUrls: [appEnv.rpcUrl],
+                blockExplorerUrls: appChain.blockExplorers ? [appChain.blockExplorers.default.url] : undefined,
               }],
             });
             console.log("[CreateAuction] Network added and switched");
-            toast.success("Switched to Sepolia network");
+            toast.success(`Switched to ${appChain.name} network`);
 
             // Wait for wagmi to update chainId
             await new Promise(resolve => setTimeout(resolve, 500));
           } catch (addError) {
             console.error("[CreateAuction] Failed to add network:", addError);
-            toast.error("Failed to add Sepolia network. Please add it manually.");
+            toast.error(`Failed to add ${appChain.name} network. Please add it manually.`);
             return;
           }
         } else if (error.code === 4001) {
           // User rejected the request
-          toast.error("Network switch cancelled. Please switch to Sepolia to continue.");
+          toast.error(`Network switch cancelled. Please switch to ${appChain.name} to continue.`);
           return;
         } else {
           toast.error(`Failed to switch network: ${error.message || 'Unknown error'}`);
@@ -142,7 +394,7 @@ export function CreateAuctionDialog() {
         }
       }
     } else {
-      console.log("[CreateAuction] Already on Sepolia network");
+      console.log(`[CreateAuction] Already on ${appChain.name} network`);
     }
 
     try {
@@ -153,6 +405,27 @@ export function CreateAuctionDialog() {
       const reservePriceWei = ethers.parseEther(data.reservePrice);
       console.log("[CreateAuction] Reserve price in wei:", reservePriceWei.toString());
 
+      // Empty deposit cap falls back to the contract default
+      const depositCapWei = data.depositCap ? ethers.parseEther(data.depositCap) : 0n;
+      if (depositCapWei > 0n && reservePriceWei > depositCapWei) {
+        toast.error("Reserve price cannot exceed the deposit cap");
+        return;
+      }
+
+      // Uniform-price lots split every item evenly between editions, see MAX_LOT_SUPPLY
+      const supply = data.auctionType === "uniform-price" ? parseInt(data.supply) : 1;
+      const items = data.items.map(toLotItem);
+      if (
+        data.auctionType === "uniform-price" &&
+        items.some((item) => item.standard !== "erc1155" || item.amount % BigInt(supply) !== 0n)
+      ) {
+        toast.error(`Uniform-price items must be ERC-1155 with an amount divisible by ${supply}`);
+        return;
+      }
+
+      // Escrowed lots need the auction approved for every item before createLot
+      await ensureItemApprovals(items);
+
       // Encrypt reserve price using FHE
       console.log("[CreateAuction] Starting FHE encryption...");
       toast.info("Encrypting reserve price...");
@@ -165,26 +438,37 @@ export function CreateAuctionDialog() {
 
       console.log("[CreateAuction] Encryption complete");
 
-      // Calculate timestamps
-      const now = Math.floor(Date.now() / 1000);
-      const startTime = now + 60; // Start in 1 minute
-      const durationSeconds = parseInt(data.durationHours) * 60 * 60;
-      const endTime = startTime + durationSeconds;
+      // A start time already in the past simply opens bidding once the lot is mined
+      const startTime = Math.floor(data.startAt.getTime() / 1000);
+      const endTime = Math.floor(data.endAt.getTime() / 1000);
+
+      // All zeros is a hard close; minutes become the seconds createLot expects
+      const softCloseRule = data.softClose
+        ? {
+            window: parseInt(data.softCloseMinutes) * 60,
+            extension: parseInt(data.extensionMinutes) * 60,
+            maxExtension: parseInt(data.maxExtensionMinutes) * 60,
+          }
+        : { window: 0, extension: 0, maxExtension: 0 };
 
       console.log("Creating auction with:", {
         metadataURI: data.metadataURI,
         startTime,
         endTime,
         reservePrice: data.reservePrice,
+        auctionType: data.auctionType,
+        supply,
+        softClose: softCloseRule,
+        items: items.length,
       });
 
       // Submit transaction
       console.log("[CreateAuction] Submitting transaction to contract...");
       toast.info("Submitting transaction...");
 
-      const hash = await walletClient.writeContract({
+      const hash = await writeContract(walletClient, {
         address: appEnv.contractAddress as Address,
-        abi: BlindBidAuctionABI,
+        abi: blindBidAbi,
         functionName: "createLot",
         args: [
           data.metadataURI,
@@ -192,6 +476,16 @@ export function CreateAuctionDialog() {
           BigInt(endTime),
           ciphertext as `0x${string}`,
           inputProof as `0x${string}`,
+          depositCapWei,
+          AUCTION_TYPES.indexOf(data.auctionType),
+          supply,
+          softCloseRule,
+          items.map((item) => ({
+            standard: TOKEN_STANDARDS.indexOf(item.standard),
+            token: item.token as Address,
+            tokenId: item.tokenId,
+            amount: item.amount,
+          })),
         ],
       });
 
@@ -220,6 +514,16 @@ export function CreateAuctionDialog() {
     }
   };
 
+  const handleOpenChange = (next: boolean) => {
+    // A schedule left over from an earlier visit may have started already
+    if (next && getValues("startAt") < new Date()) {
+      const schedule = defaultSchedule();
+      setValue("startAt", schedule.startAt);
+      setValue("endAt", schedule.endAt);
+    }
+    setOpen(next);
+  };
+
   const handleClose = () => {
     setOpen(false);
     reset();
@@ -228,7 +532,7 @@ export function CreateAuctionDialog() {
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button className="gap-2 bg-primary hover:bg-primary/90">
           <Plus className="w-4 h-4" />
@@ -251,9 +555,9 @@ export function CreateAuctionDialog() {
               <p className="text-muted-foreground mb-4">
                 Your auction has been successfully created on-chain.
               </p>
-              {txHash && (
+              {txHash && explorerTxUrl(txHash) && (
                 <a
-                  href={`https://sepolia.etherscan.io/tx/${txHash}`}
+                  href={explorerTxUrl(txHash) as string}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-primary hover:underline text-sm"
@@ -316,30 +620,211 @@ export function CreateAuctionDialog() {
               </p>
             </div>
 
-            {/* Duration */}
+            {/* Schedule */}
+            <div className="space-y-2">
+              <Label htmlFor="startAt">Bidding opens</Label>
+              <DateTimePicker
+                id="startAt"
+                value={startAt}
+                minDate={new Date()}
+                onChange={(value) => setValue("startAt", value)}
+              />
+              <Label htmlFor="endAt">Bidding closes</Label>
+              <DateTimePicker
+                id="endAt"
+                value={endAt}
+                minDate={startAt}
+                invalid={windowError !== null}
+                onChange={(value) => setValue("endAt", value)}
+              />
+              {windowError && <p className="text-sm text-destructive">{windowError}</p>}
+              <p className="text-xs text-muted-foreground">
+                Times are in {localTimeZone} (UTC{format(startAt, "xxx")}).{" "}
+                {!windowError &&
+                  (startAt <= new Date()
+                    ? `Opens as soon as the lot is created and runs until ${format(endAt, "PPp")}.`
+                    : `Runs for ${formatDistanceStrict(endAt, startAt)}.`)}
+              </p>
+            </div>
+
+            {/* Auction Type */}
+            <div className="space-y-2">
+              <Label htmlFor="auctionType">Pricing</Label>
+              <Select
+                value={auctionType}
+                onValueChange={(value) => setValue("auctionType", value as AuctionType)}
+              >
+                <SelectTrigger id="auctionType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUCTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {auctionTypeLabel(type)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {auctionType === "second-price"
+                  ? "The winner pays the second-highest bid (or your reserve, if higher), so bidding true value is the best strategy"
+                  : auctionType === "uniform-price"
+                    ? "The top bids each win one edition and all pay the highest losing bid (or your reserve, if higher)"
+                    : "The winner pays their own bid"}
+              </p>
+            </div>
+
+            {/* Supply */}
+            {auctionType === "uniform-price" && (
+              <div className="space-y-2">
+                <Label htmlFor="supply">Editions</Label>
+                <Input
+                  id="supply"
+                  type="number"
+                  step="1"
+                  placeholder="2"
+                  {...register("supply", {
+                    validate: (value, form) =>
+                      form.auctionType !== "uniform-price" ||
+                      (/^\d+$/.test(value.trim()) && Number(value) >= 1 && Number(value) <= MAX_LOT_SUPPLY) ||
+                      `Between 1 and ${MAX_LOT_SUPPLY} editions`,
+                  })}
+                />
+                {errors.supply && (
+                  <p className="text-sm text-destructive">{errors.supply.message}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Number of winners. Escrowed ERC-1155 amounts are split evenly between them
+                </p>
+              </div>
+            )}
+
+            {/* Soft Close */}
             <div className="space-y-2">
-              <Label htmlFor="durationHours">
-                Duration (hours)
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="softClose">Soft close</Label>
+                <Switch
+                  id="softClose"
+                  checked={softClose}
+                  onCheckedChange={(checked) => setValue("softClose", checked)}
+                />
+              </div>
+              {softClose && (
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="softCloseMinutes" className="text-xs">Final window (min)</Label>
+                    <Input
+                      id="softCloseMinutes"
+                      type="number"
+                      step="1"
+                      {...register("softCloseMinutes", {
+                        validate: (value, form) =>
+                          !form.softClose || (/^\d+$/.test(value.trim()) && Number(value) >= 1) || "At least 1 minute",
+                      })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="extensionMinutes" className="text-xs">Extend by (min)</Label>
+                    <Input
+                      id="extensionMinutes"
+                      type="number"
+                      step="1"
+                      {...register("extensionMinutes", {
+                        validate: (value, form) =>
+                          !form.softClose || (/^\d+$/.test(value.trim()) && Number(value) >= 1) || "At least 1 minute",
+                      })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="maxExtensionMinutes" className="text-xs">Cap (min)</Label>
+                    <Input
+                      id="maxExtensionMinutes"
+                      type="number"
+                      step="1"
+                      {...register("maxExtensionMinutes", {
+                        validate: (value, form) =>
+                          !form.softClose ||
+                          (/^\d+$/.test(value.trim()) && Number(value) >= Number(form.extensionMinutes)) ||
+                          "Cap must be at least one extension",
+                      })}
+                    />
+                  </div>
+                </div>
+              )}
+              {(errors.softCloseMinutes || errors.extensionMinutes || errors.maxExtensionMinutes) && (
+                <p className="text-sm text-destructive">
+                  {errors.softCloseMinutes?.message ??
+                    errors.extensionMinutes?.message ??
+                    errors.maxExtensionMinutes?.message}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {softClose
+                  ? "A bid in the final window pushes the close back, up to the cap in total"
+                  : "Bidding closes exactly at the end time"}
+              </p>
+            </div>
+
+            {/* Deposit Cap */}
+            <div className="space-y-2">
+              <Label htmlFor="depositCap">
+                Deposit Cap (ETH)
+                <span className="text-xs text-muted-foreground ml-2">(public)</span>
               </Label>
               <Input
-                id="durationHours"
+                id="depositCap"
                 type="number"
-                step="1"
-                placeholder="24"
-                {...register("durationHours", {
-                  required: "Duration is required",
-                  min: { value: 1, message: "Minimum 1 hour" },
-                  max: { value: 720, message: "Maximum 720 hours (30 days)" },
+                step="0.001"
+                placeholder="Contract default"
+                {...register("depositCap", {
+                  min: { value: 0, message: "Deposit cap must be non-negative" },
+                  max: { value: 18, message: "Maximum 18 ETH" },
                 })}
               />
-              {errors.durationHours && (
-                <p className="text-sm text-destructive">{errors.durationHours.message}</p>
+              {errors.depositCap && (
+                <p className="text-sm text-destructive">{errors.depositCap.message}</p>
               )}
               <p className="text-xs text-muted-foreground">
-                Auction will start in 1 minute after creation
+                Every bid escrows this deposit, so it is also the highest possible bid
               </p>
             </div>
 
+            {/* Escrowed Bundle */}
+            <div className="space-y-2">
+              <Label>
+                Escrowed Items
+                <span className="text-xs text-muted-foreground ml-2">(optional ERC-721 / ERC-1155)</span>
+              </Label>
+              {itemFields.map((field, index) => (
+                <LotItemRow
+                  key={field.id}
+                  index={index}
+                  control={control}
+                  register={register}
+                  setValue={setValue}
+                  error={
+                    errors.items?.[index]?.token?.message ??
+                    errors.items?.[index]?.tokenId?.message ??
+                    errors.items?.[index]?.amount?.message
+                  }
+                  onRemove={() => removeItem(index)}
+                />
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => appendItem({ ...emptyItem })}
+                disabled={itemFields.length >= MAX_LOT_ITEMS}
+              >
+                <Plus className="w-4 h-4" />
+                Add item
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Items are held by the auction contract until settlement, then the winner (or you, if unsold) claims them
+              </p>
+            </div>
 
             {/* Warning about FHE */}
             {fheState.status === 'initializing' && (
@@ -348,7 +833,8 @@ export function CreateAuctionDialog() {
                 <div className="text-sm text-blue-600 dark:text-blue-400">
                   <p className="font-medium">Initializing FHE Encryption</p>
                   <p className="text-xs mt-1 opacity-90">
-                    Loading cryptographic modules... This may take a few seconds.
+                    {fheState.progress?.message ?? "Loading cryptographic modules"}… The first visit also downloads
+                    the network keys; later visits reuse them.
                   </p>
                 </div>
               </div>
@@ -378,13 +864,13 @@ export function CreateAuctionDialog() {
               </Button>
               <Button
                 type="submit"
-                disabled={!address || fheState.status !== 'ready' || isSubmitting}
+                disabled={!address || isSubmitting}
                 className="flex-1 gap-2"
               >
                 {isSubmitting ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin" />
-                    Creating...
+                    {isApproving ? "Approving items..." : "Creating..."}
                   </>
                 ) : (
                   "Create Auction"
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { usePublicClient, useWalletClient } from "wagmi";
+import { formatDistanceToNow } from "date-fns";
+import { formatEther, type Address } from "viem";
+import { toast } from "sonner";
+import { Ban, CheckCircle2, Eye, Loader2, Lock, XCircle } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useLotMetadata } from "@/hooks/useLotMetadata";
+import { useUserDecrypt } from "@/hooks/useUserDecrypt";
+import { ClaimItemsButton } from "@/components/auction/ClaimItemsButton";
+import { CloseLotButton } from "@/components/auction/CloseLotButton";
+import { EscrowWithdrawButton } from "@/components/auction/EscrowWithdrawButton";
+import { appEnv } from "@/config/env";
+import { blindBidAbi, writeContract } from "@/lib/contracts";
+import { canCancel, deriveStatus, isUnsold, lotPath, type LotSummary } from "@/lib/lots";
+
+interface CuratorView {
+  winningBid: bigint;
+  winningIndex: number;
+  reserve: bigint;
+  /** What the current leader would pay if the lot closed now */
+  clearingPrice: bigint;
+}
+
+interface CuratorLotCardProps {
+  lot: LotSummary;
+}
+
+const phaseLabel = (lot: LotSummary) => {
+  if (lot.cancelled) return "Cancelled";
+  if (isUnsold(lot)) return "Unsold";
+  if (lot.settled) return "Settled";
+  if (lot.revealRequested) return "Awaiting reveal";
+  const status = deriveStatus(lot.startTime, lot.endTime, lot.closed, lot.cancelled);
+  return status === "active" ? "Live" : status === "upcoming" ? "Upcoming" : "Ready to close";
+};
+
+/**
+ * CuratorLotCard Component
+ *
+ * Curator-side view of a single lot: decrypts the running winner and reserve the
+ * contract ACLs to the curator, reports whether the reserve is met, and closes
+ * the lot once its bidding window has ended. Lots without bids can be cancelled instead.
+ */
+export function CuratorLotCard({ lot }: CuratorLotCardProps) {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { canDecrypt, decrypt } = useUserDecrypt();
+  const { data: metadata } = useLotMetadata(lot.metadataURI);
+  const [view, setView] = useState<CuratorView | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  const windowEnded = Math.floor(Date.now() / 1000) > lot.endTime;
+  const canClose = windowEnded && !lot.closed && !lot.revealRequested;
+  const reserveMet = view ? lot.activeBidCount > 0 && view.winningBid >= view.reserve : null;
+
+  const handleDecrypt = async () => {
+    if (!appEnv.contractAddress) {
+      toast.error("Contract address not configured.");
+      return;
+    }
+    try {
+      setDecrypting(true);
+      // Second- and uniform-price lots both clear at the best losing bid
+      const secondPrice = lot.auctionType !== "first-price";
+      const values = await decrypt(appEnv.contractAddress as `0x${string}`, [
+        lot.encryptedWinningBid,
+        lot.encryptedWinningIndex,
+        lot.encryptedReserve,
+        ...(secondPrice ? [lot.encryptedSecondBid] : []),
+      ]);
+      const winningBid = BigInt(values[lot.encryptedWinningBid] as bigint);
+      const reserve = BigInt(values[lot.encryptedReserve] as bigint);
+      const secondBid = secondPrice ? BigInt(values[lot.encryptedSecondBid] as bigint) : 0n;
+      setView({
+        winningBid,
+        winningIndex: Number(values[lot.encryptedWinningIndex]),
+        reserve,
+        clearingPrice: secondPrice ? (secondBid > reserve ? secondBid : reserve) : winningBid,
+      });
+    } catch (error) {
+      console.error("[Curator] Decryption failed:", error);
+      toast.error(error instanceof Error ? error.message : "Unable to decrypt lot state");
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!walletClient || !appEnv.contractAddress) {
+      toast.error("Unable to access the connected wallet.");
+      return;
+    }
+    try {
+      setCancelling(true);
+      const hash = await writeContract(walletClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName: "cancelLot",
+        args: [lot.id],
+      });
+      if (publicClient) {
+        await publicClient.waitForTransactionReceipt({ hash });
+      }
+      toast.success(`Lot #${lot.id.toString()} cancelled`, {
+        description: lot.items.length > 0 ? "Escrowed items were returned to you." : undefined,
+      });
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lots"] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lot", lot.id.toString()] }),
+      ]);
+    } catch (error) {
+      console.error("[Curator] Cancel failed:", error);
+      toast.error("Cancel failed", {
+        description: error instanceof Error ? error.message : "Transaction reverted.",
+      });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link to={lotPath(lot.id)} className="text-lg font-semibold hover:text-primary">
+            {metadata?.name ?? `Lot #${lot.id.toString().padStart(3, "0")}`}
+          </Link>
+          <p className="text-sm text-muted-foreground">
+            {lot.activeBidCount} sealed bid{lot.activeBidCount === 1 ? "" : "s"} ·{" "}
+            {windowEnded ? "ended" : "ends"} {formatDistanceToNow(new Date(lot.endTime * 1000), { addSuffix: true })}
+          </p>
+        </div>
+        <Badge variant="secondary">{phaseLabel(lot)}</Badge>
+      </div>
+
+      {lot.cancelled ? (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-border bg-secondary text-muted-foreground text-sm">
+          <Ban className="w-4 h-4" />
+          Cancelled before bidding{lot.items.length > 0 && ", escrowed items returned"}
+        </div>
+      ) : isUnsold(lot) ? (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-destructive/40 bg-destructive/10 text-destructive text-sm">
+          <XCircle className="w-4 h-4" />
+          {lot.activeBidCount === 0 ? "Closed without bids" : "Reserve not met, lot unsold"}
+          <span className="ml-auto">
+            <ClaimItemsButton lot={lot} />
+          </span>
+        </div>
+      ) : lot.settled ? (
+        <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary border border-border text-sm">
+          <span>
+            Sold{lot.winnerCount > 1 && ` ${lot.winnerCount} editions`} for{" "}
+            <span className="font-semibold text-primary">{formatEther(lot.revealedAmount)} ETH</span>
+            {lot.winnerCount > 1 && " each"}
+          </span>
+          {/* Uniform-price lots leave unsold editions to the curator */}
+          <ClaimItemsButton lot={lot} />
+          {lot.proceedsWithdrawn ? (
+            <span className="text-muted-foreground">Proceeds withdrawn</span>
+          ) : (
+            <EscrowWithdrawButton
+              lotId={lot.id}
+              functionName="withdrawProceeds"
+              amount={lot.revealedAmount * BigInt(Math.max(lot.winnerCount, 1)) - lot.keeperReward}
+            />
+          )}
+        </div>
+      ) : view ? (
+        <div className="grid grid-cols-3 gap-3 text-sm">
+          <div className="p-3 rounded-lg bg-secondary border border-border">
+            <p className="text-xs text-muted-foreground">Leading bid</p>
+            <p className="font-semibold">{lot.activeBidCount > 0 ? `${formatEther(view.winningBid)} ETH` : "—"}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-secondary border border-border">
+            <p className="text-xs text-muted-foreground">Leading index</p>
+            <p className="font-semibold font-mono">{lot.activeBidCount > 0 ? view.winningIndex : "—"}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-secondary border border-border">
+            <p className="text-xs text-muted-foreground">Reserve</p>
+            <p className="font-semibold">{formatEther(view.reserve)} ETH</p>
+          </div>
+          {lot.auctionType !== "first-price" && lot.activeBidCount > 0 && (
+            <div className="col-span-3 p-3 rounded-lg bg-secondary border border-border">
+              <p className="text-xs text-muted-foreground">
+                Clearing price ({lot.auctionType === "uniform-price" ? `uniform, ${lot.supply} editions` : "second price"})
+              </p>
+              <p className="font-semibold">{formatEther(view.clearingPrice)} ETH</p>
+            </div>
+          )}
+          <div
+            className={`col-span-3 flex items-center gap-2 p-3 rounded-lg border ${
+              reserveMet ? "border-primary/40 bg-primary/10 text-primary" : "border-destructive/40 bg-destructive/10 text-destructive"
+            }`}
+          >
+            {reserveMet ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {reserveMet ? "Reserve met" : lot.activeBidCount === 0 ? "No bids yet" : "Reserve not met"}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Lock className="w-4 h-4" />
+          Leading bid and reserve are encrypted. Only you can decrypt them.
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {!lot.settled && !lot.cancelled && !view && (
+          <Button variant="outline" className="gap-2" onClick={handleDecrypt} disabled={!canDecrypt || decrypting}>
+            {decrypting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+            Decrypt curator view
+          </Button>
+        )}
+        {canClose && <CloseLotButton lot={lot} />}
+        {canCancel(lot) && (
+          <Button variant="outline" className="gap-2" onClick={handleCancel} disabled={cancelling || !walletClient}>
+            {cancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+            Cancel lot
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
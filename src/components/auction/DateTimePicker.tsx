@@ -0,0 +1,77 @@
+import { format, isBefore, startOfDay } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+interface DateTimePickerProps {
+  id: string;
+  value: Date;
+  onChange: (value: Date) => void;
+  /** Days before this one cannot be picked */
+  minDate?: Date;
+  invalid?: boolean;
+}
+
+/**
+ * Keep the day of `day` and the hours and minutes of `time`, in local time.
+ */
+const withTime = (day: Date, time: Date) => {
+  const combined = new Date(day);
+  combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return combined;
+};
+
+/**
+ * DateTimePicker Component
+ *
+ * Calendar popover for the day plus a time input for the hour and minute, both in the
+ * browser's local timezone.
+ */
+export function DateTimePicker({ id, value, onChange, minDate, invalid = false }: DateTimePickerProps) {
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+    const next = new Date(value);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            className={cn("flex-1 justify-start gap-2 font-normal", invalid && "border-destructive")}
+          >
+            <CalendarIcon className="w-4 h-4 text-muted-foreground" />
+            {format(value, "PPP")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            defaultMonth={value}
+            onSelect={(day) => day && onChange(withTime(day, value))}
+            disabled={minDate ? (day) => isBefore(day, startOfDay(minDate)) : undefined}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        type="time"
+        aria-label="Time"
+        className={cn("w-32", invalid && "border-destructive")}
+        value={format(value, "HH:mm")}
+        onChange={(event) => handleTimeChange(event.target.value)}
+      />
+    </div>
+  );
+}
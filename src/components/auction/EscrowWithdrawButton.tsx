@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { usePublicClient, useWalletClient } from "wagmi";
+import { formatEther, type Address } from "viem";
+import { toast } from "sonner";
+import { ArrowDownToLine, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { appEnv } from "@/config/env";
+import { blindBidAbi, writeContract } from "@/lib/contracts";
+
+interface EscrowWithdrawButtonProps {
+  lotId: bigint;
+  /** `withdrawDeposit` for bidders, `withdrawProceeds` for the curator */
+  functionName: "withdrawDeposit" | "withdrawProceeds";
+  amount: bigint;
+}
+
+/**
+ * EscrowWithdrawButton Component
+ *
+ * Pull-payment action for a settled lot: bidders reclaim their escrowed deposit
+ * (or the winner's excess) and curators collect the winning payment.
+ */
+export function EscrowWithdrawButton({ lotId, functionName, amount }: EscrowWithdrawButtonProps) {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const [withdrawing, setWithdrawing] = useState(false);
+
+  const handleWithdraw = async () => {
+    if (!walletClient || !appEnv.contractAddress) {
+      toast.error("Unable to access the connected wallet.");
+      return;
+    }
+    try {
+      setWithdrawing(true);
+      const hash = await writeContract(walletClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName,
+        args: [lotId],
+      });
+      if (publicClient) {
+        await publicClient.waitForTransactionReceipt({ hash });
+      }
+      toast.success(`Withdrew ${formatEther(amount)} ETH`);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lots"] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lot", lotId.toString()] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "my-bids"] }),
+      ]);
+    } catch (error) {
+      console.error("[Escrow] Withdraw failed:", error);
+      toast.error("Withdraw failed", {
+        description: error instanceof Error ? error.message : "Transaction reverted.",
+      });
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="gap-2"
+      onClick={handleWithdraw}
+      disabled={withdrawing || !walletClient || amount === 0n}
+    >
+      {withdrawing ? <Loader2 className="w-3 h-3 animate-spin" /> : <ArrowDownToLine className="w-3 h-3" />}
+      Withdraw {formatEther(amount)} ETH
+    </Button>
+  );
+}
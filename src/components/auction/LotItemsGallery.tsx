@@ -0,0 +1,82 @@
+import { ImageOff, Layers } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { useLotItemMetadata } from "@/hooks/useLotItemMetadata";
+import { resolveMetadataUrl, truncateHex, type LotItem } from "@/lib/lots";
+
+interface LotItemsGalleryProps {
+  items: LotItem[];
+  /** `strip` fits a lot card, `grid` lists every item with its details */
+  variant?: "strip" | "grid";
+}
+
+const STRIP_LIMIT = 4;
+
+const itemKey = (item: LotItem) => `${item.token}:${item.tokenId.toString()}`;
+
+function ItemThumbnail({ item, className }: { item: LotItem; className: string }) {
+  const { data: metadata } = useLotItemMetadata(item);
+  const name = metadata?.name ?? `#${item.tokenId.toString()}`;
+
+  return metadata?.image ? (
+    <img src={resolveMetadataUrl(metadata.image)} alt={name} className={`${className} object-cover`} />
+  ) : (
+    <div className={`${className} flex items-center justify-center bg-secondary text-muted-foreground`}>
+      <ImageOff className="w-4 h-4" />
+    </div>
+  );
+}
+
+function ItemTile({ item }: { item: LotItem }) {
+  const { data: metadata } = useLotItemMetadata(item);
+
+  return (
+    <div className="rounded-lg border border-border bg-secondary/50 overflow-hidden">
+      <ItemThumbnail item={item} className="w-full aspect-square" />
+      <div className="p-2 space-y-1">
+        <p className="text-xs font-medium text-foreground line-clamp-1">
+          {metadata?.name ?? `Token #${item.tokenId.toString()}`}
+        </p>
+        <div className="flex items-center justify-between gap-1">
+          <span className="font-mono text-[10px] text-muted-foreground">{truncateHex(item.token, 3)}</span>
+          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+            {item.standard === "erc1155" ? `ERC-1155 ×${item.amount.toString()}` : "ERC-721"}
+          </Badge>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * LotItemsGallery Component
+ *
+ * Shows the tokens a lot holds in escrow, loading each item's artwork from its
+ * on-chain token URI.
+ */
+export function LotItemsGallery({ items, variant = "grid" }: LotItemsGalleryProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  if (variant === "strip") {
+    const hidden = items.length - STRIP_LIMIT;
+    return (
+      <div className="flex items-center gap-1.5">
+        <Layers className="w-3 h-3 text-muted-foreground" />
+        {items.slice(0, STRIP_LIMIT).map((item) => (
+          <ItemThumbnail key={itemKey(item)} item={item} className="w-8 h-8 rounded-md border border-border" />
+        ))}
+        {hidden > 0 && <span className="text-xs text-muted-foreground">+{hidden}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+      {items.map((item) => (
+        <ItemTile key={itemKey(item)} item={item} />
+      ))}
+    </div>
+  );
+}
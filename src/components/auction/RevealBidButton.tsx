@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { formatEther } from "viem";
+import { toast } from "sonner";
+import { Eye, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useUserDecrypt } from "@/hooks/useUserDecrypt";
+import { appEnv } from "@/config/env";
+import { isZeroHash } from "@/lib/lots";
+
+interface RevealBidButtonProps {
+  encryptedAmount: `0x${string}`;
+  size?: "default" | "sm";
+}
+
+/**
+ * RevealBidButton Component
+ *
+ * Decrypts the connected wallet's own sealed bid from its `getBid` handle and
+ * shows the amount in place. Nothing is revealed on-chain.
+ */
+export function RevealBidButton({ encryptedAmount, size = "sm" }: RevealBidButtonProps) {
+  const { canDecrypt, decryptBid } = useUserDecrypt();
+  const [amount, setAmount] = useState<bigint | null>(null);
+  const [revealing, setRevealing] = useState(false);
+
+  if (amount !== null) {
+    return <span className="font-medium text-primary">{formatEther(amount)} ETH</span>;
+  }
+
+  const handleReveal = async () => {
+    if (!appEnv.contractAddress) {
+      toast.error("Contract address not configured.");
+      return;
+    }
+    try {
+      setRevealing(true);
+      setAmount(await decryptBid(appEnv.contractAddress as `0x${string}`, encryptedAmount));
+    } catch (error) {
+      console.error("[RevealBid] Decryption failed:", error);
+      toast.error(error instanceof Error ? error.message : "Unable to reveal your bid");
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size={size}
+      className="gap-2"
+      onClick={handleReveal}
+      disabled={!canDecrypt || revealing || isZeroHash(encryptedAmount)}
+    >
+      {revealing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Eye className="w-3 h-3" />}
+      Reveal my bid
+    </Button>
+  );
+}
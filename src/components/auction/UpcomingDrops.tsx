@@ -0,0 +1,92 @@
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { CalendarClock, Timer } from "lucide-react";
+
+import { Card } from "@/components/ui/card";
+import { useLotMetadata } from "@/hooks/useLotMetadata";
+import { useNow } from "@/hooks/useNow";
+import {
+  auctionTypeLabel,
+  deriveStatus,
+  lotArtwork,
+  lotPath,
+  resolveMetadataUrl,
+  type LotSummary,
+} from "@/lib/lots";
+
+interface UpcomingDropsProps {
+  lots: LotSummary[];
+}
+
+/**
+ * Whole days, hours, minutes and seconds until a start time, e.g. `2d 04:12:05`.
+ */
+const formatCountdown = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const clock = [Math.floor((seconds % 86400) / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+function UpcomingDrop({ lot, now }: { lot: LotSummary; now: number }) {
+  const { data: metadata } = useLotMetadata(lot.metadataURI);
+
+  return (
+    <Link
+      to={lotPath(lot.id)}
+      className="flex items-center gap-3 p-3 rounded-lg border border-border bg-secondary/40 hover:border-primary/50 transition-colors"
+    >
+      <img
+        src={metadata?.image ? resolveMetadataUrl(metadata.image) : lotArtwork(lot.id)}
+        alt={metadata?.name ?? `Lot #${lot.id.toString()}`}
+        className="w-12 h-12 rounded-md object-cover"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold text-foreground line-clamp-1">
+          {metadata?.name ?? `Lot #${lot.id.toString().padStart(3, "0")}`}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {auctionTypeLabel(lot.auctionType)} · {format(new Date(lot.startTime * 1000), "PPp")}
+        </p>
+      </div>
+      <div className="flex items-center gap-1.5 text-sm font-mono font-semibold text-primary">
+        <Timer className="w-4 h-4" />
+        {formatCountdown(Math.max(lot.startTime - now, 0))}
+      </div>
+    </Link>
+  );
+}
+
+/**
+ * UpcomingDrops Component
+ *
+ * Lists scheduled lots that have not opened for bidding yet, soonest first, each with a
+ * live countdown to its start. A lot leaves the list as soon as its window opens.
+ */
+export function UpcomingDrops({ lots }: UpcomingDropsProps) {
+  const now = useNow();
+  // deriveStatus reads the clock itself; `now` re-renders the list every second
+  const upcoming = lots
+    .filter((lot) => deriveStatus(lot.startTime, lot.endTime, lot.closed, lot.cancelled) === "upcoming")
+    .sort((a, b) => a.startTime - b.startTime);
+
+  if (upcoming.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="glass-card p-6 space-y-4 mb-6">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Upcoming drops</h2>
+        <span className="ml-auto text-xs text-muted-foreground">{upcoming.length} scheduled</span>
+      </div>
+      <div className="grid md:grid-cols-2 gap-3">
+        {upcoming.map((lot) => (
+          <UpcomingDrop key={lot.id.toString()} lot={lot} now={now} />
+        ))}
+      </div>
+    </Card>
+  );
+}
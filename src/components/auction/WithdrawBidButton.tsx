@@ -0,0 +1,134 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { usePublicClient, useWalletClient } from "wagmi";
+import { keccak256, toUtf8Bytes } from "ethers";
+import { type Address } from "viem";
+import { toast } from "sonner";
+import { Loader2, Undo2 } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useBidVault } from "@/hooks/useBidVault";
+import { appEnv } from "@/config/env";
+import { blindBidAbi, writeContract } from "@/lib/contracts";
+
+interface WithdrawBidButtonProps {
+  lotId: bigint;
+  /** Salt hash of the sealed bid, used to find its salt in the bid vault */
+  saltHash: `0x${string}`;
+}
+
+/**
+ * WithdrawBidButton Component
+ *
+ * Pulls a sealed bid from a lot that is still open and refunds its deposit. The
+ * confirmation dialog reveals the bid's salt as proof of ownership, taken from the
+ * bid vault when it holds the receipt.
+ */
+export function WithdrawBidButton({ lotId, saltHash }: WithdrawBidButtonProps) {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { receipts } = useBidVault();
+  const [open, setOpen] = useState(false);
+  const [manualSalt, setManualSalt] = useState("");
+  const [withdrawing, setWithdrawing] = useState(false);
+
+  const receipt = useMemo(
+    () => receipts.find((candidate) => candidate.saltHash.toLowerCase() === saltHash.toLowerCase()),
+    [receipts, saltHash],
+  );
+  const salt = receipt?.salt ?? manualSalt.trim();
+  const saltMatches = salt !== "" && keccak256(toUtf8Bytes(salt)) === saltHash;
+
+  const handleWithdraw = async () => {
+    if (!walletClient || !appEnv.contractAddress) {
+      toast.error("Unable to access the connected wallet.");
+      return;
+    }
+    try {
+      setWithdrawing(true);
+      const hash = await writeContract(walletClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName: "withdrawBid",
+        args: [lotId, salt],
+      });
+      if (publicClient) {
+        await publicClient.waitForTransactionReceipt({ hash });
+      }
+      toast.success(`Bid on lot #${lotId.toString()} withdrawn`, {
+        description: "Your deposit has been refunded.",
+      });
+      setOpen(false);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lots"] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "lot", lotId.toString()] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "bid", lotId.toString()] }),
+        queryClient.invalidateQueries({ queryKey: ["blindbid", "my-bids"] }),
+      ]);
+    } catch (error) {
+      console.error("[WithdrawBid] Withdraw failed:", error);
+      toast.error("Withdraw failed", {
+        description: error instanceof Error ? error.message : "Transaction reverted.",
+      });
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={!walletClient}>
+          <Undo2 className="w-3 h-3" />
+          Withdraw bid
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Withdraw your bid on lot #{lotId.toString()}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your sealed bid is removed and the deposit is refunded right away. You can bid again with a new salt
+            while the lot is open.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {receipt ? (
+          <p className="text-sm text-muted-foreground">The salt proving this bid is yours was found in your bid vault.</p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor={`withdraw-salt-${lotId.toString()}`}>Bid salt</Label>
+            <Input
+              id={`withdraw-salt-${lotId.toString()}`}
+              className="font-mono"
+              placeholder="Salt of this bid"
+              value={manualSalt}
+              onChange={(event) => setManualSalt(event.target.value)}
+            />
+            {manualSalt.trim() !== "" && !saltMatches && (
+              <p className="text-xs text-destructive">This salt does not match your sealed bid.</p>
+            )}
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={withdrawing}>Keep bid</AlertDialogCancel>
+          <Button variant="destructive" className="gap-2" onClick={handleWithdraw} disabled={withdrawing || !saltMatches}>
+            {withdrawing && <Loader2 className="w-4 h-4 animate-spin" />}
+            Withdraw bid
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -24,6 +24,9 @@ export default function Header() {
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const isHome = location.pathname === "/";
+  const isAuctions = location.pathname.startsWith("/auctions");
+  const isMyBids = location.pathname.startsWith("/me/bids");
+  const isCurator = location.pathname.startsWith("/me/lots");
 
   /**
    * Close mobile menu when navigating
@@ -63,11 +66,27 @@ export default function Header() {
             <Link
               to="/auctions"
               className={`font-medium transition-colors hover:text-primary ${
-                !isHome ? "text-primary" : "text-muted-foreground"
+                isAuctions ? "text-primary" : "text-muted-foreground"
               }`}
             >
               Auctions
             </Link>
+            <Link
+              to="/me/bids"
+              className={`font-medium transition-colors hover:text-primary ${
+                isMyBids ? "text-primary" : "text-muted-foreground"
+              }`}
+            >
+              My Bids
+            </Link>
+            <Link
+              to="/me/lots"
+              className={`font-medium transition-colors hover:text-primary ${
+                isCurator ? "text-primary" : "text-muted-foreground"
+              }`}
+            >
+              My Lots
+            </Link>
             <Link
               to="/#features"
               className="font-medium text-muted-foreground hover:text-primary transition-colors"
@@ -134,7 +153,7 @@ export default function Header() {
               <Link
                 to="/auctions"
                 className={`font-medium transition-colors px-2 py-1 rounded ${
-                  !isHome
+                  isAuctions
                     ? "text-primary bg-primary/10"
                     : "text-muted-foreground hover:text-primary hover:bg-primary/5"
                 }`}
@@ -142,6 +161,28 @@ export default function Header() {
               >
                 Auctions
               </Link>
+              <Link
+                to="/me/bids"
+                className={`font-medium transition-colors px-2 py-1 rounded ${
+                  isMyBids
+                    ? "text-primary bg-primary/10"
+                    : "text-muted-foreground hover:text-primary hover:bg-primary/5"
+                }`}
+                onClick={closeMobileMenu}
+              >
+                My Bids
+              </Link>
+              <Link
+                to="/me/lots"
+                className={`font-medium transition-colors px-2 py-1 rounded ${
+                  isCurator
+                    ? "text-primary bg-primary/10"
+                    : "text-muted-foreground hover:text-primary hover:bg-primary/5"
+                }`}
+                onClick={closeMobileMenu}
+              >
+                My Lots
+              </Link>
               <Link
                 to="/#features"
                 className="font-medium text-muted-foreground hover:text-primary hover:bg-primary/5 transition-colors px-2 py-1 rounded"
@@ -10,7 +10,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { sepolia } from "wagmi/chains";
+import { appChain } from "@/config/chain";
 
 interface WalletConnectModalProps {
   open: boolean;
@@ -48,7 +48,7 @@ export const WalletConnectModal = ({ open, onOpenChange }: WalletConnectModalPro
   const [connectionError, setConnectionError] = useState<string | null>(null);
 
   // Check if current network is Sepolia
-  const isWrongNetwork = isConnected && chain?.id !== sepolia.id;
+  const isWrongNetwork = isConnected && chain?.id !== appChain.id;
 
   /**
    * Handle wallet connection
@@ -64,7 +64,7 @@ export const WalletConnectModal = ({ open, onOpenChange }: WalletConnectModalPro
    */
   const handleSwitchNetwork = () => {
     if (switchNetwork) {
-      switchNetwork(sepolia.id);
+      switchNetwork(appChain.id);
     }
   };
 
@@ -116,7 +116,7 @@ export const WalletConnectModal = ({ open, onOpenChange }: WalletConnectModalPro
                   <AlertDescription>
                     <div className="font-medium mb-2">Wrong Network</div>
                     <div className="text-sm mb-3">
-                      BlindBid only works on Sepolia testnet. Please switch your network.
+                      BlindBid only works on {appChain.name}. Please switch your network.
                     </div>
                     <Button
                       size="sm"
@@ -124,7 +124,7 @@ export const WalletConnectModal = ({ open, onOpenChange }: WalletConnectModalPro
                       onClick={handleSwitchNetwork}
                       disabled={!switchNetwork}
                     >
-                      Switch to Sepolia
+                      Switch to {appChain.name}
                     </Button>
                   </AlertDescription>
                 </Alert>
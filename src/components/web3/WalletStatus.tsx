@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useAccount, useNetwork, useSwitchNetwork } from "wagmi";
-import { sepolia } from "wagmi/chains";
+import { appChain } from "@/config/chain";
 import { Wallet, ChevronDown, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -47,14 +47,14 @@ export const WalletStatus = () => {
   const [modalOpen, setModalOpen] = useState(false);
 
   // Check if connected to wrong network
-  const isWrongNetwork = isConnected && chain?.id !== sepolia.id;
+  const isWrongNetwork = isConnected && chain?.id !== appChain.id;
 
   /**
    * Handle network switch to Sepolia
    */
   const handleSwitchNetwork = () => {
     if (switchNetwork) {
-      switchNetwork(sepolia.id);
+      switchNetwork(appChain.id);
     }
   };
 
@@ -0,0 +1,15 @@
+import { hardhat, sepolia } from "wagmi/chains";
+
+import { appEnv } from "@/config/env";
+
+/**
+ * Chain the marketplace runs on: Sepolia against Zama's relayer, or the local Hardhat
+ * node (`npx hardhat node`) when the mock FHE backend is selected.
+ */
+export const appChain = appEnv.fheBackend === "mock" ? hardhat : sepolia;
+
+/**
+ * Explorer page for a transaction, or null on chains without an explorer.
+ */
+export const explorerTxUrl = (hash: string) =>
+  appChain.blockExplorers ? `${appChain.blockExplorers.default.url}/tx/${hash}` : null;
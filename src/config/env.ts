@@ -10,22 +10,52 @@ const envSchema = z.object({
     .regex(/^0x[a-fA-F0-9]{40}$/)
     .optional(),
   VITE_APP_RPC_URL: z.string().url().optional(),
+  VITE_APP_WS_RPC_URL: z.string().url().optional(),
   VITE_APP_RELAYER_URL: z.string().url().optional(),
   VITE_APP_WALLETCONNECT_ID: z.string().optional(),
+  VITE_APP_DEPLOYMENT_BLOCK: z.string().regex(/^\d+$/).optional(),
+  VITE_APP_DECRYPT_PERMIT_DAYS: z.string().regex(/^[1-9]\d*$/).optional(),
+  VITE_APP_FHE_BACKEND: z.enum(["relayer", "mock"]).optional(),
 });
 
-const parsed = envSchema.safeParse(import.meta.env);
+/**
+ * Treat `KEY=` lines (as copied from .env.example) as unset, so one blank optional
+ * variable does not fail the whole schema and drop every other setting.
+ */
+const withoutEmptyValues = (env: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(env).filter(([, value]) => value !== ""));
+
+const parsed = envSchema.safeParse(withoutEmptyValues(import.meta.env));
 
 const FALLBACK_RPC_URL = "https://sepolia.drpc.org";
+// The fhEVM mock only exists on a local Hardhat node (`npx hardhat node`)
+const FALLBACK_MOCK_RPC_URL = "http://127.0.0.1:8545";
 const FALLBACK_RELAYER_URL = "https://relayer.testnet.zama.cloud";
 
+const fheBackend: FheBackendName =
+  parsed.success && parsed.data.VITE_APP_FHE_BACKEND ? parsed.data.VITE_APP_FHE_BACKEND : "relayer";
+
 export const appEnv = {
   contractAddress: parsed.success ? parsed.data.VITE_APP_CONTRACT_ADDRESS ?? null : null,
-  rpcUrl: parsed.success && parsed.data.VITE_APP_RPC_URL ? parsed.data.VITE_APP_RPC_URL : FALLBACK_RPC_URL,
+  rpcUrl:
+    parsed.success && parsed.data.VITE_APP_RPC_URL
+      ? parsed.data.VITE_APP_RPC_URL
+      : fheBackend === "mock"
+        ? FALLBACK_MOCK_RPC_URL
+        : FALLBACK_RPC_URL,
+  wsRpcUrl: parsed.success && parsed.data.VITE_APP_WS_RPC_URL ? parsed.data.VITE_APP_WS_RPC_URL : null,
   relayerUrl:
     parsed.success && parsed.data.VITE_APP_RELAYER_URL ? parsed.data.VITE_APP_RELAYER_URL : FALLBACK_RELAYER_URL,
   walletConnectProjectId:
     parsed.success && parsed.data.VITE_APP_WALLETCONNECT_ID ? parsed.data.VITE_APP_WALLETCONNECT_ID : "",
+  deploymentBlock:
+    parsed.success && parsed.data.VITE_APP_DEPLOYMENT_BLOCK ? BigInt(parsed.data.VITE_APP_DEPLOYMENT_BLOCK) : 0n,
+  decryptPermitDays:
+    parsed.success && parsed.data.VITE_APP_DECRYPT_PERMIT_DAYS ? Number(parsed.data.VITE_APP_DECRYPT_PERMIT_DAYS) : 1,
+  /** "mock" targets a local Hardhat node running the fhEVM mock coprocessor instead of Zama's relayer */
+  fheBackend,
 };
 
+export type FheBackendName = "relayer" | "mock";
+
 export type RuntimeEnv = typeof appEnv;
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, usePublicClient } from "wagmi";
+import { type Address } from "viem";
+
+import { appEnv } from "@/config/env";
+import { blindBidAbi, readContract } from "@/lib/contracts";
+import { isZeroHash } from "@/lib/lots";
+
+export interface BidEnvelope {
+  encryptedAmount: `0x${string}`;
+  saltHash: `0x${string}`;
+  submittedAt: number;
+  index: number;
+  isSealed: boolean;
+}
+
+type RawBidEnvelope = readonly [`0x${string}`, `0x${string}`, bigint, bigint | number, boolean];
+
+export const transformBidEnvelope = ([encryptedAmount, saltHash, submittedAt, index, isSealed]: RawBidEnvelope): BidEnvelope => ({
+  encryptedAmount,
+  saltHash,
+  submittedAt: Number(submittedAt),
+  index: Number(index),
+  isSealed,
+});
+
+/**
+ * Reads the connected wallet's own bid envelope for a lot via `getBid`.
+ * Resolves to null when the wallet has not bid on the lot.
+ */
+export const useBidEnvelope = (lotId: bigint | null) => {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+
+  return useQuery<BidEnvelope | null>({
+    queryKey: ["blindbid", "bid", lotId?.toString(), address],
+    enabled: Boolean(publicClient && appEnv.contractAddress && address && lotId !== null),
+    queryFn: async () => {
+      if (!publicClient || !appEnv.contractAddress || !address || lotId === null) {
+        return null;
+      }
+
+      // getBid only answers the bidder, the curator or the owner, so the call is made from the wallet
+      const raw = (await readContract(publicClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName: "getBid",
+        args: [lotId, address],
+        account: address,
+      })) as RawBidEnvelope;
+
+      const envelope = transformBidEnvelope(raw);
+      return isZeroHash(envelope.saltHash) ? null : envelope;
+    },
+  });
+};
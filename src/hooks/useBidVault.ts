@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useWalletClient } from "wagmi";
+
+import {
+  addBidReceipt,
+  getBidVaultState,
+  lockBidVault,
+  onBidVaultChange,
+  unlockBidVault,
+  type BidReceipt,
+  type BidVaultState,
+} from "@/lib/bidVault";
+
+/**
+ * React binding for the connected wallet's bid receipt vault.
+ */
+export const useBidVault = () => {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const [state, setState] = useState<BidVaultState>(() =>
+    address ? getBidVaultState(address) : { status: "locked" },
+  );
+
+  useEffect(() => {
+    if (!address) {
+      setState({ status: "locked" });
+      return;
+    }
+    setState(getBidVaultState(address));
+    return onBidVaultChange((changed) => {
+      if (changed === address.toLowerCase()) {
+        setState(getBidVaultState(address));
+      }
+    });
+  }, [address]);
+
+  const unlock = useCallback(async () => {
+    if (!address || !walletClient) {
+      throw new Error("Connect your wallet to open the bid vault.");
+    }
+    return unlockBidVault(address, (message) => walletClient.signMessage({ account: address, message }));
+  }, [address, walletClient]);
+
+  const lock = useCallback(() => {
+    if (address) lockBidVault(address);
+  }, [address]);
+
+  /**
+   * Store a receipt, prompting for the unlock signature first if needed.
+   */
+  const saveReceipt = useCallback(
+    async (receipt: BidReceipt) => {
+      if (!address) {
+        throw new Error("Connect your wallet to save the bid receipt.");
+      }
+      await unlock();
+      await addBidReceipt(address, receipt);
+    },
+    [address, unlock],
+  );
+
+  return {
+    address,
+    state,
+    receipts: state.status === "unlocked" ? state.receipts : [],
+    unlock,
+    lock,
+    saveReceipt,
+  };
+};
@@ -0,0 +1,81 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { usePublicClient, useWebSocketPublicClient } from "wagmi";
+import { type Address } from "viem";
+
+import { appEnv } from "@/config/env";
+import { blindBidAbi } from "@/lib/contracts";
+import { applyLotEvent, type LotEventLog } from "@/lib/lotIndex";
+import type { LotSummary } from "@/lib/lots";
+
+const LIVE_EVENT_NAMES = [
+  "BidSubmitted",
+  "BidWithdrawn",
+  "EndTimeExtended",
+  "LotClosed",
+  "LotCancelled",
+  "RevealRequested",
+  "RevealSettled",
+  "WinnersSettled",
+  "LotUnsold",
+] as const;
+
+/**
+ * Patch the cached lot list in place, keeping the existing order.
+ */
+const patchLotList = (lots: LotSummary[] | undefined, log: LotEventLog) => {
+  if (!lots) return lots;
+  const byId = new Map(lots.map((lot) => [lot.id.toString(), lot]));
+  const lotId = applyLotEvent(byId, log);
+  if (lotId === null) return lots;
+  return lots.map((lot) => byId.get(lot.id.toString()) ?? lot);
+};
+
+const patchSingleLot = (lot: LotSummary | null | undefined, log: LotEventLog) => {
+  if (!lot) return lot;
+  const byId = new Map([[lot.id.toString(), lot]]);
+  applyLotEvent(byId, log);
+  return byId.get(lot.id.toString()) ?? lot;
+};
+
+/**
+ * Subscribes to BidSubmitted, BidWithdrawn, EndTimeExtended, LotClosed, LotCancelled, RevealRequested, RevealSettled, WinnersSettled and LotUnsold and patches the React Query
+ * lot caches as soon as the events land, instead of waiting for the next index sync.
+ *
+ * Uses the WebSocket public client when VITE_APP_WS_RPC_URL is configured and falls
+ * back to HTTP log polling otherwise.
+ */
+export const useLiveLotUpdates = () => {
+  const publicClient = usePublicClient();
+  const webSocketPublicClient = useWebSocketPublicClient();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const client = webSocketPublicClient ?? publicClient;
+    if (!client || !appEnv.contractAddress) {
+      return;
+    }
+
+    const unwatchers = LIVE_EVENT_NAMES.map((eventName) =>
+      client.watchContractEvent({
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        eventName,
+        onLogs: (logs) => {
+          (logs as unknown as LotEventLog[]).forEach((log) => {
+            const lotId = (log.args.lotId as bigint | undefined)?.toString();
+            queryClient.setQueryData<LotSummary[]>(["blindbid", "lots"], (lots) => patchLotList(lots, log));
+            if (lotId) {
+              queryClient.setQueryData<LotSummary | null>(["blindbid", "lot", lotId], (lot) =>
+                patchSingleLot(lot, log),
+              );
+            }
+          });
+        },
+        onError: (error) => console.warn(`[LiveLots] ${eventName} subscription error:`, error),
+      }),
+    );
+
+    return () => unwatchers.forEach((unwatch) => unwatch());
+  }, [publicClient, webSocketPublicClient, queryClient]);
+};
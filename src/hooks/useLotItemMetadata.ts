@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { erc1155Abi, erc721Abi, type Address } from "viem";
+
+import type { NFTMetadata } from "@/hooks/useLotMetadata";
+import { readContract } from "@/lib/contracts";
+import { resolveMetadataUrl, type LotItem } from "@/lib/lots";
+
+/**
+ * ERC-1155 URIs may contain an `{id}` placeholder for the zero-padded hex token id.
+ */
+const expandTokenUri = (uri: string, tokenId: bigint) =>
+  uri.replace("{id}", tokenId.toString(16).padStart(64, "0"));
+
+/**
+ * Fetches the token metadata of one escrowed bundle item through `tokenURI` (ERC-721)
+ * or `uri` (ERC-1155).
+ */
+export const useLotItemMetadata = (item: LotItem) => {
+  const publicClient = usePublicClient();
+
+  return useQuery<NFTMetadata | null>({
+    queryKey: ["blindbid", "item-metadata", item.token.toLowerCase(), item.tokenId.toString()],
+    enabled: Boolean(publicClient),
+    staleTime: Infinity,
+    queryFn: async () => {
+      if (!publicClient) {
+        return null;
+      }
+      try {
+        const uri =
+          item.standard === "erc721"
+            ? await readContract<string>(publicClient, {
+                address: item.token as Address,
+                abi: erc721Abi,
+                functionName: "tokenURI",
+                args: [item.tokenId],
+              })
+            : await readContract<string>(publicClient, {
+                address: item.token as Address,
+                abi: erc1155Abi,
+                functionName: "uri",
+                args: [item.tokenId],
+              });
+        if (!uri) {
+          return null;
+        }
+        const response = await fetch(resolveMetadataUrl(expandTokenUri(uri, item.tokenId)));
+        if (!response.ok) {
+          return null;
+        }
+        return (await response.json()) as NFTMetadata;
+      } catch (error) {
+        console.error(`Failed to fetch metadata for ${item.token} #${item.tokenId}:`, error);
+        return null;
+      }
+    },
+  });
+};
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { resolveMetadataUrl } from "@/lib/lots";
+
+export interface NFTMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  attributes?: Array<{ trait_type: string; value: string | number }>;
+}
+
+/**
+ * Fetches the off-chain NFT metadata referenced by a lot's metadataURI.
+ */
+export const useLotMetadata = (metadataURI: string | undefined) =>
+  useQuery<NFTMetadata | null>({
+    queryKey: ["blindbid", "metadata", metadataURI],
+    enabled: Boolean(metadataURI && metadataURI.length >= 10),
+    staleTime: Infinity,
+    queryFn: async () => {
+      try {
+        const response = await fetch(resolveMetadataUrl(metadataURI as string));
+        if (!response.ok) {
+          return null;
+        }
+        return (await response.json()) as NFTMetadata;
+      } catch (error) {
+        console.error(`Failed to fetch metadata from ${metadataURI}:`, error);
+        return null;
+      }
+    },
+  });
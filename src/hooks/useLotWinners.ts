@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { type Address } from "viem";
+
+import { appEnv } from "@/config/env";
+import { blindBidAbi, readContract } from "@/lib/contracts";
+import type { LotSummary } from "@/lib/lots";
+
+/**
+ * Reads the winners of a settled lot through `getWinners`, highest bid first.
+ * Only uniform-price lots have more than the single `winner` the lot already carries.
+ */
+export const useLotWinners = (lot: Pick<LotSummary, "id" | "settled" | "winnerCount"> | null | undefined) => {
+  const publicClient = usePublicClient();
+
+  return useQuery<string[]>({
+    queryKey: ["blindbid", "winners", lot?.id.toString(), lot?.winnerCount],
+    enabled: Boolean(publicClient && appEnv.contractAddress && lot?.settled && lot.winnerCount > 0),
+    staleTime: Infinity,
+    queryFn: async () => {
+      if (!publicClient || !appEnv.contractAddress || !lot) {
+        return [];
+      }
+      return (await readContract(publicClient, {
+        address: appEnv.contractAddress as Address,
+        abi: blindBidAbi,
+        functionName: "getWinners",
+        args: [lot.id],
+      })) as string[];
+    },
+  });
+};
@@ -1,100 +1,78 @@
 import { useQuery } from "@tanstack/react-query";
 import { usePublicClient } from "wagmi";
-import { type Address } from "viem";
+import { BaseError, ContractFunctionRevertedError, type Address } from "viem";
 
 import { appEnv } from "@/config/env";
-import blindBidAbi from "@/abi/BlindBidAuction.json";
+import { blindBidAbi, readContract } from "@/lib/contracts";
+import { syncLotIndex } from "@/lib/lotIndex";
+import { transformLot, type LotSummary, type RawLot } from "@/lib/lots";
 
-export interface LotSummary {
-  id: bigint;
-  curator: string;
-  startTime: number;
-  endTime: number;
-  closed: boolean;
-  revealRequested: boolean;
-  settled: boolean;
-  bidCount: number;
-  encryptedReserve: `0x${string}`;
-  encryptedWinningBid: `0x${string}`;
-  encryptedWinningIndex: `0x${string}`;
-  winner: string;
-  revealedAmount: bigint;
-  metadataURI: string;
-}
+export type { LotSummary } from "@/lib/lots";
 
-type RawLot = {
-  curator: string;
-  startTime: bigint;
-  endTime: bigint;
-  closed: boolean;
-  revealRequested: boolean;
-  settled: boolean;
-  bidCount: bigint;
-  encryptedReserve: `0x${string}`;
-  encryptedWinningBid: `0x${string}`;
-  encryptedWinningIndex: `0x${string}`;
-  winner: string;
-  revealedAmount: bigint;
-  metadataURI: string;
-};
+interface UseLotsOptions {
+  /** Keep lots the curator cancelled; the marketplace hides them */
+  includeCancelled?: boolean;
+}
 
-const transformLot = (id: bigint, lot: RawLot): LotSummary => ({
-  id,
-  curator: lot.curator,
-  startTime: Number(lot.startTime),
-  endTime: Number(lot.endTime),
-  closed: lot.closed,
-  revealRequested: lot.revealRequested,
-  settled: lot.settled,
-  bidCount: Number(lot.bidCount),
-  encryptedReserve: lot.encryptedReserve,
-  encryptedWinningBid: lot.encryptedWinningBid,
-  encryptedWinningIndex: lot.encryptedWinningIndex,
-  winner: lot.winner,
-  revealedAmount: BigInt(lot.revealedAmount ?? 0n),
-  metadataURI: lot.metadataURI,
-});
+const withoutCancelled = (lots: LotSummary[]) => lots.filter((lot) => !lot.cancelled);
 
 /**
- * Fetches the live lot catalogue from the BlindBid contract.
+ * Fetches the live lot catalogue from the persisted event index.
+ * Each refresh only scans blocks mined since the previous sync.
  */
-export const useLots = () => {
+export const useLots = ({ includeCancelled = false }: UseLotsOptions = {}) => {
   const publicClient = usePublicClient();
 
   return useQuery<LotSummary[]>({
     queryKey: ["blindbid", "lots"],
     enabled: Boolean(publicClient && appEnv.contractAddress),
     refetchInterval: 30000,
+    // The cache keeps every lot so live event patches can reach cancelled ones too
+    select: includeCancelled ? undefined : withoutCancelled,
     queryFn: async () => {
       if (!publicClient || !appEnv.contractAddress) {
         return [];
       }
 
-      const contractAddress = appEnv.contractAddress as Address;
-      const lotIds = (await publicClient.readContract({
-        address: contractAddress,
-        abi: blindBidAbi,
-        functionName: "getAllLotIds",
-      })) as bigint[];
+      return syncLotIndex(publicClient, appEnv.contractAddress as Address, appEnv.deploymentBlock);
+    },
+  });
+};
 
-      if (!lotIds.length) {
-        return [];
-      }
+/**
+ * Fetches a single lot for the detail page. Resolves to null when the lot does not exist.
+ */
+export const useLot = (lotId: bigint | null) => {
+  const publicClient = usePublicClient();
 
-      const lots = await Promise.all(
-        lotIds.map(async (lotId) => {
-          const lot = (await publicClient.readContract({
-            address: contractAddress,
-            abi: blindBidAbi,
-            functionName: "getLot",
-            args: [lotId],
-          })) as RawLot;
+  return useQuery<LotSummary | null>({
+    queryKey: ["blindbid", "lot", lotId?.toString()],
+    enabled: Boolean(publicClient && appEnv.contractAddress && lotId !== null),
+    refetchInterval: 30000,
+    queryFn: async () => {
+      if (!publicClient || !appEnv.contractAddress || lotId === null) {
+        return null;
+      }
 
-          return transformLot(lotId, lot);
-        }),
-      );
+      try {
+        const lot = (await readContract(publicClient, {
+          address: appEnv.contractAddress as Address,
+          abi: blindBidAbi,
+          functionName: "getLot",
+          args: [lotId],
+        })) as RawLot;
 
-      return lots.sort((a, b) => b.startTime - a.startTime);
+        return transformLot(lotId, lot);
+      } catch (error) {
+        // getLot reverts with LotNotFound for unknown ids; anything else is a transport failure
+        if (error instanceof BaseError) {
+          const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+          if (revert instanceof ContractFunctionRevertedError && revert.data?.errorName === "LotNotFound") {
+            return null;
+          }
+        }
+        throw error;
+      }
     },
   });
 };
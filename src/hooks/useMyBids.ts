@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, usePublicClient } from "wagmi";
+import { type Address } from "viem";
+
+import { appEnv } from "@/config/env";
+import { blindBidAbi, readContract } from "@/lib/contracts";
+import { transformBidEnvelope, type BidEnvelope } from "@/hooks/useBidEnvelope";
+import { useLots } from "@/hooks/useLots";
+import { syncBidderLots } from "@/lib/lotIndex";
+import { isZeroHash, type LotSummary } from "@/lib/lots";
+
+export interface MyBid {
+  lotId: bigint;
+  saltHash: `0x${string}`;
+  blockNumber: bigint | null;
+  envelope: BidEnvelope;
+  /** Escrow still claimable through `withdrawDeposit` */
+  deposit: bigint;
+  /** Winners recorded at settlement; several on uniform-price lots */
+  winners: string[];
+  lot: LotSummary | undefined;
+  isWinner: boolean;
+}
+
+type MyBidRecord = Omit<MyBid, "lot" | "isWinner">;
+
+/**
+ * Finds every lot the connected wallet bid on from its `BidSubmitted` history (persisted
+ * and scanned incrementally by syncBidderLots) and reads the current envelope, escrowed
+ * deposit and winners for each through `getBid`, `getDeposit` and `getWinners`.
+ */
+export const useMyBids = () => {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: lots = [], isLoading: loadingLots } = useLots();
+
+  const query = useQuery<MyBidRecord[]>({
+    queryKey: ["blindbid", "my-bids", address],
+    enabled: Boolean(publicClient && appEnv.contractAddress && address),
+    refetchInterval: 30000,
+    queryFn: async () => {
+      if (!publicClient || !appEnv.contractAddress || !address) {
+        return [];
+      }
+
+      const contractAddress = appEnv.contractAddress as Address;
+      const bidLots = await syncBidderLots(publicClient, contractAddress, address, appEnv.deploymentBlock);
+
+      return Promise.all(
+        bidLots.map(async ({ lotId, blockNumber }) => {
+          const [raw, deposit, winners] = await Promise.all([
+            readContract(publicClient, {
+              address: contractAddress,
+              abi: blindBidAbi,
+              functionName: "getBid",
+              args: [lotId, address],
+              account: address,
+            }),
+            readContract(publicClient, {
+              address: contractAddress,
+              abi: blindBidAbi,
+              functionName: "getDeposit",
+              args: [lotId, address],
+            }),
+            readContract(publicClient, {
+              address: contractAddress,
+              abi: blindBidAbi,
+              functionName: "getWinners",
+              args: [lotId],
+            }),
+          ]);
+
+          const envelope = transformBidEnvelope(raw as Parameters<typeof transformBidEnvelope>[0]);
+          return {
+            lotId,
+            // The envelope holds the latest salt hash once a bid has been replaced
+            saltHash: envelope.saltHash,
+            blockNumber,
+            envelope,
+            deposit: deposit as bigint,
+            winners: winners as string[],
+          };
+        }),
+      );
+    },
+  });
+
+  const bids = useMemo<MyBid[]>(() => {
+    const lotsById = new Map(lots.map((lot) => [lot.id.toString(), lot]));
+    return (query.data ?? [])
+      // A withdrawn bid leaves an empty envelope until the wallet bids again
+      .filter((record) => !isZeroHash(record.envelope.saltHash))
+      .map((record) => {
+        const lot = lotsById.get(record.lotId.toString());
+        return {
+          ...record,
+          lot,
+          isWinner: Boolean(
+            lot?.settled && address && record.winners.some((winner) => winner.toLowerCase() === address.toLowerCase()),
+          ),
+        };
+      })
+      .sort((a, b) => b.envelope.submittedAt - a.envelope.submittedAt);
+  }, [query.data, lots, address]);
+
+  return { ...query, address, bids, isLoading: query.isLoading || loadingLots };
+};
@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Current UNIX time in seconds, re-rendering the caller every `intervalMs`.
+ * Drives countdowns so they follow `endTime` as soft-close extensions move it.
+ */
+export const useNow = (intervalMs = 1000) => {
+  const [now, setNow] = useState(nowInSeconds);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(nowInSeconds()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, usePublicClient } from "wagmi";
+import { erc721Abi, isAddress, type AbiEvent, type Address } from "viem";
+
+import { appEnv } from "@/config/env";
+import { readContract } from "@/lib/contracts";
+import { fetchLogsInRanges } from "@/lib/lotIndex";
+
+const transferEvent = erc721Abi.find((item) => item.type === "event" && item.name === "Transfer") as AbiEvent;
+
+/**
+ * Lists the token ids of an ERC-721 collection the connected wallet currently holds.
+ *
+ * Scans `Transfer` logs into the wallet from the auction's deployment block and keeps
+ * the tokens `ownerOf` still attributes to it, so tokens received earlier than that
+ * block have to be entered by hand.
+ */
+export const useOwnedNfts = (nftContract: string | undefined) => {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const enabled = Boolean(publicClient && address && nftContract && isAddress(nftContract));
+
+  return useQuery<bigint[]>({
+    queryKey: ["blindbid", "owned-nfts", nftContract?.toLowerCase(), address],
+    enabled,
+    staleTime: 30000,
+    queryFn: async () => {
+      if (!publicClient || !address || !nftContract) {
+        return [];
+      }
+
+      const latestBlock = await publicClient.getBlockNumber();
+      const received = new Set<bigint>();
+
+      await fetchLogsInRanges(
+        publicClient,
+        { address: nftContract as Address, event: transferEvent, args: { to: address } },
+        appEnv.deploymentBlock,
+        latestBlock,
+        (logs) => logs.forEach((log) => received.add(log.args.tokenId as bigint)),
+      );
+
+      const owners = await Promise.all(
+        Array.from(received).map((tokenId) =>
+          readContract<Address>(publicClient, {
+            address: nftContract as Address,
+            abi: erc721Abi,
+            functionName: "ownerOf",
+            args: [tokenId],
+          }).catch(() => null),
+        ),
+      );
+
+      return Array.from(received)
+        .filter((_, i) => owners[i]?.toLowerCase() === address.toLowerCase())
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    },
+  });
+};
@@ -0,0 +1,49 @@
+import { useCallback } from "react";
+import { useAccount, useWalletClient } from "wagmi";
+
+import { decryptOwnBid, userDecrypt, type TypedDataSigner } from "@/lib/fhe";
+
+/**
+ * React binding for FHE user decryption with the connected wallet.
+ *
+ * The EIP-712 permit is signed through the wagmi wallet client and cached by
+ * `lib/fhe` for the configured validity window, so repeated reveals only prompt once.
+ */
+export const useUserDecrypt = () => {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+
+  const signTypedData = useCallback<TypedDataSigner>(
+    async ({ domain, types, primaryType, message }) => {
+      if (!address || !walletClient) {
+        throw new Error("Connect your wallet to decrypt.");
+      }
+      // viem derives the domain type itself and rejects an explicit EIP712Domain entry
+      const { EIP712Domain: _domainType, ...messageTypes } = types;
+      return walletClient.signTypedData({ account: address, domain, types: messageTypes, primaryType, message });
+    },
+    [address, walletClient],
+  );
+
+  const decrypt = useCallback(
+    async (contractAddress: `0x${string}`, handles: `0x${string}`[]) => {
+      if (!address) {
+        throw new Error("Connect your wallet to decrypt.");
+      }
+      return userDecrypt(handles, contractAddress, address, signTypedData);
+    },
+    [address, signTypedData],
+  );
+
+  const decryptBid = useCallback(
+    async (contractAddress: `0x${string}`, encryptedAmount: `0x${string}`) => {
+      if (!address) {
+        throw new Error("Connect your wallet to reveal your bid.");
+      }
+      return decryptOwnBid(contractAddress, address, encryptedAmount, signTypedData);
+    },
+    [address, signTypedData],
+  );
+
+  return { address, canDecrypt: Boolean(address && walletClient), decrypt, decryptBid };
+};
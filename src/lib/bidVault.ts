@@ -0,0 +1,381 @@
+/**
+ * Bid Receipt Vault for BlindBid
+ *
+ * The contract only stores `keccak256(salt)`; the salt and the plaintext bid never
+ * leave the browser. This module keeps them in a per-wallet vault persisted to
+ * IndexedDB and encrypted with AES-GCM. The vault key is derived (HKDF-SHA256) from
+ * a wallet signature over a fixed message, so only the wallet owner can reopen it
+ * and nothing secret is ever written in clear.
+ *
+ * Vaults can be exported to and imported from password-protected JSON files
+ * (PBKDF2-SHA256 + AES-GCM) to move receipts between browsers.
+ *
+ * An unlocked vault also holds named secrets for other modules (the FHE decryption
+ * permits), encrypted alongside the receipts but never exported.
+ */
+
+import { createKeyValueStore } from "@/lib/idb";
+
+// ===========================
+// Types
+// ===========================
+
+/**
+ * A single sealed bid as the bidder submitted it.
+ *
+ * Receipts are saved as `pending` before the transaction is sent, so the salt survives a
+ * closed tab, then updated once it confirms or fails. Receipts without a status predate
+ * pending receipts and are confirmed.
+ */
+export interface BidReceipt {
+  contractAddress: string;
+  chainId: number;
+  lotId: string;
+  salt: string;
+  /** Plaintext bid amount in wei, as a decimal string */
+  amount: string;
+  saltHash: `0x${string}`;
+  status?: BidReceiptStatus;
+  /** Set once the wallet has sent the transaction */
+  txHash?: `0x${string}`;
+  /** Set once the transaction is confirmed */
+  blockNumber?: string;
+  createdAt: number;
+}
+
+export type BidReceiptStatus = "pending" | "confirmed" | "failed";
+
+export type BidVaultState =
+  | { status: "locked" }
+  | { status: "unlocking" }
+  | { status: "unlocked"; receipts: BidReceipt[] };
+
+interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+interface PersistedVault extends EncryptedPayload {
+  version: 1;
+}
+
+/**
+ * Decrypted vault contents. Vaults written before secrets existed hold a bare receipt array.
+ */
+interface VaultContents {
+  receipts: BidReceipt[];
+  secrets: Record<string, string>;
+}
+
+/**
+ * Shape of an exported vault file.
+ */
+export interface BidVaultExport extends EncryptedPayload {
+  format: "blindbid-bid-vault";
+  version: 1;
+  address: string;
+  exportedAt: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+}
+
+// ===========================
+// Constants
+// ===========================
+
+const VAULT_VERSION = 1;
+const EXPORT_FORMAT = "blindbid-bid-vault";
+const PBKDF2_ITERATIONS = 310_000;
+const HKDF_INFO = "blindbid-bid-vault-v1";
+
+export const vaultUnlockMessage = (address: string) =>
+  [
+    "BlindBid bid receipt vault",
+    "",
+    "Sign to unlock the encrypted salts and bid amounts stored in this browser.",
+    "This signature never leaves your device and does not authorize any transaction.",
+    "",
+    `Wallet: ${address.toLowerCase()}`,
+  ].join("\n");
+
+// ===========================
+// Module State
+// ===========================
+
+const store = createKeyValueStore<PersistedVault>("blindbid-bid-vault");
+const unlockedVaults = new Map<string, { key: CryptoKey } & VaultContents>();
+const unlocking = new Map<string, Promise<BidReceipt[]>>();
+let stateChangeListeners: ((address: string) => void)[] = [];
+
+const vaultKey = (address: string) => address.toLowerCase();
+
+function notify(address: string) {
+  stateChangeListeners.forEach((listener) => listener(vaultKey(address)));
+}
+
+/**
+ * Subscribe to vault changes (unlock, lock, new receipts).
+ *
+ * @returns Unsubscribe function
+ */
+export function onBidVaultChange(listener: (address: string) => void): () => void {
+  stateChangeListeners.push(listener);
+  return () => {
+    stateChangeListeners = stateChangeListeners.filter((l) => l !== listener);
+  };
+}
+
+/**
+ * Current state of a wallet's vault.
+ */
+export function getBidVaultState(address: string): BidVaultState {
+  const key = vaultKey(address);
+  const vault = unlockedVaults.get(key);
+  if (vault) {
+    return { status: "unlocked", receipts: vault.receipts };
+  }
+  return unlocking.has(key) ? { status: "unlocking" } : { status: "locked" };
+}
+
+// ===========================
+// Crypto Helpers
+// ===========================
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const hexToBytes = (hex: string) => {
+  const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+  return Uint8Array.from(clean.match(/.{1,2}/g) ?? [], (byte) => parseInt(byte, 16));
+};
+
+async function deriveKeyFromSignature(signature: string, address: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", hexToBytes(signature), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: encoder.encode(vaultKey(address)), info: encoder.encode(HKDF_INFO) },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function deriveKeyFromPassword(password: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.ciphertext),
+  );
+  return JSON.parse(decoder.decode(plaintext)) as T;
+}
+
+const receiptId = (receipt: BidReceipt) =>
+  `${receipt.chainId}:${receipt.contractAddress.toLowerCase()}:${receipt.lotId}:${receipt.saltHash}`;
+
+const mergeReceipts = (existing: BidReceipt[], incoming: BidReceipt[]) => {
+  const merged = new Map(existing.map((receipt) => [receiptId(receipt), receipt]));
+  incoming.forEach((receipt) => merged.set(receiptId(receipt), receipt));
+  return Array.from(merged.values()).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+async function persist(address: string) {
+  const vault = unlockedVaults.get(vaultKey(address));
+  if (!vault) return;
+  const contents: VaultContents = { receipts: vault.receipts, secrets: vault.secrets };
+  const payload = await encryptJson(vault.key, contents);
+  await store.set(vaultKey(address), { version: VAULT_VERSION, ...payload });
+}
+
+// ===========================
+// Public API
+// ===========================
+
+/**
+ * Unlock a wallet's vault, creating it on first use.
+ *
+ * @param address - Wallet that owns the vault
+ * @param signMessage - Signs the unlock message with that wallet (personal_sign)
+ * @returns The decrypted receipts
+ * @throws Error if the signature does not open the stored vault
+ */
+export async function unlockBidVault(
+  address: string,
+  signMessage: (message: string) => Promise<string>,
+): Promise<BidReceipt[]> {
+  const key = vaultKey(address);
+  const existing = unlockedVaults.get(key);
+  if (existing) {
+    return existing.receipts;
+  }
+  const pending = unlocking.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const unlock = (async () => {
+    const signature = await signMessage(vaultUnlockMessage(address));
+    const cryptoKey = await deriveKeyFromSignature(signature, address);
+    const persisted = await store.get(key);
+
+    let contents: VaultContents = { receipts: [], secrets: {} };
+    if (persisted) {
+      let stored: BidReceipt[] | VaultContents;
+      try {
+        stored = await decryptJson<BidReceipt[] | VaultContents>(cryptoKey, persisted);
+      } catch {
+        throw new Error("This signature does not open the stored bid vault. Sign with the wallet that created it.");
+      }
+      contents = Array.isArray(stored) ? { receipts: stored, secrets: {} } : stored;
+    }
+
+    unlockedVaults.set(key, { key: cryptoKey, ...contents });
+    return contents.receipts;
+  })();
+
+  unlocking.set(key, unlock);
+  notify(address);
+  try {
+    return await unlock;
+  } finally {
+    unlocking.delete(key);
+    notify(address);
+  }
+}
+
+/**
+ * Forget the in-memory key so the vault needs a new signature to reopen.
+ */
+export function lockBidVault(address: string): void {
+  unlockedVaults.delete(vaultKey(address));
+  notify(address);
+}
+
+/**
+ * Store a bid receipt in an unlocked vault.
+ *
+ * @throws Error if the vault is locked
+ */
+export async function addBidReceipt(address: string, receipt: BidReceipt): Promise<void> {
+  const vault = unlockedVaults.get(vaultKey(address));
+  if (!vault) {
+    throw new Error("Bid vault is locked. Unlock it with your wallet first.");
+  }
+  vault.receipts = mergeReceipts(vault.receipts, [receipt]);
+  await persist(address);
+  notify(address);
+}
+
+/**
+ * Read a named secret from an unlocked vault.
+ *
+ * @returns The secret, or null if it is not set or the vault is locked
+ */
+export function getVaultSecret(address: string, name: string): string | null {
+  return unlockedVaults.get(vaultKey(address))?.secrets[name] ?? null;
+}
+
+/**
+ * Store a named secret in an unlocked vault, or delete it when `value` is null.
+ *
+ * @throws Error if the vault is locked
+ */
+export async function setVaultSecret(address: string, name: string, value: string | null): Promise<void> {
+  const vault = unlockedVaults.get(vaultKey(address));
+  if (!vault) {
+    throw new Error("Bid vault is locked. Unlock it with your wallet first.");
+  }
+  const secrets = { ...vault.secrets };
+  if (value === null) {
+    delete secrets[name];
+  } else {
+    secrets[name] = value;
+  }
+  vault.secrets = secrets;
+  await persist(address);
+}
+
+/**
+ * Export an unlocked vault as a password-protected JSON document.
+ *
+ * Only the receipts are exported; vault secrets stay in this browser.
+ */
+export async function exportBidVault(address: string, password: string): Promise<BidVaultExport> {
+  const vault = unlockedVaults.get(vaultKey(address));
+  if (!vault) {
+    throw new Error("Bid vault is locked. Unlock it with your wallet first.");
+  }
+  if (password.length < 8) {
+    throw new Error("Use an export password of at least 8 characters.");
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKeyFromPassword(password, salt, PBKDF2_ITERATIONS);
+  const payload = await encryptJson(key, vault.receipts);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: VAULT_VERSION,
+    address: vaultKey(address),
+    exportedAt: new Date().toISOString(),
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    ...payload,
+  };
+}
+
+/**
+ * Merge a password-protected export into an unlocked vault.
+ *
+ * @returns Number of receipts in the imported file
+ * @throws Error if the file is not a vault export, belongs to another wallet, or the password is wrong
+ */
+export async function importBidVault(address: string, fileContents: string, password: string): Promise<number> {
+  const vault = unlockedVaults.get(vaultKey(address));
+  if (!vault) {
+    throw new Error("Bid vault is locked. Unlock it with your wallet first.");
+  }
+
+  let parsed: BidVaultExport;
+  try {
+    parsed = JSON.parse(fileContents) as BidVaultExport;
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+  if (parsed.format !== EXPORT_FORMAT || parsed.version !== VAULT_VERSION) {
+    throw new Error("The selected file is not a BlindBid bid vault export.");
+  }
+  if (parsed.address !== vaultKey(address)) {
+    throw new Error("This export belongs to a different wallet.");
+  }
+
+  const key = await deriveKeyFromPassword(password, fromBase64(parsed.kdf.salt), parsed.kdf.iterations);
+  let receipts: BidReceipt[];
+  try {
+    receipts = await decryptJson<BidReceipt[]>(key, parsed);
+  } catch {
+    throw new Error("Wrong password for this vault export.");
+  }
+
+  vault.receipts = mergeReceipts(vault.receipts, receipts);
+  await persist(address);
+  notify(address);
+  return receipts.length;
+}
@@ -0,0 +1,58 @@
+/**
+ * Contract calls for BlindBid
+ *
+ * viem's `readContract`/`writeContract` parameter types do not resolve under this
+ * project's non-strict compiler settings: every call fails on a required
+ * `authorizationList`, whatever the ABI. Reads and writes go through these helpers,
+ * which describe the parameters the app actually passes and cast once, so call sites
+ * stay type-checked against this shape instead of each carrying the mismatch.
+ */
+
+import type { Abi, Address, Hash, PublicClient, WalletClient } from "viem";
+
+import blindBidAbiJson from "@/abi/BlindBidAuction.json";
+
+/**
+ * BlindBidAuction ABI, as exported by `npm run export:abi`
+ */
+export const blindBidAbi = blindBidAbiJson as Abi;
+
+/**
+ * Parameters of a contract read
+ */
+export interface ContractReadParameters {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  /** Caller for functions that check `msg.sender` */
+  account?: Address;
+}
+
+/**
+ * Parameters of a contract write, sent from the wallet client's account
+ */
+export interface ContractWriteParameters extends Omit<ContractReadParameters, "account"> {
+  /** Wei sent with the call */
+  value?: bigint;
+}
+
+/**
+ * Call a view function
+ *
+ * @returns The decoded result, typed by the caller
+ */
+export function readContract<T = unknown>(publicClient: PublicClient, parameters: ContractReadParameters): Promise<T> {
+  const client = publicClient as unknown as { readContract: (parameters: ContractReadParameters) => Promise<T> };
+  return client.readContract(parameters);
+}
+
+/**
+ * Send a transaction from the connected wallet
+ *
+ * @returns The transaction hash
+ */
+export function writeContract(walletClient: WalletClient, parameters: ContractWriteParameters): Promise<Hash> {
+  const client = walletClient as unknown as { writeContract: (parameters: ContractWriteParameters) => Promise<Hash> };
+  return client.writeContract(parameters);
+}
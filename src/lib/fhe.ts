@@ -1,15 +1,22 @@
 /**
  * FHE SDK Initialization and Encryption Utilities for BlindBid
  *
- * This module provides FHE (Fully Homomorphic Encryption) functionality for the BlindBid auction platform.
- * Using CDN-loaded UMD build for simplified WASM handling.
+ * This module is the single FHE (Fully Homomorphic Encryption) client for the BlindBid auction platform.
+ * The forms call it directly and `FheProvider` exposes the same instance and state through React context.
+ * With the relayer backend the SDK runs in a Web Worker (`fhe.worker.ts`), so WASM
+ * initialization, encryption and proof generation never block the UI.
  *
  * Key Features:
  * - Lazy initialization of FHE SDK with automatic retry logic
- * - CDN UMD-based loading (loaded via script tag in index.html)
+ * - Worker-hosted SDK with progress reporting, cancellation (AbortSignal) and timeouts;
+ *   a stuck worker is terminated and recreated on next use
+ * - Network public key and CRS cached in IndexedDB across sessions (inspectFheKeyCache / purgeFheKeyCache)
+ * - Configurable network (chain ids, ACL/KMS/verifier addresses, relayer URL, RPC) via configureFhe()
+ * - Pluggable backend: Zama's relayer, or the fhEVM mock on a local Hardhat node (VITE_APP_FHE_BACKEND=mock)
  * - Singleton pattern to prevent multiple initializations
  * - Comprehensive error handling and user-friendly error messages
  * - Type-safe encryption functions for auction bids
+ * - Multi-value encrypted inputs sharing one proof, range-checked per type (createEncryptedInputs)
  * - Initialization state tracking for UI feedback
  * - Uses hexlify for proper byte-to-hex conversion
  *
@@ -18,46 +25,118 @@
 
 import { hexlify } from 'ethers';
 
+import { appEnv } from '@/config/env';
+import { getBidVaultState, getVaultSecret, setVaultSecret } from '@/lib/bidVault';
+import { deleteCachedKeys, listCachedKeys, type FheKeyCacheInfo } from '@/lib/fheKeyCache';
+import { mockFheBackend } from '@/lib/fheMock';
+import {
+  toEncryptedValue,
+  type EncryptedValue,
+  type EncryptedValues,
+  type Eip712TypedData,
+  type FheValueType,
+} from '@/lib/fheSdk';
+import { relayerWorkerBackend } from '@/lib/fheWorker';
+
+export type { Eip712TypedData, FheValueType } from '@/lib/fheSdk';
+export type { FheKeyCacheInfo } from '@/lib/fheKeyCache';
+
 // ===========================
 // Type Declarations
 // ===========================
 
 /**
- * Global window interface for CDN-loaded Zama FHE SDK
- * The SDK is loaded via script tag in index.html
+ * FHE network the client connects to.
+ * Contract addresses and chain ids left unset fall back to the SDK's built-in SepoliaConfig.
  */
-declare global {
-  interface Window {
-    relayerSDK: {
-      initSDK: () => Promise<void>;
-      createInstance: (config: SepoliaConfigType) => Promise<FheInstance>;
-      SepoliaConfig: SepoliaConfigType;
-    };
-  }
+export interface FheNetworkConfig {
+  chainId?: number;
+  gatewayChainId?: number;
+  aclContractAddress?: string;
+  kmsContractAddress?: string;
+  inputVerifierContractAddress?: string;
+  verifyingContractAddressDecryption?: string;
+  verifyingContractAddressInputVerification?: string;
+  relayerUrl: string;
+  rpcUrl: string;
+}
+
+/**
+ * Step a long-running FHE task has reached
+ */
+export type FheStage = 'loading' | 'wasm' | 'keys' | 'instance' | 'encrypting' | 'decrypting';
+
+/**
+ * Progress report for UI feedback
+ */
+export interface FheProgress {
+  stage: FheStage;
+  message: string;
+}
+
+/**
+ * Per-call controls for FHE work
+ */
+export interface FheTaskOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  onProgress?: (progress: FheProgress) => void;
 }
 
 /**
- * Sepolia network configuration type
+ * Connected FHE instance as seen by the client
+ * With the relayer backend every call is answered by the FHE worker, so all methods are async.
  */
-type SepoliaConfigType = any;
+export interface FheInstance {
+  encrypt: (
+    contractAddress: string,
+    userAddress: string,
+    values: EncryptedValue[],
+    options?: FheTaskOptions
+  ) => Promise<EncryptedValues>;
+  generateKeypair: (options?: FheTaskOptions) => Promise<{ publicKey: string; privateKey: string }>;
+  createEIP712: (
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+    options?: FheTaskOptions
+  ) => Promise<Eip712TypedData>;
+  userDecrypt: (
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+    options?: FheTaskOptions
+  ) => Promise<Record<string, bigint | boolean | string>>;
+  /** Release the instance's resources (the worker, for the relayer backend) */
+  terminate: () => void;
+}
 
 /**
- * FHE Instance type (from SDK)
- * Contains methods for creating encrypted inputs
+ * Signs EIP-712 typed data with the user's wallet and returns the hex signature
  */
-interface FheInstance {
-  createEncryptedInput: (contractAddress: string, userAddress: string) => EncryptedInputBuilder;
+export type TypedDataSigner = (typedData: Eip712TypedData) => Promise<string>;
+
+/**
+ * Options the client passes when creating an instance
+ */
+export interface FheInstanceOptions extends Pick<FheTaskOptions, 'signal' | 'onProgress'> {
+  /** The instance stopped working (worker crashed or timed out) and must be recreated */
+  onLost: (reason: string) => void;
 }
 
 /**
- * Builder for encrypted inputs
+ * Source of FHE instances
+ * The client handles retries, timeouts and state; a backend only connects to its network.
  */
-interface EncryptedInputBuilder {
-  add64: (value: bigint) => EncryptedInputBuilder;
-  encrypt: () => Promise<{
-    handles: `0x${string}`[];
-    inputProof: `0x${string}`;
-  }>;
+export interface FheBackend {
+  name: string;
+  createInstance: (config: FheNetworkConfig, options: FheInstanceOptions) => Promise<FheInstance>;
 }
 
 /**
@@ -65,7 +144,7 @@ interface EncryptedInputBuilder {
  */
 export type FheInitState =
   | { status: 'idle' }
-  | { status: 'initializing' }
+  | { status: 'initializing'; progress?: FheProgress }
   | { status: 'ready' }
   | { status: 'error'; error: string };
 
@@ -75,8 +154,14 @@ export type FheInitState =
 
 let fheInstance: FheInstance | null = null;
 let initPromise: Promise<FheInstance> | null = null;
+// Bumped on every reset so an initialization started for a previous network is discarded
+let initGeneration = 0;
 let initState: FheInitState = { status: 'idle' };
 let stateChangeListeners: ((state: FheInitState) => void)[] = [];
+let networkConfig: FheNetworkConfig = {
+  relayerUrl: appEnv.relayerUrl,
+  rpcUrl: appEnv.rpcUrl,
+};
 
 // ===========================
 // Constants
@@ -84,7 +169,11 @@ let stateChangeListeners: ((state: FheInitState) => void)[] = [];
 
 const MAX_RETRY_ATTEMPTS = 3;
 const RETRY_DELAY_MS = 1000;
-const INIT_TIMEOUT_MS = 60000; // 60 seconds
+const INIT_TIMEOUT_MS = 60000; // 60 seconds per attempt
+const ENCRYPT_TIMEOUT_MS = 120000; // Proof generation can take a while on slow devices
+const PERMIT_TIMEOUT_MS = 30000; // Keypair generation and EIP-712 construction are local
+const DECRYPT_TIMEOUT_MS = 120000; // Includes the relayer and KMS round trip
+const DECRYPTION_PERMIT_PREFIX = 'blindbid:fhe-permit:';
 
 // ===========================
 // State Management
@@ -122,6 +211,54 @@ export function getFheState(): FheInitState {
   return initState;
 }
 
+// ===========================
+// Network Configuration
+// ===========================
+
+/**
+ * Point the client at a different FHE network
+ * Fields not given keep their current value. Drops the current instance so the
+ * next ensureFheInstance() call connects with the new settings.
+ *
+ * @param config - Network fields to override
+ */
+export function configureFhe(config: Partial<FheNetworkConfig>): void {
+  networkConfig = { ...networkConfig, ...config };
+  resetFheInstance();
+}
+
+/**
+ * Get the network settings the client connects with
+ * Defaults to the SDK's Sepolia contracts with VITE_APP_RELAYER_URL and VITE_APP_RPC_URL
+ */
+export function getFheConfig(): FheNetworkConfig {
+  return networkConfig;
+}
+
+// ===========================
+// Backends
+// ===========================
+
+let backend: FheBackend = appEnv.fheBackend === 'mock' ? mockFheBackend : relayerWorkerBackend;
+
+/**
+ * Swap the backend instances are created with, e.g. for tests
+ * Drops the current instance so the next ensureFheInstance() call uses the new backend.
+ *
+ * @param next - Backend to use from now on
+ */
+export function setFheBackend(next: FheBackend): void {
+  backend = next;
+  resetFheInstance();
+}
+
+/**
+ * Get the backend instances are created with (selected by VITE_APP_FHE_BACKEND)
+ */
+export function getFheBackend(): FheBackend {
+  return backend;
+}
+
 // ===========================
 // Utility Functions
 // ===========================
@@ -160,30 +297,33 @@ async function withTimeout<T>(fn: Promise<T>, timeoutMs: number): Promise<T> {
  * @throws Error if initialization fails after all retries
  */
 async function initializeFheWithRetry(attempt: number = 1): Promise<FheInstance> {
+  const generation = initGeneration;
+  const controller = new AbortController();
   try {
-    // Verify CDN script loaded the SDK globally
-    if (typeof window === 'undefined' || !window.relayerSDK) {
-      throw new Error(
-        'FHE SDK not loaded from CDN. Ensure the script tag is present in index.html:\n' +
-        '<script src="https://cdn.zama.ai/relayer-sdk-js/0.2.0/relayer-sdk-js.umd.cjs"></script>'
-      );
-    }
-
-    console.log(`[FHE] Initialization attempt ${attempt}/${MAX_RETRY_ATTEMPTS}`);
-    const { initSDK, createInstance, SepoliaConfig } = window.relayerSDK;
-
-    // Initialize WASM module with timeout
-    console.log('[FHE] Initializing WASM runtime...');
-    await withTimeout(initSDK(), INIT_TIMEOUT_MS);
-    console.log('[FHE] ✓ WASM runtime ready');
-
-    // Create FHE instance with SDK's built-in Sepolia configuration
-    console.log('[FHE] Creating FHE instance with SepoliaConfig...');
-    const instance = await withTimeout(createInstance(SepoliaConfig), INIT_TIMEOUT_MS);
+    console.log(`[FHE] Initialization attempt ${attempt}/${MAX_RETRY_ATTEMPTS} (${backend.name} backend)`);
+    const instance = await withTimeout(
+      backend.createInstance(networkConfig, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (generation === initGeneration) {
+            setInitState({ status: 'initializing', progress });
+          }
+        },
+        onLost: (reason) => {
+          if (generation === initGeneration) {
+            console.warn(`[FHE] Instance lost: ${reason}`);
+            resetFheInstance();
+          }
+        },
+      }),
+      INIT_TIMEOUT_MS
+    );
     console.log('[FHE] ✓ FHE instance ready');
 
     return instance;
   } catch (error) {
+    // Stop a backend still working on a timed-out attempt
+    controller.abort();
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[FHE] Initialization attempt ${attempt} failed:`, errorMessage);
 
@@ -203,7 +343,7 @@ async function initializeFheWithRetry(attempt: number = 1): Promise<FheInstance>
 
 /**
  * Ensure FHE instance is initialized and ready
- * Uses CDN-loaded UMD build for simplified WASM handling
+ * With the relayer backend this starts the FHE worker
  *
  * This function:
  * - Returns immediately if already initialized
@@ -218,7 +358,7 @@ async function initializeFheWithRetry(attempt: number = 1): Promise<FheInstance>
  * ```typescript
  * try {
  *   const fhe = await ensureFheInstance();
- *   const input = fhe.createEncryptedInput(contractAddr, userAddr);
+ *   const { handles, inputProof } = await fhe.encrypt(contractAddr, userAddr, values);
  *   // ... use FHE instance
  * } catch (error) {
  *   console.error('FHE initialization failed:', error);
@@ -242,15 +382,24 @@ export async function ensureFheInstance(): Promise<FheInstance> {
   // Start new initialization
   console.log('[FHE] Starting FHE SDK initialization...');
   setInitState({ status: 'initializing' });
+  const generation = initGeneration;
 
   initPromise = (async () => {
     try {
       const instance = await initializeFheWithRetry(1);
+      if (generation !== initGeneration) {
+        // The network changed while connecting; hand off to an initialization for the new one
+        instance.terminate();
+        return ensureFheInstance();
+      }
       fheInstance = instance;
       setInitState({ status: 'ready' });
       console.log('[FHE] ✓ FHE SDK fully initialized and ready');
       return instance;
     } catch (error) {
+      if (generation !== initGeneration) {
+        return ensureFheInstance();
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown initialization error';
       console.error('[FHE] ✗ Initialization failed:', errorMessage);
 
@@ -277,19 +426,145 @@ export function getFheInstance(): FheInstance | null {
 
 /**
  * Reset FHE instance (useful for testing or reconnecting)
- * Forces re-initialization on next ensureFheInstance() call
+ * Terminates the current instance and forces re-initialization on next ensureFheInstance() call
  */
 export function resetFheInstance(): void {
   console.log('[FHE] Resetting instance');
+  const previous = fheInstance;
+  initGeneration += 1;
   fheInstance = null;
   initPromise = null;
   setInitState({ status: 'idle' });
+  previous?.terminate();
+}
+
+// ===========================
+// Key Cache
+// ===========================
+
+/**
+ * List the network keys cached in IndexedDB by the relayer backend
+ * Each entry is the public key and CRS of one network, reused by later sessions while
+ * the relayer still serves the same key ids.
+ *
+ * @returns One summary per cached network (ids, size and when it was downloaded)
+ */
+export function inspectFheKeyCache(): Promise<FheKeyCacheInfo[]> {
+  return listCachedKeys();
+}
+
+/**
+ * Delete cached network keys
+ * A running instance keeps working; the next initialization downloads the keys again.
+ *
+ * @param network - Only purge this network (`FheKeyCacheInfo.network`); all networks if omitted
+ */
+export async function purgeFheKeyCache(network?: string): Promise<void> {
+  console.log(`[FHE] Purging cached keys${network ? ` for ${network}` : ''}`);
+  await deleteCachedKeys(network);
 }
 
 // ===========================
 // Encryption Functions
 // ===========================
 
+/**
+ * Handle of one encrypted value, branded with its type so a `uint8` handle cannot be
+ * passed where the contract expects an `externalEuint64`
+ */
+export type EncryptedHandle<T extends FheValueType> = `0x${string}` & { readonly __fheType?: T };
+
+/**
+ * Handles in the order the values were added, plus the proof they share
+ */
+export interface EncryptedInputs<T extends readonly FheValueType[]> {
+  handles: { [K in keyof T]: T[K] extends FheValueType ? EncryptedHandle<T[K]> : never };
+  inputProof: `0x${string}`;
+}
+
+/**
+ * Typed builder returned by createEncryptedInputs
+ * Each add* call range-checks its value immediately and records its type, so
+ * encrypt() resolves to a tuple of correctly typed handles.
+ */
+export interface EncryptedInputBatch<T extends readonly FheValueType[] = []> {
+  addBool(value: boolean): EncryptedInputBatch<[...T, 'bool']>;
+  add8(value: number | bigint): EncryptedInputBatch<[...T, 'uint8']>;
+  add16(value: number | bigint): EncryptedInputBatch<[...T, 'uint16']>;
+  add32(value: number | bigint): EncryptedInputBatch<[...T, 'uint32']>;
+  add64(value: number | bigint): EncryptedInputBatch<[...T, 'uint64']>;
+  add128(value: number | bigint): EncryptedInputBatch<[...T, 'uint128']>;
+  add256(value: number | bigint): EncryptedInputBatch<[...T, 'uint256']>;
+  addAddress(value: string): EncryptedInputBatch<[...T, 'address']>;
+  encrypt(options?: FheTaskOptions): Promise<EncryptedInputs<T>>;
+}
+
+/**
+ * Start an encrypted input holding several values that share one input proof
+ *
+ * Values are validated as they are added; nothing reaches the SDK until encrypt(),
+ * which initializes the FHE instance if needed. encrypt() accepts an AbortSignal, a
+ * progress callback and a timeout (default 2 minutes).
+ *
+ * @param contractAddress - Contract the input is bound to (must be checksummed)
+ * @param userAddress - Account that will send the transaction (must be checksummed)
+ *
+ * @example
+ * ```typescript
+ * const { handles: [bid, quantity], inputProof } = await createEncryptedInputs(contract, user)
+ *   .add64(parseEther('0.5'))
+ *   .add8(3)
+ *   .encrypt();
+ * ```
+ */
+export function createEncryptedInputs(
+  contractAddress: `0x${string}`,
+  userAddress: `0x${string}`
+): EncryptedInputBatch {
+  const batch = (pending: EncryptedValue[]): EncryptedInputBatch<FheValueType[]> => {
+    const add = (type: FheValueType) => (value: boolean | number | bigint | string) =>
+      batch([...pending, toEncryptedValue(type, value, pending.length)]);
+
+    return {
+      addBool: add('bool'),
+      add8: add('uint8'),
+      add16: add('uint16'),
+      add32: add('uint32'),
+      add64: add('uint64'),
+      add128: add('uint128'),
+      add256: add('uint256'),
+      addAddress: add('address'),
+      encrypt: async ({ timeoutMs = ENCRYPT_TIMEOUT_MS, ...options }: FheTaskOptions = {}) => {
+        if (pending.length === 0) {
+          throw new Error('Add at least one value before encrypting');
+        }
+        const instance = await ensureFheInstance();
+
+        console.log(`[FHE] Generating ${pending.length} encrypted handle(s) and ZK proof...`);
+        const { handles, inputProof } = await instance.encrypt(contractAddress, userAddress, pending, {
+          ...options,
+          timeoutMs,
+        });
+
+        // Use hexlify to convert byte arrays to hex strings
+        return {
+          handles: handles.map((handle) => hexlify(handle) as `0x${string}`),
+          inputProof: hexlify(inputProof) as `0x${string}`,
+        };
+      },
+    } as EncryptedInputBatch<FheValueType[]>;
+  };
+
+  return batch([]) as unknown as EncryptedInputBatch;
+}
+
+/**
+ * Whether an FHE task failed because its AbortSignal fired
+ */
+export function isFheAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
 /**
  * Encrypted bid result returned by encryptBid
  */
@@ -304,21 +579,25 @@ export interface EncryptedBid {
  * This function creates encrypted inputs using Zama FHE technology:
  * 1. Initializes FHE instance (with retry logic)
  * 2. Creates encrypted input builder for the contract
- * 3. Adds bid amount as euint64 (wei)
+ * 3. Adds bid amount as euint64 (wei), rejecting amounts above 2^64 - 1
  * 4. Generates encrypted handle and zero-knowledge proof
  *
+ * Single-value shorthand for createEncryptedInputs().
+ *
  * The encrypted data remains private until the auction is settled.
  * This ensures fair bidding without front-running.
  *
  * @param contractAddress - BlindBid contract address (must be checksummed)
  * @param userAddress - User wallet address (must be checksummed)
  * @param bidWei - Bid amount in wei (bigint, e.g., parseEther("0.1"))
+ * @param options - Cancellation signal, progress callback and timeout for the encryption
  *
  * @returns Promise<EncryptedBid> - Encrypted handle and proof for contract submission
  *
  * @throws Error if FHE initialization fails
  * @throws Error if encryption fails
  * @throws Error if bid amount is invalid
+ * @throws DOMException named 'AbortError' if options.signal is aborted
  *
  * @example
  * ```typescript
@@ -342,7 +621,8 @@ export interface EncryptedBid {
 export async function encryptBid(
   contractAddress: `0x${string}`,
   userAddress: `0x${string}`,
-  bidWei: bigint
+  bidWei: bigint,
+  options?: FheTaskOptions
 ): Promise<EncryptedBid> {
   // Validate inputs
   if (bidWei <= 0n) {
@@ -356,22 +636,11 @@ export async function encryptBid(
   });
 
   try {
-    // Ensure FHE instance is initialized
-    const instance = await ensureFheInstance();
-
-    // Create encrypted input builder
-    const input = instance.createEncryptedInput(contractAddress, userAddress);
-
-    // Add bid amount as euint64
-    input.add64(bidWei);
-
-    // Encrypt and generate zero-knowledge proof
-    console.log('[FHE] Generating encrypted handle and ZK proof...');
-    const { handles, inputProof } = await input.encrypt();
-
-    // Use hexlify to convert byte arrays to hex strings
-    const ciphertext = hexlify(handles[0]) as `0x${string}`;
-    const proof = hexlify(inputProof) as `0x${string}`;
+    // Add bid amount as euint64, then encrypt and generate zero-knowledge proof
+    const {
+      handles: [ciphertext],
+      inputProof: proof,
+    } = await createEncryptedInputs(contractAddress, userAddress).add64(bidWei).encrypt(options);
 
     console.log('[FHE] ✓ Encryption successful', {
       ciphertextLength: ciphertext.length,
@@ -383,8 +652,225 @@ export async function encryptBid(
       inputProof: proof,
     };
   } catch (error) {
+    if (isFheAbortError(error)) {
+      console.log('[FHE] Encryption cancelled');
+      throw error;
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unknown encryption error';
     console.error('[FHE] ✗ Encryption failed:', errorMessage);
     throw new Error(`Failed to encrypt bid: ${errorMessage}`);
   }
 }
+
+// ===========================
+// User Decryption
+// ===========================
+
+/**
+ * Signed user decryption authorization.
+ * Pairs an ephemeral keypair with the EIP-712 signature that lets the KMS
+ * re-encrypt ciphertexts under that keypair for the signing wallet.
+ */
+export interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+/**
+ * Permits signed in this session. Their private keys are only written to disk inside
+ * the wallet's encrypted bid vault, and only while it is unlocked.
+ */
+const decryptionPermits = new Map<string, DecryptionPermit>();
+
+const permitKey = (userAddress: string, contractAddresses: string[]) =>
+  `${DECRYPTION_PERMIT_PREFIX}${userAddress.toLowerCase()}:${contractAddresses
+    .map((address) => address.toLowerCase())
+    .sort()
+    .join(',')}`;
+
+const permitExpiresAt = (permit: DecryptionPermit) =>
+  (permit.startTimestamp + permit.durationDays * 24 * 60 * 60) * 1000;
+
+/**
+ * Read a permit that is still inside its validity window, from this session or the
+ * unlocked bid vault
+ */
+function loadDecryptionPermit(userAddress: string, contractAddresses: string[]): DecryptionPermit | null {
+  const key = permitKey(userAddress, contractAddresses);
+  try {
+    const stored = getVaultSecret(userAddress, key);
+    const permit = decryptionPermits.get(key) ?? (stored ? (JSON.parse(stored) as DecryptionPermit) : null);
+    if (!permit) return null;
+    // Renew a minute early so a permit never expires mid-request
+    if (permitExpiresAt(permit) - 60_000 <= Date.now()) {
+      decryptionPermits.delete(key);
+      return null;
+    }
+    decryptionPermits.set(key, permit);
+    return permit;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a decryption permit for the user, reusing the cached keypair and signature
+ * while they are valid and asking the wallet to sign a new one otherwise.
+ *
+ * New permits are kept for the session and, if the wallet's bid vault is unlocked,
+ * saved in it so later sessions can reuse them after unlocking the vault.
+ * The validity window is `VITE_APP_DECRYPT_PERMIT_DAYS` days (default 1).
+ *
+ * @param userAddress - Wallet that will decrypt
+ * @param contractAddresses - Contracts whose ciphertexts the permit covers
+ * @param signTypedData - Signs the EIP-712 request with the wallet
+ */
+export async function getDecryptionPermit(
+  userAddress: `0x${string}`,
+  contractAddresses: `0x${string}`[],
+  signTypedData: TypedDataSigner
+): Promise<DecryptionPermit> {
+  const cached = loadDecryptionPermit(userAddress, contractAddresses);
+  if (cached) {
+    console.log('[FHE] Using cached decryption permit');
+    return cached;
+  }
+
+  const instance = await ensureFheInstance();
+  const { publicKey, privateKey } = await instance.generateKeypair({ timeoutMs: PERMIT_TIMEOUT_MS });
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = appEnv.decryptPermitDays;
+
+  console.log('[FHE] Requesting EIP-712 signature for user decryption...');
+  const typedData = await instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays, {
+    timeoutMs: PERMIT_TIMEOUT_MS,
+  });
+  const signature = await signTypedData(typedData);
+
+  const permit: DecryptionPermit = {
+    publicKey,
+    privateKey,
+    signature,
+    userAddress,
+    contractAddresses,
+    startTimestamp,
+    durationDays,
+  };
+
+  const key = permitKey(userAddress, contractAddresses);
+  decryptionPermits.set(key, permit);
+  if (getBidVaultState(userAddress).status === 'unlocked') {
+    try {
+      await setVaultSecret(userAddress, key, JSON.stringify(permit));
+    } catch (error) {
+      console.warn('[FHE] Could not save decryption permit to the bid vault:', error);
+    }
+  }
+
+  return permit;
+}
+
+/**
+ * Drop the session's decryption permits, e.g. when the wallet disconnects
+ *
+ * Also removes permits that older versions stored in plaintext in localStorage.
+ * Permits saved in a bid vault stay there, encrypted, until they expire.
+ *
+ * @param userAddress - Only clear this wallet's permits (all wallets if omitted)
+ */
+export function clearDecryptionPermits(userAddress?: string): void {
+  const prefix = userAddress
+    ? `${DECRYPTION_PERMIT_PREFIX}${userAddress.toLowerCase()}:`
+    : DECRYPTION_PERMIT_PREFIX;
+  Array.from(decryptionPermits.keys())
+    .filter((key) => key.startsWith(prefix))
+    .forEach((key) => decryptionPermits.delete(key));
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch {
+    // Storage unavailable: nothing was persisted there
+  }
+}
+
+/**
+ * Decrypt ciphertext handles the user is allowed to read (via `FHE.allow`)
+ *
+ * The KMS re-encrypts each handle under the permit's ephemeral public key and the
+ * SDK decrypts the result locally, so the plaintext never leaves the browser.
+ *
+ * @param handles - bytes32 ciphertext handles as returned by the contract
+ * @param contractAddress - Contract that holds the ciphertexts
+ * @param userAddress - Wallet with ACL access to the handles
+ * @param signTypedData - Signs the EIP-712 request if no valid permit is cached
+ * @param options - Cancellation, timeout (default 2 minutes) and progress for the decryption request
+ * @returns Map of handle to clear value
+ *
+ * @example
+ * ```typescript
+ * const [encryptedAmount] = await publicClient.readContract({ functionName: 'getBid', ... });
+ * const values = await userDecrypt([encryptedAmount], contractAddress, userAddress, signTypedData);
+ * const bidWei = values[encryptedAmount] as bigint;
+ * ```
+ */
+export async function userDecrypt(
+  handles: `0x${string}`[],
+  contractAddress: `0x${string}`,
+  userAddress: `0x${string}`,
+  signTypedData: TypedDataSigner,
+  { timeoutMs = DECRYPT_TIMEOUT_MS, ...options }: FheTaskOptions = {}
+): Promise<Record<string, bigint | boolean | string>> {
+  try {
+    const instance = await ensureFheInstance();
+    const permit = await getDecryptionPermit(userAddress, [contractAddress], signTypedData);
+
+    console.log(`[FHE] Requesting user decryption of ${handles.length} handle(s)...`);
+    const results = await instance.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress })),
+      permit.privateKey,
+      permit.publicKey,
+      permit.signature.replace(/^0x/, ''),
+      permit.contractAddresses,
+      permit.userAddress,
+      permit.startTimestamp,
+      permit.durationDays,
+      { ...options, timeoutMs }
+    );
+    console.log('[FHE] ✓ User decryption successful');
+
+    // The relayer keys results by lowercase handle; expose them under the caller's spelling too
+    return Object.fromEntries(
+      handles.map((handle) => [handle, results[handle] ?? results[handle.toLowerCase()]])
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown decryption error';
+    console.error('[FHE] ✗ User decryption failed:', errorMessage);
+    throw new Error(`Failed to decrypt: ${errorMessage}`);
+  }
+}
+
+/**
+ * Decrypt the user's own sealed bid amount from the handle returned by `getBid`
+ *
+ * @returns Bid amount in wei
+ * @throws Error if the relayer returns no value for the handle (no ACL access for this account)
+ */
+export async function decryptOwnBid(
+  contractAddress: `0x${string}`,
+  userAddress: `0x${string}`,
+  encryptedAmount: `0x${string}`,
+  signTypedData: TypedDataSigner
+): Promise<bigint> {
+  const results = await userDecrypt([encryptedAmount], contractAddress, userAddress, signTypedData);
+  const amount = results[encryptedAmount];
+  if (amount === undefined || typeof amount === 'boolean') {
+    throw new Error(`Bid handle ${encryptedAmount} is not decryptable for ${userAddress}`);
+  }
+  return BigInt(amount);
+}
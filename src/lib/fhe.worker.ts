@@ -0,0 +1,162 @@
+/**
+ * FHE Worker for BlindBid
+ *
+ * Owns the relayer SDK instance so WASM initialization, encryption and zero-knowledge
+ * proof generation never block the UI. Speaks the protocol in `fheWorkerProtocol.ts`;
+ * the main-thread side lives in `fheWorker.ts`.
+ *
+ * The SDK's ESM build is loaded from the Zama CDN. When the page is cross-origin
+ * isolated (COOP/COEP headers in vite.config.ts and vercel.json), the WASM runtime
+ * runs multi-threaded on SharedArrayBuffer. The network public key and CRS are kept in
+ * IndexedDB (`fheKeyCache.ts`) so only the first session downloads them.
+ */
+
+import {
+  buildSdkConfig,
+  encryptValues,
+  type EncryptedValues,
+  type FheSdkConfig,
+  type FheSdkInstance,
+  type FheSdkModule,
+} from '@/lib/fheSdk';
+import type { FheProgress } from '@/lib/fhe';
+import { deleteCachedKeys, fheNetworkId, loadCachedKeys, saveCachedKeys, type FheKeyCacheEntry } from '@/lib/fheKeyCache';
+import type { FheWorkerRequest, FheWorkerResponse } from '@/lib/fheWorkerProtocol';
+
+const RELAYER_SDK_URL = 'https://cdn.zama.ai/relayer-sdk-js/0.2.0/relayer-sdk-js.js';
+
+let sdkInstance: FheSdkInstance | null = null;
+const runningTasks = new Set<number>();
+// Running tasks the main thread gave up on; their results are dropped
+const cancelledTasks = new Set<number>();
+
+const post = (response: FheWorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+const progress = (id: number, value: FheProgress) => post({ id, type: 'progress', progress: value });
+
+/**
+ * Buffers backing an encryption result, handed over instead of copied
+ * Handles may be views into one buffer, which can only be transferred once.
+ */
+const transferables = ({ handles, inputProof }: EncryptedValues): Transferable[] => [
+  ...new Set([...handles, inputProof].map((bytes) => bytes.buffer as ArrayBuffer)),
+];
+
+function requireInstance(): FheSdkInstance {
+  if (!sdkInstance) {
+    throw new Error('FHE worker is not initialized');
+  }
+  return sdkInstance;
+}
+
+async function initialize(id: number, request: Extract<FheWorkerRequest, { type: 'init' }>) {
+  progress(id, { stage: 'loading', message: 'Loading FHE SDK' });
+  // The ESM build registers its WASM bindings on `window`, which workers do not have
+  (self as unknown as { window: typeof self }).window = self;
+  const sdk = (await import(/* @vite-ignore */ RELAYER_SDK_URL)) as FheSdkModule;
+
+  const threads = self.crossOriginIsolated ? navigator.hardwareConcurrency || undefined : undefined;
+  progress(id, { stage: 'wasm', message: threads ? `Starting WASM runtime (${threads} threads)` : 'Starting WASM runtime' });
+  await sdk.initSDK(threads ? { thread: threads } : undefined);
+
+  const config = buildSdkConfig(sdk.SepoliaConfig, request.config);
+  const relayerUrl = config.relayerUrl ?? '';
+  const network = fheNetworkId(config.chainId, relayerUrl);
+  progress(id, { stage: 'keys', message: 'Checking cached FHE keys' });
+  const cached = await loadCachedKeys(network, relayerUrl);
+
+  if (cached) {
+    progress(id, { stage: 'instance', message: 'Creating FHE instance from cached keys' });
+    try {
+      sdkInstance = await sdk.createInstance(withCachedKeys(config, cached));
+      return null;
+    } catch (error) {
+      // Keys that no longer deserialize (e.g. after an SDK upgrade) are fetched again
+      console.warn('[FHE] Cached keys rejected, downloading them again:', error);
+      await deleteCachedKeys(network);
+    }
+  }
+
+  progress(id, { stage: 'instance', message: `Downloading FHE public key from ${relayerUrl}` });
+  sdkInstance = await sdk.createInstance(config);
+  await cacheKeys(network, sdkInstance);
+  return null;
+}
+
+function withCachedKeys(config: FheSdkConfig, entry: FheKeyCacheEntry): FheSdkConfig {
+  return {
+    ...config,
+    publicKey: { data: entry.publicKey, id: entry.publicKeyId },
+    publicParams: { 2048: { publicParams: entry.publicParams, publicParamsId: entry.publicParamsId } },
+  };
+}
+
+/**
+ * Persist the keys an instance downloaded; failures only cost the next session a download
+ */
+async function cacheKeys(network: string, instance: FheSdkInstance) {
+  const publicKey = instance.getPublicKey();
+  const publicParams = instance.getPublicParams(2048);
+  if (!publicKey || !publicParams) return;
+  try {
+    await saveCachedKeys({ network, ...publicKey, ...publicParams, cachedAt: Date.now() });
+  } catch (error) {
+    console.warn('[FHE] Could not cache FHE keys:', error);
+  }
+}
+
+async function handle(request: Exclude<FheWorkerRequest, { type: 'cancel' }>): Promise<unknown> {
+  switch (request.type) {
+    case 'init':
+      return initialize(request.id, request);
+    case 'encrypt': {
+      progress(request.id, { stage: 'encrypting', message: 'Generating ciphertext and input proof' });
+      return encryptValues(requireInstance(), request.contractAddress, request.userAddress, request.values);
+    }
+    case 'generateKeypair':
+      return requireInstance().generateKeypair();
+    case 'createEIP712':
+      return requireInstance().createEIP712(
+        request.publicKey,
+        request.contractAddresses,
+        request.startTimestamp,
+        request.durationDays
+      );
+    case 'userDecrypt':
+      progress(request.id, { stage: 'decrypting', message: 'Requesting user decryption' });
+      return requireInstance().userDecrypt(
+        request.handles,
+        request.privateKey,
+        request.publicKey,
+        request.signature,
+        request.contractAddresses,
+        request.userAddress,
+        request.startTimestamp,
+        request.durationDays
+      );
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<FheWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    // A cancel can cross the task's result in flight; only remember it while the task runs
+    if (runningTasks.has(request.target)) {
+      cancelledTasks.add(request.target);
+    }
+    return;
+  }
+
+  runningTasks.add(request.id);
+  try {
+    const result = await handle(request);
+    if (cancelledTasks.has(request.id)) return;
+    post({ id: request.id, type: 'result', result }, request.type === 'encrypt' ? transferables(result as EncryptedValues) : []);
+  } catch (error) {
+    if (cancelledTasks.has(request.id)) return;
+    post({ id: request.id, type: 'error', error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    runningTasks.delete(request.id);
+    cancelledTasks.delete(request.id);
+  }
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  deleteCachedKeys,
+  fheNetworkId,
+  listCachedKeys,
+  loadCachedKeys,
+  saveCachedKeys,
+  type FheKeyCacheEntry,
+} from '@/lib/fheKeyCache';
+
+const RELAYER_URL = 'https://relayer.example/';
+const NETWORK = fheNetworkId(11155111, RELAYER_URL);
+const OTHER_NETWORK = fheNetworkId(31337, RELAYER_URL);
+
+const entry = (overrides: Partial<FheKeyCacheEntry> = {}): FheKeyCacheEntry => ({
+  network: NETWORK,
+  publicKeyId: 'key-1',
+  publicKey: new Uint8Array([1, 2, 3]),
+  publicParamsId: 'crs-1',
+  publicParams: new Uint8Array([4, 5]),
+  cachedAt: 1,
+  ...overrides,
+});
+
+/**
+ * Serve `/v1/keyurl` listing the given key ids
+ */
+const stubRelayer = (publicKeyIds: string[], publicParamsId: string) => {
+  const fetchMock = vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      response: {
+        fhe_key_info: publicKeyIds.map((data_id) => ({ fhe_public_key: { data_id } })),
+        crs: { 2048: { data_id: publicParamsId } },
+      },
+    }),
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('fheKeyCache', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await deleteCachedKeys();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('returns an entry whose key ids the relayer still serves', async () => {
+    await saveCachedKeys(entry());
+    const fetchMock = stubRelayer(['key-0', 'key-1'], 'crs-1');
+
+    await expect(loadCachedKeys(NETWORK, RELAYER_URL)).resolves.toMatchObject({ publicKeyId: 'key-1' });
+    expect(fetchMock).toHaveBeenCalledWith('https://relayer.example/v1/keyurl');
+  });
+
+  it('drops an entry after a public key rotation', async () => {
+    await saveCachedKeys(entry());
+    stubRelayer(['key-2'], 'crs-1');
+
+    await expect(loadCachedKeys(NETWORK, RELAYER_URL)).resolves.toBeNull();
+    expect(await listCachedKeys()).toEqual([]);
+  });
+
+  it('drops an entry after a CRS rotation', async () => {
+    await saveCachedKeys(entry());
+    stubRelayer(['key-1'], 'crs-2');
+
+    await expect(loadCachedKeys(NETWORK, RELAYER_URL)).resolves.toBeNull();
+    expect(await listCachedKeys()).toEqual([]);
+  });
+
+  it('drops malformed entries', async () => {
+    await saveCachedKeys(entry({ publicKey: new Uint8Array() }));
+    stubRelayer(['key-1'], 'crs-1');
+
+    await expect(loadCachedKeys(NETWORK, RELAYER_URL)).resolves.toBeNull();
+  });
+
+  it('keeps entries when the relayer cannot be reached', async () => {
+    await saveCachedKeys(entry());
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false, status: 503 })));
+
+    await expect(loadCachedKeys(NETWORK, RELAYER_URL)).resolves.toBeNull();
+    expect(await listCachedKeys()).toHaveLength(1);
+  });
+
+  it('skips the relayer when nothing is cached for the network', async () => {
+    await saveCachedKeys(entry({ network: OTHER_NETWORK }));
+    const fetchMock = stubRelayer(['key-1'], 'crs-1');
+
+    await expect(loadCachedKeys(NETWORK, RELAYER_URL)).resolves.toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("replaces a network's older key on save", async () => {
+    await saveCachedKeys(entry());
+    await saveCachedKeys(entry({ publicKeyId: 'key-2', cachedAt: 2 }));
+
+    expect((await listCachedKeys()).map((info) => info.publicKeyId)).toEqual(['key-2']);
+  });
+
+  it('purges one network or every network', async () => {
+    await saveCachedKeys(entry());
+    await saveCachedKeys(entry({ network: OTHER_NETWORK }));
+
+    await deleteCachedKeys(NETWORK);
+    expect((await listCachedKeys()).map((info) => info.network)).toEqual([OTHER_NETWORK]);
+
+    await deleteCachedKeys();
+    expect(await listCachedKeys()).toEqual([]);
+  });
+
+  it('summarizes entries without their key material', async () => {
+    await saveCachedKeys(entry());
+
+    expect(await listCachedKeys()).toEqual([
+      { network: NETWORK, publicKeyId: 'key-1', publicParamsId: 'crs-1', bytes: 5, cachedAt: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Persistent cache of FHE network keys
+ *
+ * The relayer SDK needs the network's TFHE public key and CRS (public params) before it
+ * can encrypt; together they are tens of megabytes. They are stored in IndexedDB,
+ * keyed by network (chain id and relayer) and key id, so later sessions skip the download.
+ *
+ * An entry is only used while the relayer still lists its key id and CRS id, so a key
+ * rotation is picked up on the next start. Used by the FHE worker, and by `lib/fhe.ts`
+ * to inspect and purge the cache.
+ */
+
+import { createKeyValueStore } from '@/lib/idb';
+
+/**
+ * Keys for one network as the SDK serializes them
+ */
+export interface FheKeyCacheEntry {
+  network: string;
+  publicKeyId: string;
+  publicKey: Uint8Array;
+  publicParamsId: string;
+  publicParams: Uint8Array;
+  cachedAt: number;
+}
+
+/**
+ * Summary of a cached entry, without the key material
+ */
+export interface FheKeyCacheInfo {
+  network: string;
+  publicKeyId: string;
+  publicParamsId: string;
+  bytes: number;
+  cachedAt: number;
+}
+
+/**
+ * Key ids the relayer currently serves, from `/v1/keyurl`
+ */
+interface RelayerKeyIds {
+  publicKeyIds: string[];
+  publicParamsId: string;
+}
+
+const store = createKeyValueStore<FheKeyCacheEntry>('blindbid-fhe-keys');
+
+const entryKey = (network: string, publicKeyId: string) => `${network}|${publicKeyId}`;
+
+const trimUrl = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Identify the network a key belongs to
+ */
+export const fheNetworkId = (chainId: number | undefined, relayerUrl: string | undefined) =>
+  `${chainId ?? 'unknown'}@${trimUrl(relayerUrl ?? '')}`;
+
+const isEntry = (value: unknown): value is FheKeyCacheEntry => {
+  const entry = value as FheKeyCacheEntry | undefined;
+  return (
+    typeof entry?.network === 'string' &&
+    typeof entry.publicKeyId === 'string' &&
+    typeof entry.publicParamsId === 'string' &&
+    entry.publicKey instanceof Uint8Array &&
+    entry.publicKey.byteLength > 0 &&
+    entry.publicParams instanceof Uint8Array &&
+    entry.publicParams.byteLength > 0
+  );
+};
+
+async function fetchRelayerKeyIds(relayerUrl: string): Promise<RelayerKeyIds> {
+  const response = await fetch(`${trimUrl(relayerUrl)}/v1/keyurl`);
+  if (!response.ok) {
+    throw new Error(`Relayer key list request failed (${response.status})`);
+  }
+  const data = (await response.json()) as {
+    response: {
+      fhe_key_info: { fhe_public_key: { data_id: string } }[];
+      crs: Record<string, { data_id: string }>;
+    };
+  };
+  return {
+    publicKeyIds: data.response.fhe_key_info.map((info) => info.fhe_public_key.data_id),
+    publicParamsId: data.response.crs['2048'].data_id,
+  };
+}
+
+/**
+ * Load cached keys for a network if the relayer still serves them
+ * Entries that are malformed or whose key ids the relayer no longer lists are deleted.
+ *
+ * @param network - Network id from fheNetworkId()
+ * @param relayerUrl - Relayer to validate the key ids against
+ * @returns The entry, or null on a miss (including when the relayer cannot be reached)
+ */
+export async function loadCachedKeys(network: string, relayerUrl: string): Promise<FheKeyCacheEntry | null> {
+  try {
+    const keys = (await store.keys()).filter((key) => key.startsWith(`${network}|`));
+    if (keys.length === 0) return null;
+
+    const current = await fetchRelayerKeyIds(relayerUrl);
+    for (const key of keys) {
+      const entry = await store.get(key);
+      if (
+        isEntry(entry) &&
+        current.publicKeyIds.includes(entry.publicKeyId) &&
+        entry.publicParamsId === current.publicParamsId
+      ) {
+        return entry;
+      }
+      console.log(`[FHE] Dropping stale cached keys ${key}`);
+      await store.delete(key);
+    }
+    return null;
+  } catch (error) {
+    console.warn('[FHE] Could not read cached keys:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a network's keys, replacing any older key for the same network
+ */
+export async function saveCachedKeys(entry: FheKeyCacheEntry): Promise<void> {
+  await deleteCachedKeys(entry.network);
+  await store.set(entryKey(entry.network, entry.publicKeyId), entry);
+}
+
+/**
+ * Delete cached keys
+ *
+ * @param network - Only this network's keys (every network if omitted)
+ */
+export async function deleteCachedKeys(network?: string): Promise<void> {
+  if (!network) {
+    await store.clear();
+    return;
+  }
+  const keys = (await store.keys()).filter((key) => key.startsWith(`${network}|`));
+  await Promise.all(keys.map((key) => store.delete(key)));
+}
+
+/**
+ * Summarize cached entries, leaving out the key material
+ */
+export async function listCachedKeys(): Promise<FheKeyCacheInfo[]> {
+  const entries = await Promise.all((await store.keys()).map((key) => store.get(key)));
+  return entries.filter(isEntry).map((entry) => ({
+    network: entry.network,
+    publicKeyId: entry.publicKeyId,
+    publicParamsId: entry.publicParamsId,
+    bytes: entry.publicKey.byteLength + entry.publicParams.byteLength,
+    cachedAt: entry.cachedAt,
+  }));
+}
@@ -0,0 +1,57 @@
+/**
+ * Mock FHE backend for offline development and end-to-end tests.
+ *
+ * Targets a local Hardhat node running the `@fhevm/hardhat-plugin` mock coprocessor
+ * (`npx hardhat node`). The node signs input proofs and serves clear values over its
+ * `fhevm_*` RPC methods, so encryption and user decryption work without the CDN SDK,
+ * WASM or a relayer, and every ciphertext decrypts to exactly the value that went in.
+ * Nothing is actually encrypted: never select this backend against a public network.
+ */
+
+import type { FheBackend } from '@/lib/fhe';
+import { createSdkAdapter, type FheSdkInstance } from '@/lib/fheSdk';
+
+// Gateway contracts the Hardhat plugin signs user decryptions and input verifications for
+const MOCK_DECRYPTION_ADDRESS = '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64';
+const MOCK_INPUT_VERIFICATION_ADDRESS = '0x812b06e1CDCE800494b79fFE4f925A504a9A9810';
+
+/**
+ * Mock backend selected with VITE_APP_FHE_BACKEND=mock
+ * Reads the fhEVM contract addresses from the node; configured addresses take precedence.
+ */
+export const mockFheBackend: FheBackend = {
+  name: 'mock',
+  async createInstance(config) {
+    // Loaded on demand so relayer builds never pull in the mock
+    const [{ JsonRpcProvider }, { MockFhevmInstance, relayer }] = await Promise.all([
+      import('ethers'),
+      import('@fhevm/mock-utils'),
+    ]);
+
+    const provider = new JsonRpcProvider(config.rpcUrl);
+    console.log(`[FHE] Connecting to fhEVM mock at ${config.rpcUrl}...`);
+    const metadata = await relayer.requestRelayerMetadata(provider).catch((error: unknown) => {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `No fhEVM mock node at ${config.rpcUrl} (${reason}). Start one with \`npx hardhat node\` ` +
+          'or point VITE_APP_RPC_URL at it.'
+      );
+    });
+    console.log(`[FHE] ✓ Mock coprocessor found on chain ${metadata.chainId}`);
+
+    const instance = await MockFhevmInstance.create(provider, provider, {
+      chainId: config.chainId ?? metadata.chainId,
+      gatewayChainId: config.gatewayChainId ?? metadata.gatewayChainId,
+      aclContractAddress: config.aclContractAddress ?? metadata.ACLAddress,
+      kmsContractAddress: config.kmsContractAddress ?? metadata.KMSVerifierAddress,
+      inputVerifierContractAddress: config.inputVerifierContractAddress ?? metadata.InputVerifierAddress,
+      verifyingContractAddressDecryption: config.verifyingContractAddressDecryption ?? MOCK_DECRYPTION_ADDRESS,
+      verifyingContractAddressInputVerification:
+        config.verifyingContractAddressInputVerification ?? MOCK_INPUT_VERIFICATION_ADDRESS,
+    });
+
+    // Same shape as the SDK instance; only the EIP-712 address fields are typed as plain strings.
+    // The mock is cheap enough to stay on the main thread.
+    return createSdkAdapter(instance as unknown as FheSdkInstance);
+  },
+};
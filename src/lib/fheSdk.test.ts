@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { encryptValues, runTask, toEncryptedValue, type EncryptedInputBuilder, type FheSdkInstance } from '@/lib/fheSdk';
+
+const UINT32_MAX = 2n ** 32n - 1n;
+const UINT64_MAX = 2n ** 64n - 1n;
+
+describe('toEncryptedValue', () => {
+  it('accepts the bounds of uint32', () => {
+    expect(toEncryptedValue('uint32', 0, 0)).toEqual({ type: 'uint32', value: 0n });
+    expect(toEncryptedValue('uint32', UINT32_MAX, 0)).toEqual({ type: 'uint32', value: UINT32_MAX });
+  });
+
+  it('rejects values just outside uint32', () => {
+    expect(() => toEncryptedValue('uint32', UINT32_MAX + 1n, 1)).toThrow(RangeError);
+    expect(() => toEncryptedValue('uint32', -1, 1)).toThrow('Encrypted input #1 (-1) does not fit in uint32');
+  });
+
+  it('accepts the bounds of uint64', () => {
+    expect(toEncryptedValue('uint64', 0n, 0)).toEqual({ type: 'uint64', value: 0n });
+    expect(toEncryptedValue('uint64', UINT64_MAX, 0)).toEqual({ type: 'uint64', value: UINT64_MAX });
+  });
+
+  it('rejects values just outside uint64', () => {
+    expect(() => toEncryptedValue('uint64', UINT64_MAX + 1n, 2)).toThrow(
+      `Encrypted input #2 (${UINT64_MAX + 1n}) does not fit in uint64`
+    );
+    expect(() => toEncryptedValue('uint64', -1n, 2)).toThrow(RangeError);
+  });
+
+  it('rejects numbers that are not safe integers', () => {
+    expect(() => toEncryptedValue('uint64', 1.5, 0)).toThrow('must be an integer');
+    expect(() => toEncryptedValue('uint64', Number.MAX_SAFE_INTEGER + 1, 0)).toThrow(RangeError);
+    expect(toEncryptedValue('uint64', Number.MAX_SAFE_INTEGER, 0).value).toBe(BigInt(Number.MAX_SAFE_INTEGER));
+  });
+
+  it('checks the type of booleans and addresses', () => {
+    expect(() => toEncryptedValue('uint64', true, 0)).toThrow(TypeError);
+    expect(() => toEncryptedValue('bool', 1n, 0)).toThrow(TypeError);
+    expect(() => toEncryptedValue('address', '0x1234', 0)).toThrow(TypeError);
+    expect(toEncryptedValue('bool', false, 0)).toEqual({ type: 'bool', value: false });
+  });
+});
+
+describe('encryptValues', () => {
+  it('adds each value with the adder for its type, in order', async () => {
+    const added: string[] = [];
+    const builder = new Proxy({} as EncryptedInputBuilder, {
+      get: (_, method: string) =>
+        method === 'encrypt'
+          ? async () => ({ handles: [], inputProof: new Uint8Array() })
+          : (value: unknown) => {
+              added.push(`${method}:${String(value)}`);
+              return builder;
+            },
+    });
+    const sdk = { createEncryptedInput: vi.fn(() => builder) } as unknown as FheSdkInstance;
+
+    await encryptValues(sdk, '0xcontract', '0xuser', [
+      toEncryptedValue('uint64', UINT64_MAX, 0),
+      toEncryptedValue('uint32', 7, 1),
+      toEncryptedValue('bool', true, 2),
+    ]);
+
+    expect(sdk.createEncryptedInput).toHaveBeenCalledWith('0xcontract', '0xuser');
+    expect(added).toEqual([`add64:${UINT64_MAX}`, 'add32:7', 'addBool:true']);
+  });
+});
+
+describe('runTask', () => {
+  it('rejects once the timeout elapses', async () => {
+    vi.useFakeTimers();
+    try {
+      const result = runTask(new Promise(() => {}), { timeoutMs: 50 });
+      vi.advanceTimersByTime(50);
+      await expect(result).rejects.toThrow('FHE task timed out after 50ms');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects with an AbortError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const result = runTask(new Promise(() => {}), { signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Zama relayer SDK types and helpers shared by the main thread and the FHE worker
+ *
+ * Nothing here touches `appEnv` or the DOM, so `fhe.worker.ts` can import it.
+ * Backends that hold an SDK instance on the main thread (the Hardhat mock) adapt it
+ * to the client's `FheInstance` with createSdkAdapter().
+ */
+
+import { isAddress } from 'ethers';
+
+import type { FheInstance, FheNetworkConfig, FheTaskOptions } from '@/lib/fhe';
+
+// ===========================
+// SDK Types
+// ===========================
+
+/**
+ * Network configuration passed to the SDK's createInstance
+ */
+export interface FheSdkConfig {
+  chainId?: number;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  relayerUrl?: string;
+  network?: string;
+  // Serialized keys; when given, the SDK skips downloading them from the relayer
+  publicKey?: { data: Uint8Array | null; id: string | null };
+  publicParams?: { 2048?: { publicParams: Uint8Array; publicParamsId: string } } | null;
+}
+
+/**
+ * Exports of the relayer SDK's ESM build
+ */
+export interface FheSdkModule {
+  initSDK: (options?: { thread?: number }) => Promise<boolean>;
+  createInstance: (config: FheSdkConfig) => Promise<FheSdkInstance>;
+  SepoliaConfig: FheSdkConfig;
+}
+
+/**
+ * EIP-712 typed data produced by the SDK for user decryption requests
+ */
+export interface Eip712TypedData {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: `0x${string}`;
+    version: string;
+  };
+  message: Record<string, unknown>;
+  primaryType: string;
+  types: Record<string, { name: string; type: string }[]>;
+}
+
+/**
+ * SDK builder for encrypted inputs
+ */
+export interface EncryptedInputBuilder {
+  addBool: (value: boolean) => EncryptedInputBuilder;
+  add8: (value: bigint) => EncryptedInputBuilder;
+  add16: (value: bigint) => EncryptedInputBuilder;
+  add32: (value: bigint) => EncryptedInputBuilder;
+  add64: (value: bigint) => EncryptedInputBuilder;
+  add128: (value: bigint) => EncryptedInputBuilder;
+  add256: (value: bigint) => EncryptedInputBuilder;
+  addAddress: (value: string) => EncryptedInputBuilder;
+  encrypt: () => Promise<EncryptedValues>;
+}
+
+/**
+ * FHE Instance type (from SDK)
+ * Contains methods for creating encrypted inputs and user decryption
+ */
+export interface FheSdkInstance {
+  createEncryptedInput: (contractAddress: string, userAddress: string) => EncryptedInputBuilder;
+  generateKeypair: () => { publicKey: string; privateKey: string };
+  createEIP712: (
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ) => Eip712TypedData;
+  userDecrypt: (
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ) => Promise<Record<string, bigint | boolean | string>>;
+  getPublicKey: () => { publicKeyId: string; publicKey: Uint8Array } | null;
+  getPublicParams: (bits: 2048) => { publicParams: Uint8Array; publicParamsId: string } | null;
+}
+
+// ===========================
+// Encrypted Values
+// ===========================
+
+/**
+ * Solidity input type an encrypted value is submitted as (`externalEbool`, `externalEuint8`, ...)
+ */
+export type FheValueType = 'bool' | 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'uint128' | 'uint256' | 'address';
+
+/**
+ * One validated plaintext waiting to be encrypted
+ * Plain data, so it can be posted to the worker.
+ */
+export type EncryptedValue =
+  | { type: 'bool'; value: boolean }
+  | { type: 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'uint128' | 'uint256'; value: bigint }
+  | { type: 'address'; value: string };
+
+/**
+ * Raw SDK output: one handle per value and the proof they share
+ */
+export interface EncryptedValues {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+const UINT_BITS = { uint8: 8, uint16: 16, uint32: 32, uint64: 64, uint128: 128, uint256: 256 } as const;
+
+const UINT_ADDERS = {
+  uint8: 'add8',
+  uint16: 'add16',
+  uint32: 'add32',
+  uint64: 'add64',
+  uint128: 'add128',
+  uint256: 'add256',
+} as const;
+
+/**
+ * Validate a plaintext against its type, throwing before anything is encrypted
+ *
+ * @param type - Type the value is submitted as
+ * @param value - Plaintext to check
+ * @param index - Position in the input, for error messages
+ */
+export function toEncryptedValue(
+  type: FheValueType,
+  value: boolean | number | bigint | string,
+  index: number
+): EncryptedValue {
+  if (type === 'bool') {
+    if (typeof value !== 'boolean') {
+      throw new TypeError(`Encrypted input #${index} must be a boolean`);
+    }
+    return { type, value };
+  }
+  if (type === 'address') {
+    if (typeof value !== 'string' || !isAddress(value)) {
+      throw new TypeError(`Encrypted input #${index} is not a valid address: ${String(value)}`);
+    }
+    return { type, value };
+  }
+
+  const bits = UINT_BITS[type];
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new TypeError(`Encrypted input #${index} must be a number or bigint`);
+  }
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`Encrypted input #${index} must be an integer, got ${value}`);
+  }
+  const asBigInt = BigInt(value);
+  if (asBigInt < 0n || asBigInt >= 1n << BigInt(bits)) {
+    throw new RangeError(`Encrypted input #${index} (${asBigInt}) does not fit in uint${bits}`);
+  }
+  return { type, value: asBigInt };
+}
+
+/**
+ * Encrypt validated values with an SDK instance into one input
+ */
+export function encryptValues(
+  sdk: FheSdkInstance,
+  contractAddress: string,
+  userAddress: string,
+  values: EncryptedValue[]
+): Promise<EncryptedValues> {
+  const input = values.reduce((builder, entry) => {
+    switch (entry.type) {
+      case 'bool':
+        return builder.addBool(entry.value);
+      case 'address':
+        return builder.addAddress(entry.value);
+      default:
+        return builder[UINT_ADDERS[entry.type]](entry.value);
+    }
+  }, sdk.createEncryptedInput(contractAddress, userAddress));
+  return input.encrypt();
+}
+
+/**
+ * Merge the configured network over the SDK's defaults
+ */
+export function buildSdkConfig(defaults: FheSdkConfig, config: FheNetworkConfig): FheSdkConfig {
+  const { rpcUrl, ...overrides } = config;
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return { ...defaults, ...defined, network: rpcUrl };
+}
+
+// ===========================
+// Main-Thread Adapter
+// ===========================
+
+/**
+ * Error raised when a task is cancelled through its AbortSignal
+ */
+export const abortError = () => new DOMException('FHE task cancelled', 'AbortError');
+
+/**
+ * Settle a main-thread task early on abort or timeout
+ * The underlying work cannot be interrupted; its result is discarded.
+ */
+export function runTask<T>(task: Promise<T>, { signal, timeoutMs }: FheTaskOptions = {}): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const timer = timeoutMs
+      ? setTimeout(() => finish(() => reject(new Error(`FHE task timed out after ${timeoutMs}ms`))), timeoutMs)
+      : undefined;
+    const onAbort = () => finish(() => reject(abortError()));
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    task.then(
+      (value) => finish(() => resolve(value)),
+      (error) => finish(() => reject(error))
+    );
+  });
+}
+
+/**
+ * Expose an SDK instance living on the main thread as the client's FheInstance
+ */
+export function createSdkAdapter(sdk: FheSdkInstance): FheInstance {
+  return {
+    encrypt: (contractAddress, userAddress, values, options = {}) => {
+      options.onProgress?.({ stage: 'encrypting', message: 'Generating ciphertext and input proof' });
+      return runTask(encryptValues(sdk, contractAddress, userAddress, values), options);
+    },
+    generateKeypair: (options) => runTask(Promise.resolve().then(() => sdk.generateKeypair()), options),
+    createEIP712: (publicKey, contractAddresses, startTimestamp, durationDays, options) =>
+      runTask(
+        Promise.resolve().then(() => sdk.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays)),
+        options
+      ),
+    userDecrypt: (handles, privateKey, publicKey, signature, contractAddresses, userAddress, startTimestamp, durationDays, options) =>
+      runTask(
+        sdk.userDecrypt(handles, privateKey, publicKey, signature, contractAddresses, userAddress, startTimestamp, durationDays),
+        options
+      ),
+    terminate: () => undefined,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Main-thread side of the FHE worker
+ *
+ * The relayer backend: each createInstance() call starts a fresh `fhe.worker.ts`,
+ * initializes the SDK inside it and returns an FheInstance whose methods are
+ * messages to that worker. Calls can report progress, be cancelled through an
+ * AbortSignal, and time out. A timed-out worker is presumed stuck in WASM and is
+ * terminated; the client is told through `onLost` and re-initializes on next use.
+ */
+
+import type { FheBackend, FheInstance, FheInstanceOptions, FheNetworkConfig, FheTaskOptions } from '@/lib/fhe';
+import { abortError, type EncryptedValues, type Eip712TypedData } from '@/lib/fheSdk';
+import type { FheWorkerCall, FheWorkerRequest, FheWorkerResponse } from '@/lib/fheWorkerProtocol';
+
+interface PendingTask {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: FheTaskOptions['onProgress'];
+}
+
+/**
+ * Start a worker and return a typed request function bound to it
+ *
+ * @param onLost - Called once if the worker crashes, times out or is terminated
+ */
+function connect(onLost: (reason: string) => void) {
+  const worker = new Worker(new URL('./fhe.worker.ts', import.meta.url), { type: 'module', name: 'blindbid-fhe' });
+  const pending = new Map<number, PendingTask>();
+  let nextId = 1;
+  let lost = false;
+
+  const terminate = (reason: string) => {
+    if (lost) return;
+    lost = true;
+    worker.terminate();
+    pending.forEach((task) => task.reject(new Error(reason)));
+    pending.clear();
+    onLost(reason);
+  };
+
+  worker.addEventListener('message', (event: MessageEvent<FheWorkerResponse>) => {
+    const response = event.data;
+    const task = pending.get(response.id);
+    if (!task) return;
+    if (response.type === 'progress') {
+      task.onProgress?.(response.progress);
+    } else if (response.type === 'result') {
+      task.resolve(response.result);
+    } else {
+      task.reject(new Error(response.error));
+    }
+  });
+
+  worker.addEventListener('error', (event) => {
+    console.error('[FHE] Worker crashed:', event.message);
+    terminate(`FHE worker crashed: ${event.message || 'unknown error'}`);
+  });
+
+  function request<T>(call: FheWorkerCall, { signal, timeoutMs, onProgress }: FheTaskOptions = {}): Promise<T> {
+    if (lost) {
+      return Promise.reject(new Error('FHE worker is no longer running'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = timeoutMs
+        ? setTimeout(() => terminate(`FHE worker timed out after ${timeoutMs}ms (${call.type})`), timeoutMs)
+        : undefined;
+      const onAbort = () => {
+        worker.postMessage({ id: nextId++, type: 'cancel', target: id } satisfies FheWorkerRequest);
+        pending.get(id)?.reject(abortError());
+      };
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        pending.delete(id);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pending.set(id, {
+        resolve: (value) => {
+          finish();
+          resolve(value as T);
+        },
+        reject: (error) => {
+          finish();
+          reject(error);
+        },
+        onProgress,
+      });
+      worker.postMessage({ ...call, id } as FheWorkerRequest);
+    });
+  }
+
+  return { request, terminate };
+}
+
+/**
+ * Zama relayer backend running the SDK in a Web Worker
+ */
+export const relayerWorkerBackend: FheBackend = {
+  name: 'relayer',
+  async createInstance(config: FheNetworkConfig, { signal, onProgress, onLost }: FheInstanceOptions): Promise<FheInstance> {
+    // Failures before the instance is handed out are reported by rejecting instead
+    let ready = false;
+    const connection = connect((reason) => ready && onLost(reason));
+    try {
+      await connection.request<null>({ type: 'init', config }, { signal, onProgress });
+    } catch (error) {
+      connection.terminate('FHE worker failed to initialize');
+      throw error;
+    }
+    ready = true;
+
+    return {
+      encrypt: (contractAddress, userAddress, values, options) =>
+        connection.request<EncryptedValues>({ type: 'encrypt', contractAddress, userAddress, values }, options),
+      generateKeypair: (options) =>
+        connection.request<{ publicKey: string; privateKey: string }>({ type: 'generateKeypair' }, options),
+      createEIP712: (publicKey, contractAddresses, startTimestamp, durationDays, options) =>
+        connection.request<Eip712TypedData>(
+          {
+            type: 'createEIP712',
+            publicKey,
+            contractAddresses,
+            startTimestamp,
+            durationDays,
+          },
+          options
+        ),
+      userDecrypt: (handles, privateKey, publicKey, signature, contractAddresses, userAddress, startTimestamp, durationDays, options) =>
+        connection.request<Record<string, bigint | boolean | string>>(
+          {
+            type: 'userDecrypt',
+            handles,
+            privateKey,
+            publicKey,
+            signature,
+            contractAddresses,
+            userAddress,
+            startTimestamp,
+            durationDays,
+          },
+          options
+        ),
+      terminate: () => connection.terminate('FHE instance reset'),
+    };
+  },
+};
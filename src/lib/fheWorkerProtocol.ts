@@ -0,0 +1,46 @@
+/**
+ * Messages exchanged between the main thread (`fheWorker.ts`) and `fhe.worker.ts`
+ *
+ * Every request carries an id; the worker answers with any number of `progress`
+ * messages followed by exactly one `result` or `error` for that id. A `cancel`
+ * request names the id to drop; the worker discards that task's result.
+ */
+
+import type { FheNetworkConfig, FheProgress } from '@/lib/fhe';
+import type { EncryptedValue } from '@/lib/fheSdk';
+
+export type FheWorkerRequest =
+  | { id: number; type: 'init'; config: FheNetworkConfig }
+  | { id: number; type: 'encrypt'; contractAddress: string; userAddress: string; values: EncryptedValue[] }
+  | { id: number; type: 'generateKeypair' }
+  | {
+      id: number;
+      type: 'createEIP712';
+      publicKey: string;
+      contractAddresses: string[];
+      startTimestamp: string | number;
+      durationDays: string | number;
+    }
+  | {
+      id: number;
+      type: 'userDecrypt';
+      handles: { handle: string; contractAddress: string }[];
+      privateKey: string;
+      publicKey: string;
+      signature: string;
+      contractAddresses: string[];
+      userAddress: string;
+      startTimestamp: string | number;
+      durationDays: string | number;
+    }
+  | { id: number; type: 'cancel'; target: number };
+
+export type FheWorkerResponse =
+  | { id: number; type: 'progress'; progress: FheProgress }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; error: string };
+
+/**
+ * A request before the client assigns its id
+ */
+export type FheWorkerCall = FheWorkerRequest extends infer R ? (R extends { id: number } ? Omit<R, 'id'> : never) : never;
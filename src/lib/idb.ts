@@ -0,0 +1,81 @@
+/**
+ * Minimal promise wrapper around IndexedDB for persisting client-side caches.
+ *
+ * Each store lives in its own database with a single object store so features
+ * can evolve their schemas independently without coordinating version bumps.
+ */
+
+const OBJECT_STORE = "entries";
+
+export interface KeyValueStore<T> {
+  get: (key: string) => Promise<T | undefined>;
+  set: (key: string, value: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+  clear: () => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Open (or create) a key-value store backed by IndexedDB.
+ * Falls back to an in-memory map when IndexedDB is unavailable (private mode, SSR).
+ */
+export function createKeyValueStore<T>(databaseName: string): KeyValueStore<T> {
+  if (typeof indexedDB === "undefined") {
+    const memory = new Map<string, T>();
+    return {
+      get: async (key) => memory.get(key),
+      set: async (key, value) => {
+        memory.set(key, value);
+      },
+      delete: async (key) => {
+        memory.delete(key);
+      },
+      keys: async () => Array.from(memory.keys()),
+      clear: async () => memory.clear(),
+    };
+  }
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(OBJECT_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await openDb();
+    return requestToPromise(run(db.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE)));
+  };
+
+  return {
+    get: (key) => withStore("readonly", (store) => store.get(key) as IDBRequest<T | undefined>),
+    set: async (key, value) => {
+      await withStore("readwrite", (store) => store.put(value, key));
+    },
+    delete: async (key) => {
+      await withStore("readwrite", (store) => store.delete(key));
+    },
+    keys: async () => (await withStore("readonly", (store) => store.getAllKeys())).map(String),
+    clear: async () => {
+      await withStore("readwrite", (store) => store.clear());
+    },
+  };
+}
@@ -0,0 +1,529 @@
+/**
+ * Event-sourced lot index for BlindBid.
+ *
+ * Instead of reading every lot with `getLot` on each refresh, the index replays
+ * `LotCreated`, `BidSubmitted`, `BidReplaced`, `BidWithdrawn`, `EndTimeExtended`, `LotClosed`, `LotCancelled`,
+ * `RevealRequested`, `RevealSettled`, `WinnersSettled`, `LotUnsold` and `KeeperRewarded` logs in block ranges and persists the result to IndexedDB. A reload only scans
+ * the blocks mined since the last sync. `getLot` is used solely to reconcile the
+ * lots touched by new events, which also fills in the encrypted handles and escrowed
+ * bundle items that the events do not carry.
+ *
+ * The lots a wallet has bid on are indexed the same way, per wallet, from its own
+ * `BidSubmitted` logs (see syncBidderLots).
+ */
+
+import type { AbiEvent, Address, PublicClient } from "viem";
+
+import { blindBidAbi, readContract } from "@/lib/contracts";
+import { createKeyValueStore } from "@/lib/idb";
+import { transformLot, type LotItem, type LotSummary, type RawLot } from "@/lib/lots";
+
+// ===========================
+// Types
+// ===========================
+
+export const LOT_EVENT_NAMES = [
+  "LotCreated",
+  "BidSubmitted",
+  "BidReplaced",
+  "BidWithdrawn",
+  "EndTimeExtended",
+  "LotClosed",
+  "LotCancelled",
+  "RevealRequested",
+  "RevealSettled",
+  "WinnersSettled",
+  "LotUnsold",
+  "KeeperRewarded",
+] as const;
+
+export type LotEventName = (typeof LOT_EVENT_NAMES)[number];
+
+/**
+ * Decoded contract log as returned by viem's `getLogs` / `watchContractEvent`.
+ */
+export interface LotEventLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint | null;
+}
+
+type SerializedLotItem = Omit<LotItem, "tokenId" | "amount"> & { tokenId: string; amount: string };
+
+type SerializedLot = Omit<LotSummary, "id" | "revealedAmount" | "depositCap" | "keeperReward" | "items"> & {
+  id: string;
+  revealedAmount: string;
+  depositCap: string;
+  keeperReward: string;
+  items: SerializedLotItem[];
+};
+
+interface PersistedLotIndex {
+  version: 11;
+  lastBlock: string;
+  lots: SerializedLot[];
+}
+
+interface PersistedBidderLots {
+  version: 1;
+  lastBlock: string;
+  lots: { lotId: string; blockNumber: string | null }[];
+}
+
+/**
+ * A lot the wallet submitted a bid on, with the block of its latest submission.
+ */
+export interface BidderLot {
+  lotId: bigint;
+  blockNumber: bigint | null;
+}
+
+interface LotIndexState {
+  lastBlock: bigint;
+  lots: Map<string, LotSummary>;
+}
+
+// ===========================
+// Constants
+// ===========================
+
+const INDEX_VERSION = 11;
+const BIDDER_LOTS_VERSION = 1;
+const MAX_BLOCK_SPAN = 10_000n;
+const MIN_BLOCK_SPAN = 100n;
+// Blocks re-scanned on every sync so shallow reorgs are picked up; event replay is idempotent
+const REORG_BUFFER = 12n;
+const RECONCILE_BATCH_SIZE = 10;
+
+const ZERO_HANDLE = `0x${"0".repeat(64)}` as const;
+const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
+
+const lotEvents = (blindBidAbi as AbiEvent[]).filter(
+  (item) => item.type === "event" && (LOT_EVENT_NAMES as readonly string[]).includes(item.name),
+);
+
+/**
+ * ABI entry for a single BlindBidAuction event.
+ */
+export const getLotEventAbi = (name: string) =>
+  (blindBidAbi as AbiEvent[]).find((item) => item.type === "event" && item.name === name) as AbiEvent;
+
+// ===========================
+// Module State
+// ===========================
+
+const store = createKeyValueStore<PersistedLotIndex>("blindbid-lot-index");
+const bidderStore = createKeyValueStore<PersistedBidderLots>("blindbid-bidder-lots");
+const memoryIndex = new Map<string, LotIndexState>();
+const inFlightSyncs = new Map<string, Promise<LotSummary[]>>();
+
+// ===========================
+// Serialization
+// ===========================
+
+const serializeLot = (lot: LotSummary): SerializedLot => ({
+  ...lot,
+  id: lot.id.toString(),
+  revealedAmount: lot.revealedAmount.toString(),
+  depositCap: lot.depositCap.toString(),
+  keeperReward: lot.keeperReward.toString(),
+  items: lot.items.map((item) => ({ ...item, tokenId: item.tokenId.toString(), amount: item.amount.toString() })),
+});
+
+const deserializeLot = (lot: SerializedLot): LotSummary => ({
+  ...lot,
+  id: BigInt(lot.id),
+  revealedAmount: BigInt(lot.revealedAmount),
+  depositCap: BigInt(lot.depositCap),
+  keeperReward: BigInt(lot.keeperReward),
+  items: lot.items.map((item) => ({ ...item, tokenId: BigInt(item.tokenId), amount: BigInt(item.amount) })),
+});
+
+const indexKey = (chainId: number, contractAddress: Address) => `${chainId}:${contractAddress.toLowerCase()}`;
+
+async function loadIndex(key: string, deploymentBlock: bigint): Promise<LotIndexState> {
+  const cached = memoryIndex.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const empty: LotIndexState = { lastBlock: deploymentBlock > 0n ? deploymentBlock - 1n : -1n, lots: new Map() };
+
+  try {
+    const persisted = await store.get(key);
+    if (persisted && persisted.version === INDEX_VERSION) {
+      const state: LotIndexState = {
+        lastBlock: BigInt(persisted.lastBlock),
+        lots: new Map(persisted.lots.map((lot) => [lot.id, deserializeLot(lot)])),
+      };
+      memoryIndex.set(key, state);
+      return state;
+    }
+  } catch (error) {
+    console.warn("[LotIndex] Failed to read persisted index, rebuilding:", error);
+  }
+
+  memoryIndex.set(key, empty);
+  return empty;
+}
+
+async function persistIndex(key: string, state: LotIndexState) {
+  try {
+    await store.set(key, {
+      version: INDEX_VERSION,
+      lastBlock: state.lastBlock.toString(),
+      lots: Array.from(state.lots.values()).map(serializeLot),
+    });
+  } catch (error) {
+    console.warn("[LotIndex] Failed to persist index:", error);
+  }
+}
+
+// ===========================
+// Event Replay
+// ===========================
+
+/**
+ * Apply a single decoded lot event to a lot map.
+ * Every transition is idempotent so overlapping block ranges can be replayed safely.
+ *
+ * @returns The id of the lot the event touched, or null if the event was ignored
+ */
+export function applyLotEvent(lots: Map<string, LotSummary>, log: LotEventLog): string | null {
+  const lotId = log.args.lotId as bigint | undefined;
+  if (lotId === undefined) {
+    return null;
+  }
+  const key = lotId.toString();
+  const existing = lots.get(key);
+
+  switch (log.eventName as LotEventName) {
+    case "LotCreated": {
+      lots.set(key, {
+        id: lotId,
+        curator: log.args.curator as string,
+        startTime: Number(log.args.startTime),
+        endTime: Number(log.args.endTime),
+        metadataURI: log.args.metadataURI as string,
+        closed: existing?.closed ?? false,
+        revealRequested: existing?.revealRequested ?? false,
+        settled: existing?.settled ?? false,
+        cancelled: existing?.cancelled ?? false,
+        bidCount: existing?.bidCount ?? 0,
+        activeBidCount: existing?.activeBidCount ?? 0,
+        encryptedReserve: existing?.encryptedReserve ?? ZERO_HANDLE,
+        encryptedWinningBid: existing?.encryptedWinningBid ?? ZERO_HANDLE,
+        encryptedWinningIndex: existing?.encryptedWinningIndex ?? ZERO_HANDLE,
+        encryptedReserveMet: existing?.encryptedReserveMet ?? ZERO_HANDLE,
+        auctionType: existing?.auctionType ?? "first-price",
+        supply: existing?.supply ?? 1,
+        winnerCount: existing?.winnerCount ?? 0,
+        encryptedSecondBid: existing?.encryptedSecondBid ?? ZERO_HANDLE,
+        encryptedClearingPrice: existing?.encryptedClearingPrice ?? ZERO_HANDLE,
+        winner: existing?.winner ?? ZERO_ADDRESS,
+        revealedAmount: existing?.revealedAmount ?? 0n,
+        reserveMet: existing?.reserveMet ?? false,
+        depositCap: existing?.depositCap ?? 0n,
+        proceedsWithdrawn: existing?.proceedsWithdrawn ?? false,
+        keeper: existing?.keeper ?? ZERO_ADDRESS,
+        keeperReward: existing?.keeperReward ?? 0n,
+        softCloseWindow: existing?.softCloseWindow ?? 0,
+        softCloseExtension: existing?.softCloseExtension ?? 0,
+        maxEndTime: existing?.maxEndTime ?? Number(log.args.endTime),
+        items: existing?.items ?? [],
+      });
+      return key;
+    }
+    case "BidSubmitted": {
+      if (!existing) return key;
+      const bidCount = Math.max(existing.bidCount, Number(log.args.bidIndex) + 1);
+      // Only a new index adds a standing bid, so replaying a log does not count it twice
+      const activeBidCount = existing.activeBidCount + (bidCount > existing.bidCount ? 1 : 0);
+      lots.set(key, { ...existing, bidCount, activeBidCount });
+      return key;
+    }
+    case "BidReplaced": {
+      // Nothing public changes, but the running winner handles do; syncLotIndex always reconciles these
+      return key;
+    }
+    case "BidWithdrawn": {
+      if (!existing) return key;
+      // Not idempotent on its own; reconciliation restores the exact count after a re-scan
+      lots.set(key, { ...existing, activeBidCount: Math.max(existing.activeBidCount - 1, 0) });
+      return key;
+    }
+    case "EndTimeExtended": {
+      if (!existing) return key;
+      // Extensions only ever move the close later, so replaying an older one is a no-op
+      lots.set(key, { ...existing, endTime: Math.max(existing.endTime, Number(log.args.endTime)) });
+      return key;
+    }
+    case "LotClosed": {
+      if (!existing) return key;
+      // The event's `curator` is whoever closed the lot; anyone else is its keeper
+      const closer = log.args.curator as string;
+      const keeper = closer.toLowerCase() === existing.curator.toLowerCase() ? ZERO_ADDRESS : closer;
+      lots.set(key, { ...existing, closed: true, keeper });
+      return key;
+    }
+    case "LotCancelled": {
+      if (!existing) return key;
+      lots.set(key, { ...existing, closed: true, cancelled: true });
+      return key;
+    }
+    case "RevealRequested": {
+      if (!existing) return key;
+      lots.set(key, { ...existing, revealRequested: true });
+      return key;
+    }
+    case "RevealSettled": {
+      if (!existing) return key;
+      lots.set(key, {
+        ...existing,
+        settled: true,
+        winner: log.args.winner as string,
+        revealedAmount: BigInt(log.args.clearAmount as bigint),
+        reserveMet: true,
+        winnerCount: 1,
+      });
+      return key;
+    }
+    case "WinnersSettled": {
+      if (!existing) return key;
+      const winners = log.args.winners as string[];
+      lots.set(key, {
+        ...existing,
+        settled: true,
+        winner: winners[0],
+        winnerCount: winners.length,
+        revealedAmount: BigInt(log.args.clearAmount as bigint),
+        reserveMet: true,
+      });
+      return key;
+    }
+    case "LotUnsold": {
+      if (!existing) return key;
+      lots.set(key, { ...existing, settled: true, reserveMet: false });
+      return key;
+    }
+    case "KeeperRewarded": {
+      if (!existing) return key;
+      lots.set(key, { ...existing, keeper: log.args.keeper as string, keeperReward: BigInt(log.args.amount as bigint) });
+      return key;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Log filter accepted by {@link fetchLogsInRanges}: either a set of events, or a
+ * single event with indexed argument filters.
+ */
+export type LotLogFilter =
+  | { address: Address; events: AbiEvent[] }
+  | { address: Address; event: AbiEvent; args?: Record<string, unknown> };
+
+/**
+ * Fetch logs for a block range, halving the span whenever the RPC rejects it as too large.
+ */
+export async function fetchLogsInRanges(
+  publicClient: PublicClient,
+  filter: LotLogFilter,
+  fromBlock: bigint,
+  toBlock: bigint,
+  onLogs: (logs: LotEventLog[]) => void,
+) {
+  let from = fromBlock;
+  let span = MAX_BLOCK_SPAN;
+
+  while (from <= toBlock) {
+    const to = from + span - 1n < toBlock ? from + span - 1n : toBlock;
+    try {
+      const logs = await publicClient.getLogs({ ...filter, fromBlock: from, toBlock: to } as Parameters<
+        PublicClient["getLogs"]
+      >[0]);
+      onLogs(logs as unknown as LotEventLog[]);
+      from = to + 1n;
+    } catch (error) {
+      if (span <= MIN_BLOCK_SPAN) {
+        throw error;
+      }
+      span /= 2n;
+      console.warn(`[LotIndex] getLogs failed for ${from}-${to}, retrying with span ${span}`);
+    }
+  }
+}
+
+/**
+ * Refresh the touched lots from `getLot`, which is authoritative and carries the encrypted handles.
+ */
+async function reconcileLots(
+  publicClient: PublicClient,
+  contractAddress: Address,
+  lots: Map<string, LotSummary>,
+  lotIds: string[],
+) {
+  for (let offset = 0; offset < lotIds.length; offset += RECONCILE_BATCH_SIZE) {
+    const batch = lotIds.slice(offset, offset + RECONCILE_BATCH_SIZE);
+    const snapshots = await Promise.all(
+      batch.map(async (lotId) => {
+        const lot = (await readContract(publicClient, {
+          address: contractAddress,
+          abi: blindBidAbi,
+          functionName: "getLot",
+          args: [BigInt(lotId)],
+        })) as RawLot;
+        return transformLot(BigInt(lotId), lot);
+      }),
+    );
+    snapshots.forEach((snapshot) => lots.set(snapshot.id.toString(), snapshot));
+  }
+}
+
+// ===========================
+// Public API
+// ===========================
+
+/**
+ * Bring the persisted lot index up to date with the chain and return the catalogue.
+ *
+ * Concurrent calls for the same chain and contract share one sync.
+ *
+ * @param publicClient - viem public client for the target chain
+ * @param contractAddress - BlindBidAuction address
+ * @param deploymentBlock - First block worth scanning (the contract's deployment block)
+ * @returns All indexed lots, newest start time first
+ */
+export async function syncLotIndex(
+  publicClient: PublicClient,
+  contractAddress: Address,
+  deploymentBlock: bigint = 0n,
+): Promise<LotSummary[]> {
+  const chainId = publicClient.chain?.id ?? (await publicClient.getChainId());
+  const key = indexKey(chainId, contractAddress);
+
+  const inFlight = inFlightSyncs.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const sync = (async () => {
+    const state = await loadIndex(key, deploymentBlock);
+    const latestBlock = await publicClient.getBlockNumber();
+
+    const rescanFrom = state.lastBlock - REORG_BUFFER + 1n;
+    const fromBlock = rescanFrom > deploymentBlock ? rescanFrom : deploymentBlock;
+
+    if (fromBlock <= latestBlock) {
+      const lots = new Map(state.lots);
+      const touched = new Set<string>();
+      const replaced = new Set<string>();
+
+      const filter = { address: contractAddress, events: lotEvents };
+      await fetchLogsInRanges(publicClient, filter, fromBlock, latestBlock, (logs) => {
+        logs.forEach((log) => {
+          const lotId = applyLotEvent(lots, log);
+          if (lotId === null) return;
+          touched.add(lotId);
+          if (log.eventName === "BidReplaced") replaced.add(lotId);
+        });
+      });
+
+      const previouslyKnown = (lotId: string) => {
+        const before = state.lots.get(lotId);
+        const after = lots.get(lotId);
+        return before && after && JSON.stringify(serializeLot(before)) === JSON.stringify(serializeLot(after));
+      };
+      // Replayed buffer blocks touch lots without changing them; only reconcile real changes.
+      // A replacement only moves the encrypted handles, which the summary comparison cannot see.
+      const changed = Array.from(touched).filter((lotId) => replaced.has(lotId) || !previouslyKnown(lotId));
+      await reconcileLots(publicClient, contractAddress, lots, changed);
+
+      state.lots = lots;
+      state.lastBlock = latestBlock;
+      await persistIndex(key, state);
+    }
+
+    return Array.from(state.lots.values()).sort((a, b) => b.startTime - a.startTime);
+  })();
+
+  inFlightSyncs.set(key, sync);
+  try {
+    return await sync;
+  } finally {
+    inFlightSyncs.delete(key);
+  }
+}
+
+/**
+ * Find the lots a wallet has bid on from its `BidSubmitted` logs.
+ *
+ * The result is persisted per wallet, so each call only scans the blocks mined since
+ * the previous one (plus the reorg buffer).
+ *
+ * @param publicClient - viem public client for the target chain
+ * @param contractAddress - BlindBidAuction address
+ * @param bidder - Wallet whose bids to find
+ * @param deploymentBlock - First block worth scanning (the contract's deployment block)
+ */
+export async function syncBidderLots(
+  publicClient: PublicClient,
+  contractAddress: Address,
+  bidder: Address,
+  deploymentBlock: bigint = 0n,
+): Promise<BidderLot[]> {
+  const chainId = publicClient.chain?.id ?? (await publicClient.getChainId());
+  const key = `${indexKey(chainId, contractAddress)}:${bidder.toLowerCase()}`;
+
+  let lastBlock = deploymentBlock > 0n ? deploymentBlock - 1n : -1n;
+  const lots = new Map<string, bigint | null>();
+  try {
+    const persisted = await bidderStore.get(key);
+    if (persisted && persisted.version === BIDDER_LOTS_VERSION) {
+      lastBlock = BigInt(persisted.lastBlock);
+      persisted.lots.forEach((lot) =>
+        lots.set(lot.lotId, lot.blockNumber === null ? null : BigInt(lot.blockNumber)),
+      );
+    }
+  } catch (error) {
+    console.warn("[LotIndex] Failed to read persisted bids, rescanning:", error);
+  }
+
+  const latestBlock = await publicClient.getBlockNumber();
+  const rescanFrom = lastBlock - REORG_BUFFER + 1n;
+  const fromBlock = rescanFrom > deploymentBlock ? rescanFrom : deploymentBlock;
+
+  if (fromBlock <= latestBlock) {
+    const filter = { address: contractAddress, event: getLotEventAbi("BidSubmitted"), args: { bidder } };
+    await fetchLogsInRanges(publicClient, filter, fromBlock, latestBlock, (logs) => {
+      logs.forEach((log) => lots.set((log.args.lotId as bigint).toString(), log.blockNumber));
+    });
+
+    try {
+      await bidderStore.set(key, {
+        version: BIDDER_LOTS_VERSION,
+        lastBlock: latestBlock.toString(),
+        lots: Array.from(lots, ([lotId, blockNumber]) => ({
+          lotId,
+          blockNumber: blockNumber === null ? null : blockNumber.toString(),
+        })),
+      });
+    } catch (error) {
+      console.warn("[LotIndex] Failed to persist bids:", error);
+    }
+  }
+
+  return Array.from(lots, ([lotId, blockNumber]) => ({ lotId: BigInt(lotId), blockNumber }));
+}
+
+/**
+ * Drop the persisted index for a contract so the next sync rebuilds it from the deployment block.
+ */
+export async function resetLotIndex(chainId: number, contractAddress: Address): Promise<void> {
+  const key = indexKey(chainId, contractAddress);
+  memoryIndex.delete(key);
+  await store.delete(key);
+  const bidderKeys = (await bidderStore.keys()).filter((bidderKey) => bidderKey.startsWith(`${key}:`));
+  await Promise.all(bidderKeys.map((bidderKey) => bidderStore.delete(bidderKey)));
+}
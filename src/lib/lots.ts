@@ -0,0 +1,230 @@
+import nftPreview1 from "@/assets/nft-preview-1.jpg";
+import nftPreview2 from "@/assets/nft-preview-2.jpg";
+import nftPreview3 from "@/assets/nft-preview-3.jpg";
+
+/**
+ * Lot model shared by the contract readers, the event index and the UI,
+ * plus presentation helpers used by the marketplace grid and the lot detail page.
+ */
+
+export type TokenStandard = "erc721" | "erc1155";
+
+/**
+ * One token escrowed by a lot. `amount` is always 1 for ERC-721 items.
+ */
+export interface LotItem {
+  standard: TokenStandard;
+  token: string;
+  tokenId: bigint;
+  amount: bigint;
+}
+
+/** Order of the contract's `TokenStandard` enum */
+export const TOKEN_STANDARDS: readonly TokenStandard[] = ["erc721", "erc1155"];
+
+/**
+ * Pricing rule of a lot: the winner pays their own bid, or the second-highest bid
+ * (Vickrey), never less than the reserve. Uniform-price lots sell `supply` editions to
+ * the top bids, all at the first losing bid.
+ */
+export type AuctionType = "first-price" | "second-price" | "uniform-price";
+
+/** Order of the contract's `AuctionType` enum */
+export const AUCTION_TYPES: readonly AuctionType[] = ["first-price", "second-price", "uniform-price"];
+
+const AUCTION_TYPE_LABELS: Record<AuctionType, string> = {
+  "first-price": "First price",
+  "second-price": "Second price",
+  "uniform-price": "Uniform price",
+};
+
+export const auctionTypeLabel = (type: AuctionType) => AUCTION_TYPE_LABELS[type];
+
+export interface LotSummary {
+  id: bigint;
+  curator: string;
+  startTime: number;
+  endTime: number;
+  closed: boolean;
+  revealRequested: boolean;
+  settled: boolean;
+  /** Pulled by the curator while no bid stood; cancelled lots are also closed */
+  cancelled: boolean;
+  /** Bid indices issued so far, including withdrawn bids */
+  bidCount: number;
+  /** Bids still standing after withdrawals */
+  activeBidCount: number;
+  encryptedReserve: `0x${string}`;
+  encryptedWinningBid: `0x${string}`;
+  encryptedWinningIndex: `0x${string}`;
+  encryptedReserveMet: `0x${string}`;
+  auctionType: AuctionType;
+  /** Editions sold to the top bids; always 1 unless uniform-price */
+  supply: number;
+  /** Winners recorded at settlement, up to `supply` */
+  winnerCount: number;
+  /** Best losing bid so far: the runner-up, or the (N+1)th bid on uniform-price lots; zero handle on first-price lots */
+  encryptedSecondBid: `0x${string}`;
+  /** Price each winner pays, computed when the lot closes */
+  encryptedClearingPrice: `0x${string}`;
+  /** Winner, or the highest of the winners on uniform-price lots */
+  winner: string;
+  /** Clearing price charged to each winner */
+  revealedAmount: bigint;
+  /** Only meaningful once settled: false means the lot closed below reserve or without bids */
+  reserveMet: boolean;
+  /** Wei every bid must lock in escrow; also the maximum bid */
+  depositCap: bigint;
+  proceedsWithdrawn: boolean;
+  /** Account that closed the lot after its end time in the curator's place; zero address otherwise */
+  keeper: string;
+  /** Share of the proceeds credited to `keeper` at settlement */
+  keeperReward: bigint;
+  /** Seconds before `endTime` in which a bid extends the lot; 0 for a hard close */
+  softCloseWindow: number;
+  /** Seconds each late bid adds to `endTime` */
+  softCloseExtension: number;
+  /** Latest `endTime` extensions can reach */
+  maxEndTime: number;
+  /** Tokens held in escrow and released together at settlement; empty for metadata-only lots */
+  items: LotItem[];
+  metadataURI: string;
+}
+
+export type RawLot = {
+  curator: string;
+  startTime: bigint;
+  endTime: bigint;
+  closed: boolean;
+  revealRequested: boolean;
+  settled: boolean;
+  cancelled: boolean;
+  bidCount: bigint;
+  activeBidCount: bigint;
+  encryptedReserve: `0x${string}`;
+  encryptedWinningBid: `0x${string}`;
+  encryptedWinningIndex: `0x${string}`;
+  encryptedReserveMet: `0x${string}`;
+  auctionType: number;
+  supply: number;
+  winnerCount: number;
+  encryptedSecondBid: `0x${string}`;
+  encryptedClearingPrice: `0x${string}`;
+  winner: string;
+  revealedAmount: bigint;
+  reserveMet: boolean;
+  depositCap: bigint;
+  proceedsWithdrawn: boolean;
+  keeper: string;
+  keeperReward: bigint;
+  softCloseWindow: number;
+  softCloseExtension: number;
+  maxEndTime: bigint;
+  /** ERC-721 and ERC-1155 items held in escrow for the lot; empty for metadata-only lots */
+  items: readonly { standard: number; token: string; tokenId: bigint; amount: bigint }[];
+  metadataURI: string;
+};
+
+export const transformLot = (id: bigint, lot: RawLot): LotSummary => ({
+  id,
+  curator: lot.curator,
+  startTime: Number(lot.startTime),
+  endTime: Number(lot.endTime),
+  closed: lot.closed,
+  revealRequested: lot.revealRequested,
+  settled: lot.settled,
+  cancelled: Boolean(lot.cancelled),
+  bidCount: Number(lot.bidCount),
+  activeBidCount: Number(lot.activeBidCount ?? lot.bidCount),
+  encryptedReserve: lot.encryptedReserve,
+  encryptedWinningBid: lot.encryptedWinningBid,
+  encryptedWinningIndex: lot.encryptedWinningIndex,
+  encryptedReserveMet: lot.encryptedReserveMet,
+  auctionType: AUCTION_TYPES[Number(lot.auctionType ?? 0)],
+  supply: Number(lot.supply ?? 1),
+  winnerCount: Number(lot.winnerCount ?? 0),
+  encryptedSecondBid: lot.encryptedSecondBid,
+  encryptedClearingPrice: lot.encryptedClearingPrice,
+  winner: lot.winner,
+  revealedAmount: BigInt(lot.revealedAmount ?? 0n),
+  reserveMet: lot.reserveMet,
+  depositCap: BigInt(lot.depositCap ?? 0n),
+  proceedsWithdrawn: lot.proceedsWithdrawn,
+  keeper: lot.keeper,
+  keeperReward: BigInt(lot.keeperReward ?? 0n),
+  softCloseWindow: Number(lot.softCloseWindow ?? 0),
+  softCloseExtension: Number(lot.softCloseExtension ?? 0),
+  maxEndTime: Number(lot.maxEndTime ?? lot.endTime),
+  items: (lot.items ?? []).map((item) => ({
+    standard: TOKEN_STANDARDS[Number(item.standard)],
+    token: item.token,
+    tokenId: BigInt(item.tokenId),
+    amount: BigInt(item.amount),
+  })),
+  metadataURI: lot.metadataURI,
+});
+
+export type LotStatus = "active" | "ended" | "upcoming" | "cancelled";
+
+/**
+ * Settled lots that did not sell, either below the encrypted reserve or without bids.
+ */
+export const isUnsold = (lot: Pick<LotSummary, "settled" | "reserveMet">) => lot.settled && !lot.reserveMet;
+
+/**
+ * Whether the curator may still pull the lot: nothing closed it yet, and it has not
+ * opened or has no standing bid (withdrawn bids do not count). Mirrors `cancelLot`.
+ */
+export const canCancel = (lot: Pick<LotSummary, "closed" | "startTime" | "activeBidCount">) =>
+  !lot.closed && (lot.activeBidCount === 0 || lot.startTime > Math.floor(Date.now() / 1000));
+
+/**
+ * Lots that escrow tokens rather than only referencing off-chain metadata.
+ */
+export const hasEscrowedItems = (lot: Pick<LotSummary, "items">) => lot.items.length > 0;
+
+/**
+ * Lots whose close moves back when bids arrive in its final window.
+ */
+export const hasSoftClose = (lot: Pick<LotSummary, "softCloseWindow">) => lot.softCloseWindow > 0;
+
+const artworkPool = [nftPreview1, nftPreview2, nftPreview3];
+
+/**
+ * Derive the bidding status of a lot from its window and close flags.
+ */
+export const deriveStatus = (startTime: number, endTime: number, closed: boolean, cancelled = false): LotStatus => {
+  const now = Math.floor(Date.now() / 1000);
+  if (cancelled) return "cancelled";
+  if (closed || endTime <= now) return "ended";
+  if (startTime > now) return "upcoming";
+  return "active";
+};
+
+/**
+ * Fallback artwork for lots without metadata, stable per lot id so the grid and
+ * the detail page show the same image.
+ */
+export const lotArtwork = (lotId: bigint) => artworkPool[Number(lotId % BigInt(artworkPool.length))];
+
+/**
+ * Convert IPFS URIs to an HTTP gateway URL.
+ */
+export const resolveMetadataUrl = (uri: string) =>
+  uri.startsWith("ipfs://") ? uri.replace("ipfs://", "https://ipfs.io/ipfs/") : uri;
+
+export const truncateHex = (value: string, visible = 6) =>
+  value.length <= visible * 2 + 2 ? value : `${value.slice(0, visible + 2)}…${value.slice(-visible)}`;
+
+/**
+ * Share of a sale, in basis points, the contract credits to a keeper that closed the lot.
+ * Mirrors `KEEPER_REWARD_BPS` in BlindBidAuction.sol.
+ */
+export const KEEPER_REWARD_BPS = 50;
+
+export const isZeroHash = (value: string | undefined | null) => !value || /^0x0*$/.test(value);
+
+/**
+ * Deep link to a single lot.
+ */
+export const lotPath = (lotId: bigint | string) => `/auctions/${lotId.toString()}`;
@@ -6,39 +6,37 @@ import Header from "@/components/layout/Header";
 import BlindBidLotCard from "@/components/auction/BlindBidLotCard";
 import BlindBidSubmissionForm from "@/components/auction/BlindBidSubmissionForm";
 import { CreateAuctionDialog } from "@/components/auction/CreateAuctionDialog";
+import { BidVaultDialog } from "@/components/auction/BidVaultDialog";
+import { UpcomingDrops } from "@/components/auction/UpcomingDrops";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import nftPreview1 from "@/assets/nft-preview-1.jpg";
-import nftPreview2 from "@/assets/nft-preview-2.jpg";
-import nftPreview3 from "@/assets/nft-preview-3.jpg";
 import { useLots } from "@/hooks/useLots";
+import { useLiveLotUpdates } from "@/hooks/useLiveLotUpdates";
 import { appEnv } from "@/config/env";
-
-const artworkPool = [nftPreview1, nftPreview2, nftPreview3];
-
-const deriveStatus = (startTime: number, endTime: number, closed: boolean): "active" | "ended" | "upcoming" => {
-  const now = Math.floor(Date.now() / 1000);
-  if (closed || endTime <= now) return "ended";
-  if (startTime > now) return "upcoming";
-  return "active";
-};
+import { deriveStatus, hasSoftClose, isUnsold, lotArtwork } from "@/lib/lots";
 
 export default function Auction() {
   const { data: lots = [], isLoading } = useLots();
+  useLiveLotUpdates();
   const [selectedLotId, setSelectedLotId] = useState<string | null>(null);
 
   const decoratedLots = useMemo(
     () =>
-      lots.map((lot, index) => ({
+      lots.map((lot) => ({
         lotId: lot.id,
         title: lot.metadataURI || `Encrypted Lot #${lot.id.toString()}`,
         curator: lot.curator,
         endTime: lot.endTime,
-        totalBids: lot.bidCount,
-        status: deriveStatus(lot.startTime, lot.endTime, lot.closed),
+        totalBids: lot.activeBidCount,
+        status: deriveStatus(lot.startTime, lot.endTime, lot.closed, lot.cancelled),
         encryptedReserve: lot.encryptedReserve,
-        image: artworkPool[index % artworkPool.length],
+        image: lotArtwork(lot.id),
         metadataURI: lot.metadataURI,
+        auctionType: lot.auctionType,
+        supply: lot.supply,
+        softClose: hasSoftClose(lot),
+        items: lot.items,
+        unsold: isUnsold(lot),
       })),
     [lots],
   );
@@ -83,6 +81,7 @@ export default function Auction() {
 
             {/* Right: Actions */}
             <div className="flex items-center gap-3">
+              <BidVaultDialog />
               <CreateAuctionDialog />
             </div>
           </div>
@@ -95,6 +94,7 @@ export default function Auction() {
           <div className="grid lg:grid-cols-3 gap-6">
             {/* Auction Cards - 2 columns on desktop */}
             <div className="lg:col-span-2">
+              <UpcomingDrops lots={lots} />
               {isLoading ? (
                 <div className="grid md:grid-cols-2 gap-4">
                   {[...Array(4)].map((_, index) => (
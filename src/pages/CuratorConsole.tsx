@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import { useAccount } from "wagmi";
+import { Gavel, Layers } from "lucide-react";
+
+import Header from "@/components/layout/Header";
+import { CreateAuctionDialog } from "@/components/auction/CreateAuctionDialog";
+import { CuratorLotCard } from "@/components/auction/CuratorLotCard";
+import { Card } from "@/components/ui/card";
+import { useLots } from "@/hooks/useLots";
+import { useLiveLotUpdates } from "@/hooks/useLiveLotUpdates";
+
+export default function CuratorConsole() {
+  const { address } = useAccount();
+  const { data: lots = [], isLoading } = useLots({ includeCancelled: true });
+  useLiveLotUpdates();
+
+  const curatedLots = useMemo(
+    () => (address ? lots.filter((lot) => lot.curator.toLowerCase() === address.toLowerCase()) : []),
+    [lots, address],
+  );
+
+  const now = Math.floor(Date.now() / 1000);
+  const readyToClose = curatedLots.filter((lot) => !lot.closed && lot.endTime < now).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <section className="pt-24 pb-8 border-b border-border/50">
+        <div className="container mx-auto px-4 flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground mb-3">My Lots</h1>
+            <div className="flex items-center gap-6 text-sm text-muted-foreground">
+              <span className="flex items-center gap-2">
+                <Layers className="w-4 h-4" />
+                <span className="font-semibold text-foreground">{curatedLots.length}</span> Curated
+              </span>
+              <span className="flex items-center gap-2">
+                <Gavel className="w-4 h-4" />
+                <span className="font-semibold text-foreground">{readyToClose}</span> Ready to close
+              </span>
+            </div>
+          </div>
+          <CreateAuctionDialog />
+        </div>
+      </section>
+
+      <section className="py-8">
+        <div className="container mx-auto px-4">
+          {!address ? (
+            <Card className="glass-card p-12 text-center text-muted-foreground">
+              Connect your wallet to manage the lots you curate.
+            </Card>
+          ) : isLoading ? (
+            <div className="grid md:grid-cols-2 gap-6">
+              {[...Array(2)].map((_, i) => (
+                <div key={i} className="h-48 rounded-xl bg-muted/30 animate-pulse" />
+              ))}
+            </div>
+          ) : curatedLots.length === 0 ? (
+            <Card className="glass-card p-12 text-center text-muted-foreground">
+              You have not created any lots yet.
+            </Card>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-6">
+              {curatedLots.map((lot) => (
+                <CuratorLotCard key={lot.id.toString()} lot={lot} />
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
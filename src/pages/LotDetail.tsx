@@ -0,0 +1,516 @@
+import { useMemo, type ReactNode } from "react";
+import { Link, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { format, formatDistanceToNow } from "date-fns";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  CalendarClock,
+  CheckCircle2,
+  Copy,
+  Gavel,
+  Layers,
+  Link2,
+  Lock,
+  ShieldCheck,
+  Trophy,
+  User,
+  XCircle,
+} from "lucide-react";
+
+import Header from "@/components/layout/Header";
+import BlindBidSubmissionForm from "@/components/auction/BlindBidSubmissionForm";
+import { CloseLotButton } from "@/components/auction/CloseLotButton";
+import { LotItemsGallery } from "@/components/auction/LotItemsGallery";
+import { RevealBidButton } from "@/components/auction/RevealBidButton";
+import { WithdrawBidButton } from "@/components/auction/WithdrawBidButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useLot, type LotSummary } from "@/hooks/useLots";
+import { useLotMetadata } from "@/hooks/useLotMetadata";
+import { useBidEnvelope } from "@/hooks/useBidEnvelope";
+import { useLiveLotUpdates } from "@/hooks/useLiveLotUpdates";
+import { useLotWinners } from "@/hooks/useLotWinners";
+import {
+  auctionTypeLabel,
+  deriveStatus,
+  hasEscrowedItems,
+  hasSoftClose,
+  isUnsold,
+  isZeroHash,
+  KEEPER_REWARD_BPS,
+  lotArtwork,
+  resolveMetadataUrl,
+  truncateHex,
+} from "@/lib/lots";
+
+const statusConfig = {
+  active: { label: "Live", color: "bg-primary" },
+  ended: { label: "Ended", color: "bg-muted" },
+  upcoming: { label: "Upcoming", color: "bg-accent" },
+  cancelled: { label: "Cancelled", color: "bg-destructive" },
+} as const;
+
+const copyToClipboard = async (value: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  } catch {
+    toast.error(`Unable to copy ${label.toLowerCase()}`);
+  }
+};
+
+const formatTimestamp = (timestamp: number) => format(new Date(timestamp * 1000), "PPpp");
+
+interface TimelineStep {
+  label: string;
+  detail: string;
+  done: boolean;
+}
+
+const buildTimeline = (lot: LotSummary): TimelineStep[] => {
+  const now = Math.floor(Date.now() / 1000);
+  return [
+    {
+      label: "Bidding opens",
+      detail: formatTimestamp(lot.startTime),
+      done: lot.startTime <= now,
+    },
+    {
+      label: "Bidding closes",
+      detail: formatTimestamp(lot.endTime),
+      done: lot.endTime <= now || lot.closed,
+    },
+    {
+      label: lot.cancelled ? "Cancelled by curator" : isZeroHash(lot.keeper) ? "Closed by curator" : "Closed by keeper",
+      detail: lot.cancelled ? "Escrow returned to curator" : lot.closed ? "Bids sealed" : "Awaiting close",
+      done: lot.closed,
+    },
+    {
+      label: "Reveal requested",
+      detail: lot.revealRequested ? "Gateway decrypting winner" : "Not requested",
+      done: lot.revealRequested,
+    },
+    {
+      label: "Settled",
+      detail: lot.settled ? (lot.reserveMet ? "Winner revealed" : "Reserve not met") : "Pending",
+      done: lot.settled,
+    },
+  ];
+};
+
+const DetailRow = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="flex items-center justify-between gap-4 py-2 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="text-foreground text-right">{children}</span>
+  </div>
+);
+
+const HandleValue = ({ value, label }: { value: string; label: string }) =>
+  isZeroHash(value) ? (
+    <span className="text-muted-foreground">—</span>
+  ) : (
+    <button
+      type="button"
+      className="font-mono inline-flex items-center gap-1 hover:text-primary"
+      onClick={() => copyToClipboard(value, label)}
+    >
+      {truncateHex(value)}
+      <Copy className="w-3 h-3" />
+    </button>
+  );
+
+export default function LotDetail() {
+  const { lotId: lotIdParam = "" } = useParams();
+  const lotId = useMemo(() => (/^\d+$/.test(lotIdParam) ? BigInt(lotIdParam) : null), [lotIdParam]);
+
+  const { data: lot, isLoading } = useLot(lotId);
+  useLiveLotUpdates();
+  const { data: metadata } = useLotMetadata(lot?.metadataURI);
+  const { address, isConnected } = useAccount();
+  const { data: envelope, isLoading: loadingEnvelope } = useBidEnvelope(lot ? lotId : null);
+  const { data: winners = [] } = useLotWinners(lot?.auctionType === "uniform-price" ? lot : null);
+
+  if (lotId === null || (!isLoading && !lot)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <section className="pt-32 pb-16">
+          <div className="container mx-auto px-4 text-center space-y-4">
+            <h1 className="text-3xl font-bold text-foreground">Lot not found</h1>
+            <p className="text-muted-foreground">
+              Lot #{lotIdParam} does not exist on the configured BlindBid contract.
+            </p>
+            <Button asChild variant="outline">
+              <Link to="/auctions">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to auctions
+              </Link>
+            </Button>
+          </div>
+        </section>
+      </div>
+    );
+  }
+
+  if (isLoading || !lot) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <section className="pt-24 pb-8">
+          <div className="container mx-auto px-4 grid lg:grid-cols-2 gap-8">
+            <div className="aspect-square rounded-xl bg-muted/30 animate-pulse" />
+            <div className="h-[480px] rounded-xl bg-muted/30 animate-pulse" />
+          </div>
+        </section>
+      </div>
+    );
+  }
+
+  const status = deriveStatus(lot.startTime, lot.endTime, lot.closed, lot.cancelled);
+  const title = metadata?.name || lot.metadataURI || `Encrypted Lot #${lot.id.toString()}`;
+  const image = metadata?.image ? resolveMetadataUrl(metadata.image) : lotArtwork(lot.id);
+  const timeline = buildTimeline(lot);
+  const shareUrl = typeof window !== "undefined" ? window.location.href : "";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <section className="pt-24 pb-8 border-b border-border/50">
+        <div className="container mx-auto px-4 space-y-4">
+          <Link
+            to="/auctions"
+            className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            All auctions
+          </Link>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <span className="text-sm font-mono text-muted-foreground">
+                  #{lot.id.toString().padStart(3, "0")}
+                </span>
+                <Badge className={`${statusConfig[status].color} text-background border-0`}>
+                  {statusConfig[status].label}
+                </Badge>
+              </div>
+              <h1 className="text-3xl md:text-4xl font-bold text-foreground">{title}</h1>
+            </div>
+            <Button variant="outline" className="gap-2" onClick={() => copyToClipboard(shareUrl, "Lot link")}>
+              <Link2 className="w-4 h-4" />
+              Copy link
+            </Button>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-8">
+        <div className="container mx-auto px-4">
+          <div className="grid lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.6 }}>
+                <Card className="glass-card overflow-hidden">
+                  <div className="grid md:grid-cols-2">
+                    <div className="relative aspect-square">
+                      <img src={image} alt={title} className="w-full h-full object-cover" />
+                      <div className="absolute top-4 right-4 w-10 h-10 rounded-full glass-card flex items-center justify-center">
+                        <Lock className="w-5 h-5 text-primary" />
+                      </div>
+                    </div>
+                    <div className="p-6 space-y-4">
+                      {metadata?.description && (
+                        <p className="text-sm text-muted-foreground leading-relaxed">{metadata.description}</p>
+                      )}
+                      {metadata?.attributes && metadata.attributes.length > 0 && (
+                        <div className="grid grid-cols-2 gap-2">
+                          {metadata.attributes.map((attribute) => (
+                            <div
+                              key={attribute.trait_type}
+                              className="p-2 rounded-lg bg-secondary border border-border text-xs"
+                            >
+                              <p className="text-muted-foreground">{attribute.trait_type}</p>
+                              <p className="font-medium text-foreground">{attribute.value}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="divide-y divide-border/50">
+                        <DetailRow label="Curator">
+                          <button
+                            type="button"
+                            className="font-mono inline-flex items-center gap-1 hover:text-primary"
+                            onClick={() => copyToClipboard(lot.curator, "Curator address")}
+                          >
+                            <User className="w-3 h-3" />
+                            {truncateHex(lot.curator, 4)}
+                          </button>
+                        </DetailRow>
+                        {!isZeroHash(lot.keeper) && (
+                          <DetailRow label="Closed by keeper">
+                            <span className="font-mono">{truncateHex(lot.keeper, 4)}</span>
+                          </DetailRow>
+                        )}
+                        <DetailRow label="Pricing">
+                          <span className="font-medium">
+                            {auctionTypeLabel(lot.auctionType)}
+                            {lot.auctionType === "uniform-price" && ` · ${lot.supply} editions`}
+                          </span>
+                        </DetailRow>
+                        {hasSoftClose(lot) && (
+                          <DetailRow label="Soft close">
+                            <span className="text-right">
+                              <span className="font-medium">
+                                +{lot.softCloseExtension / 60} min for bids in the last {lot.softCloseWindow / 60} min
+                              </span>
+                              <span className="block text-xs text-muted-foreground">
+                                Closes by {formatTimestamp(lot.maxEndTime)} at the latest
+                              </span>
+                            </span>
+                          </DetailRow>
+                        )}
+                        <DetailRow label="Sealed bids">
+                          <span className="font-bold text-primary">{lot.activeBidCount}</span>
+                        </DetailRow>
+                        <DetailRow label="Encrypted reserve">
+                          <HandleValue value={lot.encryptedReserve} label="Reserve handle" />
+                        </DetailRow>
+                        <DetailRow label="Metadata">
+                          {lot.metadataURI ? (
+                            <a
+                              href={resolveMetadataUrl(lot.metadataURI)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-xs hover:text-primary break-all"
+                            >
+                              {truncateHex(lot.metadataURI, 12)}
+                            </a>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </DetailRow>
+                        {hasEscrowedItems(lot) && (
+                          <DetailRow label="Escrowed items">
+                            <span className="text-right">
+                              <span className="font-bold text-primary">{lot.items.length}</span>
+                              <span className="block text-xs text-muted-foreground">
+                                {isUnsold(lot)
+                                  ? "Returned to curator"
+                                  : lot.settled
+                                    ? lot.winnerCount > 1
+                                      ? "Split between winners"
+                                      : "Transferred to winner"
+                                    : "Held by the auction"}
+                              </span>
+                            </span>
+                          </DetailRow>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </Card>
+              </motion.div>
+
+              {hasEscrowedItems(lot) && (
+                <Card className="glass-card p-6 space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Layers className="w-5 h-5 text-primary" />
+                    <h2 className="text-lg font-semibold text-foreground">
+                      {lot.items.length > 1 ? "Bundle contents" : "Escrowed token"}
+                    </h2>
+                    <span className="ml-auto text-xs text-muted-foreground">Released together at settlement</span>
+                  </div>
+                  <LotItemsGallery items={lot.items} />
+                </Card>
+              )}
+
+              <Card className="glass-card p-6 space-y-4">
+                <div className="flex items-center gap-2">
+                  <CalendarClock className="w-5 h-5 text-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">Bidding window</h2>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {lot.endTime * 1000 > Date.now()
+                      ? `Closes ${formatDistanceToNow(new Date(lot.endTime * 1000), { addSuffix: true })}`
+                      : "Window ended"}
+                  </span>
+                </div>
+                <ol className="space-y-3">
+                  {timeline.map((step) => (
+                    <li key={step.label} className="flex items-start gap-3">
+                      <div
+                        className={`mt-1 w-3 h-3 rounded-full flex-shrink-0 ${
+                          step.done ? "bg-primary" : "border-2 border-border"
+                        }`}
+                      />
+                      <div className="text-sm">
+                        <p className={step.done ? "font-medium text-foreground" : "text-muted-foreground"}>
+                          {step.label}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{step.detail}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </Card>
+
+              <Card className="glass-card p-6 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Trophy className="w-5 h-5 text-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">Settlement</h2>
+                </div>
+                {isUnsold(lot) ? (
+                  <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                    <XCircle className="w-4 h-4 mt-0.5 text-destructive" />
+                    <span>
+                      <span className="font-semibold text-foreground">Reserve not met.</span>{" "}
+                      {lot.activeBidCount === 0
+                        ? "The lot closed without any bids."
+                        : "The highest sealed bid was below the encrypted reserve, so the lot did not sell and no bid was revealed."}
+                    </span>
+                  </div>
+                ) : lot.settled && lot.auctionType === "uniform-price" ? (
+                  <div className="space-y-3">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">Rank</TableHead>
+                          <TableHead>Winner</TableHead>
+                          <TableHead className="text-right">Paid</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {winners.map((winner, rank) => (
+                          <TableRow key={winner}>
+                            <TableCell className="font-mono">{rank + 1}</TableCell>
+                            <TableCell className="font-mono">
+                              {truncateHex(winner, 4)}
+                              {address && winner.toLowerCase() === address.toLowerCase() && (
+                                <Badge variant="secondary" className="ml-2">You</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{formatEther(lot.revealedAmount)} ETH</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    <p className="text-xs text-muted-foreground">
+                      Uniform-price auction: {lot.winnerCount} of {lot.supply} editions sold. Every winner paid the
+                      highest losing bid, or the reserve if that was higher, and received one edition of each escrowed
+                      item.
+                    </p>
+                  </div>
+                ) : lot.settled ? (
+                  <div className="divide-y divide-border/50">
+                    <DetailRow label="Winner">
+                      <span className="font-mono">{truncateHex(lot.winner, 4)}</span>
+                    </DetailRow>
+                    <DetailRow label="Clearing price">
+                      <span className="font-bold text-primary">{formatEther(lot.revealedAmount)} ETH</span>
+                    </DetailRow>
+                    <p className="text-xs text-muted-foreground pt-2">
+                      {lot.auctionType === "second-price"
+                        ? "Second-price auction: the winner paid the second-highest sealed bid, or the reserve if that was higher. The winning bid itself was never revealed."
+                        : "First-price auction: the winner paid their own sealed bid."}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="divide-y divide-border/50">
+                    <p className="text-sm text-muted-foreground pb-2">
+                      {lot.revealRequested
+                        ? "Bidding is closed and the gateway is decrypting the winning bid."
+                        : "The winner stays encrypted until the lot is closed and a reveal is requested."}
+                    </p>
+                    <DetailRow label="Encrypted winning bid">
+                      <HandleValue value={lot.encryptedWinningBid} label="Winning bid handle" />
+                    </DetailRow>
+                    <DetailRow label="Encrypted winning index">
+                      <HandleValue value={lot.encryptedWinningIndex} label="Winning index handle" />
+                    </DetailRow>
+                    {lot.auctionType === "second-price" && (
+                      <DetailRow label="Encrypted second bid">
+                        <HandleValue value={lot.encryptedSecondBid} label="Second bid handle" />
+                      </DetailRow>
+                    )}
+                    {lot.auctionType === "uniform-price" && (
+                      <DetailRow label="Encrypted highest losing bid">
+                        <HandleValue value={lot.encryptedSecondBid} label="Losing bid handle" />
+                      </DetailRow>
+                    )}
+                  </div>
+                )}
+              </Card>
+            </div>
+
+            <div className="lg:col-span-1 space-y-6">
+              <Card className="glass-card p-6 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Gavel className="w-5 h-5 text-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">Your bid</h2>
+                </div>
+                {!isConnected ? (
+                  <p className="text-sm text-muted-foreground">Connect your wallet to see your sealed bid on this lot.</p>
+                ) : loadingEnvelope ? (
+                  <div className="h-24 rounded-lg bg-muted/30 animate-pulse" />
+                ) : envelope ? (
+                  <div className="divide-y divide-border/50">
+                    <DetailRow label="Status">
+                      <span className="inline-flex items-center gap-1">
+                        {envelope.isSealed ? <ShieldCheck className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+                        {envelope.isSealed ? "Sealed" : "Submitted"}
+                      </span>
+                    </DetailRow>
+                    <DetailRow label="Submitted">{formatTimestamp(envelope.submittedAt)}</DetailRow>
+                    <DetailRow label="Bid index">{envelope.index}</DetailRow>
+                    <DetailRow label="Salt hash">
+                      <HandleValue value={envelope.saltHash} label="Salt hash" />
+                    </DetailRow>
+                    <DetailRow label="Encrypted amount">
+                      <HandleValue value={envelope.encryptedAmount} label="Bid handle" />
+                    </DetailRow>
+                    <DetailRow label="Amount">
+                      <RevealBidButton encryptedAmount={envelope.encryptedAmount} />
+                    </DetailRow>
+                    {status === "active" && (
+                      <div className="flex justify-end pt-3">
+                        <WithdrawBidButton lotId={lot.id} saltHash={envelope.saltHash} />
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">You have not placed a bid on this lot.</p>
+                )}
+              </Card>
+
+              {status === "ended" && !lot.closed && (
+                <Card className="glass-card p-6 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Lock className="w-5 h-5 text-primary" />
+                    <h2 className="text-lg font-semibold text-foreground">Awaiting close</h2>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Bidding has ended but nobody has closed the lot yet. Any wallet can close it and request the
+                    reveal; if the lot sells, the closer earns {KEEPER_REWARD_BPS / 100}% of the proceeds.
+                  </p>
+                  <div className="flex justify-end">
+                    <CloseLotButton lot={lot} />
+                  </div>
+                </Card>
+              )}
+
+              {status === "active" && (
+                <div className="sticky top-24">
+                  <BlindBidSubmissionForm lots={[lot]} selectedLotId={lot.id.toString()} />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { formatEther } from "viem";
+import { toast } from "sonner";
+import { Copy, Gavel, Lock, ShieldCheck, Trophy, Unlock } from "lucide-react";
+
+import Header from "@/components/layout/Header";
+import { BidVaultDialog } from "@/components/auction/BidVaultDialog";
+import { ClaimItemsButton } from "@/components/auction/ClaimItemsButton";
+import { RevealBidButton } from "@/components/auction/RevealBidButton";
+import { EscrowWithdrawButton } from "@/components/auction/EscrowWithdrawButton";
+import { WithdrawBidButton } from "@/components/auction/WithdrawBidButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMyBids, type MyBid } from "@/hooks/useMyBids";
+import { useBidVault } from "@/hooks/useBidVault";
+import { appEnv } from "@/config/env";
+import type { BidReceipt } from "@/lib/bidVault";
+import { deriveStatus, isUnsold, lotPath, truncateHex } from "@/lib/lots";
+
+const lotStateLabel = (bid: MyBid) => {
+  if (!bid.lot) return "Unknown";
+  if (bid.lot.settled) return "Settled";
+  if (bid.lot.revealRequested) return "Revealing";
+  const status = deriveStatus(bid.lot.startTime, bid.lot.endTime, bid.lot.closed, bid.lot.cancelled);
+  if (status === "cancelled") return "Cancelled";
+  return status === "active" ? "Live" : status === "upcoming" ? "Upcoming" : "Ended";
+};
+
+const copySalt = async (salt: string) => {
+  try {
+    await navigator.clipboard.writeText(salt);
+    toast.success("Salt copied");
+  } catch {
+    toast.error("Unable to copy salt");
+  }
+};
+
+export default function MyBids() {
+  const { address, bids, isLoading } = useMyBids();
+  const { state: vaultState, receipts, unlock } = useBidVault();
+
+  const receiptsByBid = useMemo(() => {
+    const contract = appEnv.contractAddress?.toLowerCase();
+    const map = new Map<string, BidReceipt>();
+    receipts
+      .filter((receipt) => receipt.contractAddress.toLowerCase() === contract)
+      .forEach((receipt) => map.set(`${receipt.lotId}:${receipt.saltHash.toLowerCase()}`, receipt));
+    return map;
+  }, [receipts]);
+
+  const wins = bids.filter((bid) => bid.isWinner).length;
+
+  const handleUnlock = async () => {
+    try {
+      await unlock();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unable to unlock the bid vault");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <section className="pt-24 pb-8 border-b border-border/50">
+        <div className="container mx-auto px-4 flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground mb-3">My Bids</h1>
+            <div className="flex items-center gap-6 text-sm text-muted-foreground">
+              <span className="flex items-center gap-2">
+                <Gavel className="w-4 h-4" />
+                <span className="font-semibold text-foreground">{bids.length}</span> Sealed bids
+              </span>
+              <span className="flex items-center gap-2">
+                <Trophy className="w-4 h-4" />
+                <span className="font-semibold text-foreground">{wins}</span> Won
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {vaultState.status !== "unlocked" && address && (
+              <Button variant="outline" className="gap-2" onClick={handleUnlock}>
+                <Unlock className="w-4 h-4" />
+                Show amounts &amp; salts
+              </Button>
+            )}
+            <BidVaultDialog />
+          </div>
+        </div>
+      </section>
+
+      <section className="py-8">
+        <div className="container mx-auto px-4">
+          {!address ? (
+            <Card className="glass-card p-12 text-center text-muted-foreground">
+              Connect your wallet to see the lots you have bid on.
+            </Card>
+          ) : isLoading ? (
+            <div className="h-64 rounded-xl bg-muted/30 animate-pulse" />
+          ) : bids.length === 0 ? (
+            <Card className="glass-card p-12 text-center space-y-4">
+              <p className="text-muted-foreground">You have not submitted any sealed bids yet.</p>
+              <Button asChild>
+                <Link to="/auctions">Browse auctions</Link>
+              </Button>
+            </Card>
+          ) : (
+            <Card className="glass-card overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Index</TableHead>
+                    <TableHead>Envelope</TableHead>
+                    <TableHead>Lot state</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Salt</TableHead>
+                    <TableHead>Deposit</TableHead>
+                    <TableHead className="text-right">Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bids.map((bid) => {
+                    const receipt = receiptsByBid.get(`${bid.lotId.toString()}:${bid.saltHash.toLowerCase()}`);
+                    return (
+                      <TableRow key={bid.lotId.toString()} className={bid.isWinner ? "bg-primary/5" : undefined}>
+                        <TableCell>
+                          <Link to={lotPath(bid.lotId)} className="font-mono font-medium hover:text-primary">
+                            #{bid.lotId.toString().padStart(3, "0")}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {format(new Date(bid.envelope.submittedAt * 1000), "PPp")}
+                        </TableCell>
+                        <TableCell className="font-mono">{bid.envelope.index}</TableCell>
+                        <TableCell>
+                          <span className="inline-flex items-center gap-1 text-sm">
+                            {bid.envelope.isSealed ? (
+                              <ShieldCheck className="w-3 h-3 text-primary" />
+                            ) : (
+                              <Lock className="w-3 h-3 text-muted-foreground" />
+                            )}
+                            {bid.envelope.isSealed ? "Sealed" : "Open"}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{lotStateLabel(bid)}</Badge>
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {receipt ? (
+                            `${formatEther(BigInt(receipt.amount))} ETH`
+                          ) : (
+                            <RevealBidButton encryptedAmount={bid.envelope.encryptedAmount} />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {receipt ? (
+                            <button
+                              type="button"
+                              className="font-mono text-xs inline-flex items-center gap-1 hover:text-primary"
+                              onClick={() => copySalt(receipt.salt)}
+                            >
+                              {truncateHex(receipt.salt, 4)}
+                              <Copy className="w-3 h-3" />
+                            </button>
+                          ) : (
+                            <span className="font-mono text-xs text-muted-foreground">{truncateHex(bid.saltHash, 4)}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {bid.lot?.settled && bid.deposit > 0n ? (
+                            <EscrowWithdrawButton lotId={bid.lotId} functionName="withdrawDeposit" amount={bid.deposit} />
+                          ) : bid.lot && deriveStatus(bid.lot.startTime, bid.lot.endTime, bid.lot.closed, bid.lot.cancelled) === "active" ? (
+                            <WithdrawBidButton lotId={bid.lotId} saltHash={bid.saltHash} />
+                          ) : (
+                            <span className="text-sm text-muted-foreground">
+                              {bid.deposit > 0n ? `${formatEther(bid.deposit)} ETH locked` : "Withdrawn"}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {bid.isWinner ? (
+                            <div className="inline-flex items-center gap-2">
+                              <Badge className="bg-primary text-background border-0 gap-1">
+                                <Trophy className="w-3 h-3" />
+                                Won · {formatEther(bid.lot?.revealedAmount ?? 0n)} ETH
+                              </Badge>
+                              {bid.lot && <ClaimItemsButton lot={bid.lot} />}
+                            </div>
+                          ) : bid.lot && isUnsold(bid.lot) ? (
+                            <span className="text-sm text-muted-foreground">Reserve not met</span>
+                          ) : bid.lot?.settled ? (
+                            <span className="text-sm text-muted-foreground">Outbid</span>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Pending</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </Card>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
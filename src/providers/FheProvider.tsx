@@ -1,22 +1,35 @@
-import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
-import { bytesToHex } from "viem";
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { useAccount, useNetwork } from "wagmi";
+import { appChain } from "@/config/chain";
 import { appEnv } from "@/config/env";
-
-// Type for FHE instance (will be loaded dynamically)
-type FhevmInstance = any;
+import {
+  clearDecryptionPermits,
+  encryptBid as encryptBidWithClient,
+  ensureFheInstance,
+  getFheConfig,
+  getFheState,
+  onFheStateChange,
+  type EncryptedBid,
+  type FheInitState,
+  type FheNetworkConfig,
+} from "@/lib/fhe";
 
 /**
  * FheProvider - Fully Homomorphic Encryption (FHE) SDK Integration
  *
- * This provider initializes the Zama FHE SDK and provides encryption utilities
- * for creating confidential bids. The FHE system allows users to encrypt their
- * bid amounts client-side, ensuring privacy throughout the auction process.
+ * This provider exposes the shared FHE client from `lib/fhe.ts` to React components.
+ * It does not create an SDK instance of its own: the forms that call `lib/fhe.ts`
+ * directly and the components reading this context see the same instance, the same
+ * initialization state and the same network configuration.
  *
  * Key features:
+ * - Pre-warms the client once a wallet is connected to the app chain, so the
+ *   SDK and network keys are ready before the first bid
  * - WASM-based encryption (runs in browser)
  * - Zero-knowledge proof generation
  * - Client-side key management
- * - Integration with Sepolia testnet
+ * - Network settings from `lib/fhe.ts`: the SDK's Sepolia contracts with the relayer and
+ *   RPC from the environment (VITE_APP_RELAYER_URL, VITE_APP_RPC_URL)
  */
 
 /**
@@ -27,25 +40,17 @@ interface EncryptBidParams {
   account: string;    // User's wallet address (for proof generation)
 }
 
-/**
- * Result of bid encryption
- * Contains ciphertext and zero-knowledge proof required by the smart contract
- */
-interface EncryptedBidPayload {
-  ciphertext: `0x${string}`;   // Encrypted bid amount (256-bit handle)
-  inputProof: `0x${string}`;   // Zero-knowledge proof for verification
-}
-
 /**
  * FHE Context shape
  * Provides encryption functionality and SDK status to child components
  */
 interface FheContextShape {
+  state: FheInitState;                                               // Client state machine
   ready: boolean;                                                    // SDK initialization status
   error: string | null;                                              // Initialization error if any
   contractAddress: `0x${string}` | null;                            // BlindBid contract address
-  relayerUrl: string;                                                // Zama relayer endpoint
-  encryptBid: (params: EncryptBidParams) => Promise<EncryptedBidPayload>;  // Encryption function
+  network: FheNetworkConfig;                                         // Network the client connects to
+  encryptBid: (params: EncryptBidParams) => Promise<EncryptedBid>;   // Encryption function
 }
 
 const FheContext = createContext<FheContextShape | undefined>(undefined);
@@ -57,154 +62,57 @@ interface FheProviderProps {
 /**
  * FheProvider Component
  *
- * Bootstraps the Zama FHE SDK on mount and provides encryption utilities
- * to the entire application through React Context.
+ * Starts the shared FHE client once a wallet connects on the app chain and mirrors
+ * its state into React Context. Visitors who never connect do not download the SDK.
  *
- * Initialization process:
- * 1. Load WASM modules (multi-threaded for performance)
- * 2. Initialize SDK with Sepolia configuration
- * 3. Create FHE instance connected to relayer
- * 4. Expose encryption functions to child components
- *
- * Must be placed below Web3Provider in component tree to ensure
- * wallet is connected before FHE operations.
+ * Must be placed below Web3Provider in component tree: it reads the wallet connection.
  */
 export const FheProvider = ({ children }: FheProviderProps) => {
-  // FHE instance state
-  const [instance, setInstance] = useState<FhevmInstance | null>(null);
-  const [ready, setReady] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [state, setState] = useState<FheInitState>(getFheState());
+  const { address, status } = useAccount();
+  const { chain } = useNetwork();
+  const onAppChain = status === "connected" && chain?.id === appChain.id;
+  const previousAddress = useRef(address);
+
+  // Follow the client's state
+  useEffect(() => onFheStateChange(setState), []);
 
   /**
-   * Initialize FHE SDK on component mount
-   * Runs once and cleans up on unmount
+   * Forget the previous wallet's decryption permits when it disconnects or the account changes
    */
   useEffect(() => {
-    let cancelled = false;
-
-    const boot = async () => {
-      // Validate contract address configuration
-      if (!appEnv.contractAddress) {
-        setError("BlindBid contract address is not configured. Please set VITE_APP_CONTRACT_ADDRESS in .env");
-        return;
-      }
-
-      try {
-        console.log("[FHE] Initializing Zama FHE SDK...");
-
-        // Dynamically import the FHE SDK to avoid module loading issues
-        // Use /bundle path which includes all dependencies pre-bundled
-        const { createInstance, initSDK, SepoliaConfig } = await import(
-          "@zama-fhe/relayer-sdk/bundle"
-        );
-
-        // Detect optimal thread count for WASM performance
-        // Uses hardware concurrency (CPU cores) with fallback to 4
-        const threadCount = typeof navigator !== "undefined" ? navigator.hardwareConcurrency ?? 4 : 4;
-        console.log(`[FHE] Using ${threadCount} threads for WASM execution`);
-
-        // Initialize WASM modules
-        // This loads the cryptographic libraries needed for FHE operations
-        await initSDK({ thread: threadCount });
-
-        console.log("[FHE] WASM modules loaded, creating FHE instance...");
-
-        // Create FHE instance with Sepolia configuration
-        const fheInstance = await createInstance({
-          ...SepoliaConfig,                // Default Sepolia network config
-          network: appEnv.rpcUrl,          // Custom RPC endpoint
-          relayerUrl: appEnv.relayerUrl,   // Zama relayer for key management
-        });
-
-        console.log("[FHE] FHE instance created successfully");
-
-        // Update state only if component is still mounted
-        if (!cancelled) {
-          setInstance(fheInstance);
-          setReady(true);
-        }
-      } catch (initialisationError) {
-        // Handle initialization errors gracefully
-        if (!cancelled) {
-          const message =
-            initialisationError instanceof Error
-              ? `FHE initialization failed: ${initialisationError.message}`
-              : "Failed to initialize the FHE client. Please refresh the page.";
-
-          console.error("[FHE]", message, initialisationError);
-          setError(message);
-        }
-      }
-    };
+    if (previousAddress.current && previousAddress.current !== address) {
+      clearDecryptionPermits(previousAddress.current);
+    }
+    previousAddress.current = address;
+  }, [address]);
 
-    void boot();
-
-    // Cleanup on unmount
-    return () => {
-      cancelled = true;
-    };
-  }, []);
+  /**
+   * Start initialization once the wallet is on the app chain
+   * Initialization failures are reported through the state
+   */
+  useEffect(() => {
+    if (!onAppChain) return;
+    console.log("[FHE] Wallet connected on the app chain, triggering FHE initialization...");
+    ensureFheInstance().catch((error) => {
+      console.error("[FHE] FHE initialization failed:", error);
+    });
+  }, [onAppChain]);
 
   /**
-   * Encrypt a bid amount for submission to the smart contract
-   *
-   * Process:
-   * 1. Create encrypted input for the contract
-   * 2. Add bid amount as euint64 type
-   * 3. Generate ciphertext and zero-knowledge proof
-   * 4. Return both for transaction submission
+   * Encrypt a bid amount for the configured BlindBid contract
    *
    * @param value - Bid amount in wei (must fit in uint64)
    * @param account - User's wallet address
    * @returns Encrypted payload ready for contract call
-   * @throws Error if SDK not ready or encryption fails
+   * @throws Error if the contract address is missing or encryption fails
    */
-  const encryptBid = useCallback(
-    async ({ value, account }: EncryptBidParams): Promise<EncryptedBidPayload> => {
-      // Validate FHE instance is ready
-      if (!instance) {
-        throw new Error("FHE instance not ready. Please wait for initialization to complete.");
-      }
-
-      if (!appEnv.contractAddress) {
-        throw new Error("BlindBid contract address is not configured.");
-      }
-
-      console.log(`[FHE] Encrypting bid: ${value} wei for account ${account}`);
-
-      try {
-        // Create encrypted input builder
-        // This sets up the encryption context for the specific contract and user
-        const encryptedInput = instance.createEncryptedInput(appEnv.contractAddress, account);
-
-        // Add bid amount as 64-bit encrypted unsigned integer
-        // The value is encrypted client-side before leaving the browser
-        encryptedInput.add64(value);
-
-        // Generate ciphertext and proof
-        // The relayer provides public keys for encryption
-        const result = await encryptedInput.encrypt();
-
-        // Validate encryption result
-        if (!result.handles || result.handles.length === 0) {
-          throw new Error("Failed to obtain ciphertext handle from relayer.");
-        }
-
-        console.log("[FHE] Bid encrypted successfully");
-
-        // Convert binary handles to hex strings for transaction
-        return {
-          ciphertext: bytesToHex(result.handles[0]),  // First handle = encrypted bid
-          inputProof: bytesToHex(result.inputProof),  // ZK proof for verification
-        };
-      } catch (encryptError) {
-        const message = encryptError instanceof Error ? encryptError.message : "Encryption failed";
-        console.error("[FHE] Encryption error:", encryptError);
-        throw new Error(`Failed to encrypt bid: ${message}`);
-      }
-    },
-    [instance],
-  );
+  const encryptBid = useCallback(async ({ value, account }: EncryptBidParams): Promise<EncryptedBid> => {
+    if (!appEnv.contractAddress) {
+      throw new Error("BlindBid contract address is not configured.");
+    }
+    return encryptBidWithClient(appEnv.contractAddress as `0x${string}`, account as `0x${string}`, value);
+  }, []);
 
   /**
    * Context value memoization
@@ -212,13 +120,15 @@ export const FheProvider = ({ children }: FheProviderProps) => {
    */
   const value = useMemo<FheContextShape>(
     () => ({
-      ready,
-      error,
+      state,
+      ready: state.status === "ready",
+      error: state.status === "error" ? state.error : null,
       contractAddress: appEnv.contractAddress as `0x${string}` | null,
-      relayerUrl: appEnv.relayerUrl,
+      // Read on every state change so an override through configureFhe(), which resets the client, shows up
+      network: getFheConfig(),
       encryptBid,
     }),
-    [ready, error, encryptBid],
+    [state, encryptBid],
   );
 
   return <FheContext.Provider value={value}>{children}</FheContext.Provider>;
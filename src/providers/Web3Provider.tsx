@@ -2,8 +2,8 @@ import { ReactNode } from "react";
 import { WagmiConfig, configureChains, createConfig } from "wagmi";
 import { InjectedConnector } from "wagmi/connectors/injected";
 import { WalletConnectConnector } from "wagmi/connectors/walletConnect";
-import { sepolia } from "wagmi/chains";
 import { jsonRpcProvider } from "wagmi/providers/jsonRpc";
+import { appChain } from "@/config/chain";
 import { appEnv } from "@/config/env";
 
 /**
@@ -19,17 +19,19 @@ import { appEnv } from "@/config/env";
 
 /**
  * Supported blockchain networks
- * Only Sepolia testnet is supported as required by Zama fhEVM
+ * Only Sepolia testnet is supported as required by Zama fhEVM; the mock FHE backend
+ * swaps it for the local Hardhat node
  */
-const supportedChains = [sepolia];
+const supportedChains = [appChain];
 
 /**
  * Configure blockchain providers and RPC endpoints
- * Uses custom RPC URL from environment configuration
+ * Uses custom RPC URL from environment configuration; the optional WebSocket
+ * endpoint backs live contract event subscriptions
  */
 const { chains, publicClient, webSocketPublicClient } = configureChains(supportedChains, [
   jsonRpcProvider({
-    rpc: () => ({ http: appEnv.rpcUrl }),
+    rpc: () => ({ http: appEnv.rpcUrl, webSocket: appEnv.wsRpcUrl ?? undefined }),
   }),
 ]);
 
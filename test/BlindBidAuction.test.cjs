@@ -1,5 +1,6 @@
 const { expect } = require("chai");
-const { ethers } = require("hardhat");
+const hre = require("hardhat");
+const { ethers } = hre;
 const { time } = require("@nomicfoundation/hardhat-network-helpers");
 
 /**
@@ -15,14 +16,15 @@ describe("BlindBidAuction", function () {
   let bidder2;
   let gatewayOperator;
 
-  // Helper function to create mock encrypted input (simplified for testing)
-  function createMockEncryptedInput(value) {
-    // In real tests with fhEVM mock utils, you would use proper encryption
-    // For now, we use a simple bytes32 representation
-    return {
-      data: ethers.keccak256(ethers.toUtf8Bytes(`encrypted_${value}`)),
-      proof: ethers.keccak256(ethers.toUtf8Bytes(`proof_${value}`)),
-    };
+  const DEPOSIT = ethers.parseEther("1");
+  const HARD_CLOSE = { window: 0, extension: 0, maxExtension: 0 };
+
+  // Encrypt an amount with the fhEVM mock for `signer` to submit to `auction`
+  async function createEncryptedInput(auction, signer, value) {
+    const input = hre.fhevm.createEncryptedInput(await auction.getAddress(), signer.address);
+    input.add64(BigInt(value));
+    const encrypted = await input.encrypt();
+    return { data: encrypted.handles[0], proof: encrypted.inputProof };
   }
 
   // Helper to create salt hash
@@ -64,7 +66,7 @@ describe("BlindBidAuction", function () {
       const startTime = currentTime + 3600; // 1 hour from now
       const endTime = startTime + 86400; // 24 hours duration
 
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
 
       const tx = await blindBidAuction
         .connect(curator)
@@ -73,7 +75,12 @@ describe("BlindBidAuction", function () {
           startTime,
           endTime,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       await expect(tx)
@@ -93,18 +100,18 @@ describe("BlindBidAuction", function () {
       const startTime = currentTime + 3600;
       const endTime = startTime - 1000; // End before start
 
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
 
       await expect(
         blindBidAuction
           .connect(curator)
-          .createLot("ipfs://Qm...", startTime, endTime, mockReserve.data, mockReserve.proof)
+          .createLot("ipfs://Qm...", startTime, endTime, mockReserve.data, mockReserve.proof, 0, 0, 1, HARD_CLOSE, [])
       ).to.be.revertedWithCustomError(blindBidAuction, "InvalidWindow");
     });
 
     it("Should allow multiple lots to be created", async function () {
       const currentTime = await time.latest();
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
 
       await blindBidAuction
         .connect(curator)
@@ -113,7 +120,12 @@ describe("BlindBidAuction", function () {
           currentTime + 3600,
           currentTime + 90000,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       await blindBidAuction
@@ -123,7 +135,12 @@ describe("BlindBidAuction", function () {
           currentTime + 3600,
           currentTime + 90000,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       const lotIds = await blindBidAuction.getAllLotIds();
@@ -143,10 +160,10 @@ describe("BlindBidAuction", function () {
       startTime = currentTime + 100;
       endTime = startTime + 3600;
 
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
       const tx = await blindBidAuction
         .connect(curator)
-        .createLot("ipfs://lot", startTime, endTime, mockReserve.data, mockReserve.proof);
+        .createLot("ipfs://lot", startTime, endTime, mockReserve.data, mockReserve.proof, 0, 0, 1, HARD_CLOSE, []);
 
       const receipt = await tx.wait();
       const event = receipt.logs.find((log) => {
@@ -162,12 +179,12 @@ describe("BlindBidAuction", function () {
     it("Should submit encrypted bid during bidding window", async function () {
       await time.increaseTo(startTime + 10);
 
-      const mockBid = createMockEncryptedInput(2000);
+      const mockBid = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const saltHash = createSaltHash("random_salt_123");
 
       const tx = await blindBidAuction
         .connect(bidder1)
-        .submitBid(lotId, mockBid.data, mockBid.proof, saltHash);
+        .submitBid(lotId, mockBid.data, mockBid.proof, saltHash, { value: DEPOSIT });
 
       await expect(tx)
         .to.emit(blindBidAuction, "BidSubmitted")
@@ -178,76 +195,76 @@ describe("BlindBidAuction", function () {
     });
 
     it("Should reject bid before bidding window opens", async function () {
-      const mockBid = createMockEncryptedInput(2000);
+      const mockBid = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const saltHash = createSaltHash("salt");
 
       await expect(
-        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, saltHash)
+        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, saltHash, { value: DEPOSIT })
       ).to.be.revertedWithCustomError(blindBidAuction, "OutsideBiddingWindow");
     });
 
     it("Should reject bid after bidding window closes", async function () {
       await time.increaseTo(endTime + 10);
 
-      const mockBid = createMockEncryptedInput(2000);
+      const mockBid = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const saltHash = createSaltHash("salt");
 
       await expect(
-        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, saltHash)
+        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, saltHash, { value: DEPOSIT })
       ).to.be.revertedWithCustomError(blindBidAuction, "OutsideBiddingWindow");
     });
 
     it("Should reject duplicate salt hash", async function () {
       await time.increaseTo(startTime + 10);
 
-      const mockBid1 = createMockEncryptedInput(2000);
+      const mockBid1 = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const saltHash = createSaltHash("same_salt");
 
-      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid1.data, mockBid1.proof, saltHash);
+      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid1.data, mockBid1.proof, saltHash, { value: DEPOSIT });
 
-      const mockBid2 = createMockEncryptedInput(3000);
+      const mockBid2 = await createEncryptedInput(blindBidAuction, bidder2, 3000);
 
       await expect(
-        blindBidAuction.connect(bidder2).submitBid(lotId, mockBid2.data, mockBid2.proof, saltHash)
+        blindBidAuction.connect(bidder2).submitBid(lotId, mockBid2.data, mockBid2.proof, saltHash, { value: DEPOSIT })
       ).to.be.revertedWithCustomError(blindBidAuction, "SaltAlreadyUsed");
     });
 
     it("Should reject empty salt hash", async function () {
       await time.increaseTo(startTime + 10);
 
-      const mockBid = createMockEncryptedInput(2000);
+      const mockBid = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const emptySalt = ethers.ZeroHash;
 
       await expect(
-        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, emptySalt)
+        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, emptySalt, { value: DEPOSIT })
       ).to.be.revertedWithCustomError(blindBidAuction, "EmptySalt");
     });
 
     it("Should reject duplicate bid from same bidder", async function () {
       await time.increaseTo(startTime + 10);
 
-      const mockBid1 = createMockEncryptedInput(2000);
+      const mockBid1 = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const saltHash1 = createSaltHash("salt1");
-      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid1.data, mockBid1.proof, saltHash1);
+      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid1.data, mockBid1.proof, saltHash1, { value: DEPOSIT });
 
-      const mockBid2 = createMockEncryptedInput(3000);
+      const mockBid2 = await createEncryptedInput(blindBidAuction, bidder1, 3000);
       const saltHash2 = createSaltHash("salt2");
 
       await expect(
-        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid2.data, mockBid2.proof, saltHash2)
+        blindBidAuction.connect(bidder1).submitBid(lotId, mockBid2.data, mockBid2.proof, saltHash2, { value: DEPOSIT })
       ).to.be.revertedWithCustomError(blindBidAuction, "BidAlreadySubmitted");
     });
 
     it("Should accept multiple bids from different bidders", async function () {
       await time.increaseTo(startTime + 10);
 
-      const mockBid1 = createMockEncryptedInput(2000);
+      const mockBid1 = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const saltHash1 = createSaltHash("salt1");
-      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid1.data, mockBid1.proof, saltHash1);
+      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid1.data, mockBid1.proof, saltHash1, { value: DEPOSIT });
 
-      const mockBid2 = createMockEncryptedInput(3000);
+      const mockBid2 = await createEncryptedInput(blindBidAuction, bidder2, 3000);
       const saltHash2 = createSaltHash("salt2");
-      await blindBidAuction.connect(bidder2).submitBid(lotId, mockBid2.data, mockBid2.proof, saltHash2);
+      await blindBidAuction.connect(bidder2).submitBid(lotId, mockBid2.data, mockBid2.proof, saltHash2, { value: DEPOSIT });
 
       const lot = await blindBidAuction.getLot(lotId);
       expect(lot.bidCount).to.equal(2);
@@ -259,7 +276,7 @@ describe("BlindBidAuction", function () {
 
     beforeEach(async function () {
       const currentTime = await time.latest();
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
 
       const tx = await blindBidAuction
         .connect(curator)
@@ -268,7 +285,12 @@ describe("BlindBidAuction", function () {
           currentTime + 100,
           currentTime + 3600,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       const receipt = await tx.wait();
@@ -317,7 +339,7 @@ describe("BlindBidAuction", function () {
       await newContract.waitForDeployment();
 
       const currentTime = await time.latest();
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(newContract, curator, 1000);
       const tx = await newContract
         .connect(curator)
         .createLot(
@@ -325,7 +347,12 @@ describe("BlindBidAuction", function () {
           currentTime + 100,
           currentTime + 3600,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       const receipt = await tx.wait();
@@ -350,7 +377,7 @@ describe("BlindBidAuction", function () {
 
     beforeEach(async function () {
       const currentTime = await time.latest();
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
 
       const tx = await blindBidAuction
         .connect(curator)
@@ -359,7 +386,12 @@ describe("BlindBidAuction", function () {
           currentTime + 100,
           currentTime + 3600,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       const receipt = await tx.wait();
@@ -374,9 +406,9 @@ describe("BlindBidAuction", function () {
 
       await time.increaseTo(currentTime + 150);
 
-      const mockBid = createMockEncryptedInput(2000);
+      const mockBid = await createEncryptedInput(blindBidAuction, bidder1, 2000);
       const saltHash = createSaltHash("winner_salt");
-      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, saltHash);
+      await blindBidAuction.connect(bidder1).submitBid(lotId, mockBid.data, mockBid.proof, saltHash, { value: DEPOSIT });
 
       await blindBidAuction.connect(curator).closeLot(lotId);
     });
@@ -387,7 +419,7 @@ describe("BlindBidAuction", function () {
 
       const tx = await blindBidAuction
         .connect(gatewayOperator)
-        .settleReveal(lotId, winningIndex, clearWinningBid, bidder1.address);
+        .settleReveal(lotId, winningIndex, clearWinningBid, bidder1.address, true);
 
       await expect(tx)
         .to.emit(blindBidAuction, "RevealSettled")
@@ -401,13 +433,13 @@ describe("BlindBidAuction", function () {
 
     it("Should reject settlement from non-gateway", async function () {
       await expect(
-        blindBidAuction.connect(bidder1).settleReveal(lotId, 0, 2000, bidder1.address)
+        blindBidAuction.connect(bidder1).settleReveal(lotId, 0, 2000, bidder1.address, true)
       ).to.be.revertedWithCustomError(blindBidAuction, "UnauthorizedGateway");
     });
 
     it("Should reject settlement for non-closed auction", async function () {
       const currentTime = await time.latest();
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
 
       const tx = await blindBidAuction
         .connect(curator)
@@ -416,7 +448,12 @@ describe("BlindBidAuction", function () {
           currentTime + 100,
           currentTime + 3600,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       const receipt = await tx.wait();
@@ -430,15 +467,15 @@ describe("BlindBidAuction", function () {
       const newLotId = blindBidAuction.interface.parseLog(event).args.lotId;
 
       await expect(
-        blindBidAuction.connect(gatewayOperator).settleReveal(newLotId, 0, 2000, bidder1.address)
+        blindBidAuction.connect(gatewayOperator).settleReveal(newLotId, 0, 2000, bidder1.address, true)
       ).to.be.revertedWithCustomError(blindBidAuction, "AuctionNotClosed");
     });
 
     it("Should reject double settlement", async function () {
-      await blindBidAuction.connect(gatewayOperator).settleReveal(lotId, 0, 2000, bidder1.address);
+      await blindBidAuction.connect(gatewayOperator).settleReveal(lotId, 0, 2000, bidder1.address, true);
 
       await expect(
-        blindBidAuction.connect(gatewayOperator).settleReveal(lotId, 0, 2000, bidder1.address)
+        blindBidAuction.connect(gatewayOperator).settleReveal(lotId, 0, 2000, bidder1.address, true)
       ).to.be.revertedWithCustomError(blindBidAuction, "AlreadySettled");
     });
   });
@@ -466,7 +503,7 @@ describe("BlindBidAuction", function () {
   describe("View Functions", function () {
     it("Should return all lot IDs", async function () {
       const currentTime = await time.latest();
-      const mockReserve = createMockEncryptedInput(1000);
+      const mockReserve = await createEncryptedInput(blindBidAuction, curator, 1000);
 
       await blindBidAuction
         .connect(curator)
@@ -475,7 +512,12 @@ describe("BlindBidAuction", function () {
           currentTime + 100,
           currentTime + 3600,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       await blindBidAuction
@@ -485,7 +527,12 @@ describe("BlindBidAuction", function () {
           currentTime + 100,
           currentTime + 3600,
           mockReserve.data,
-          mockReserve.proof
+          mockReserve.proof,
+          0,
+          0,
+          1,
+          HARD_CLOSE,
+          []
         );
 
       const lotIds = await blindBidAuction.getAllLotIds();
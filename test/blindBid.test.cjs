@@ -1,8 +1,11 @@
 const { expect } = require("chai");
 const hre = require("hardhat");
+const { FhevmType } = require("@fhevm/hardhat-plugin");
 
 describe("BlindBidAuction", () => {
   const METADATA_URI = "ipfs://blind-bid-demo";
+  const DEPOSIT = hre.ethers.parseEther("1");
+  const HARD_CLOSE = { window: 0, extension: 0, maxExtension: 0 };
   let contract;
   let owner;
   let curator;
@@ -42,7 +45,7 @@ describe("BlindBidAuction", () => {
     await expect(
       contract
         .connect(curator)
-        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof),
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []),
     )
       .to.emit(contract, "LotCreated")
       .withArgs(1, curator.address, startTime, endTime, METADATA_URI);
@@ -57,7 +60,7 @@ describe("BlindBidAuction", () => {
     const reserve = await encrypt64(curator, 50n);
     await contract
       .connect(curator)
-      .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof);
+      .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
 
     await advanceTo(startTime + 1);
 
@@ -65,7 +68,7 @@ describe("BlindBidAuction", () => {
     const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("bid-salt"));
 
     await expect(
-      contract.connect(bidder).submitBid(1, bidCipher.handles[0], bidCipher.inputProof, salt),
+      contract.connect(bidder).submitBid(1, bidCipher.handles[0], bidCipher.inputProof, salt, { value: DEPOSIT }),
     )
       .to.emit(contract, "BidSubmitted")
       .withArgs(1, bidder.address, 0, salt);
@@ -79,13 +82,13 @@ describe("BlindBidAuction", () => {
     const reserve = await encrypt64(curator, 10n);
     await contract
       .connect(curator)
-      .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof);
+      .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
 
     await advanceTo(startTime + 1);
 
     const bidCipher = await encrypt64(bidder, 20n);
     const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("salt"));
-    await contract.connect(bidder).submitBid(1, bidCipher.handles[0], bidCipher.inputProof, salt);
+    await contract.connect(bidder).submitBid(1, bidCipher.handles[0], bidCipher.inputProof, salt, { value: DEPOSIT });
 
     await expect(contract.connect(curator).closeLot(1)).to.be.revertedWithCustomError(
       contract,
@@ -104,23 +107,846 @@ describe("BlindBidAuction", () => {
     const reserve = await encrypt64(curator, 30n);
     await contract
       .connect(curator)
-      .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof);
+      .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
 
     await advanceTo(startTime + 1);
 
     const bidCipher = await encrypt64(bidder, 40n);
     const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("gateway"));
-    await contract.connect(bidder).submitBid(1, bidCipher.handles[0], bidCipher.inputProof, salt);
+    await contract.connect(bidder).submitBid(1, bidCipher.handles[0], bidCipher.inputProof, salt, { value: DEPOSIT });
 
     await contract.connect(owner).updateGatewayOperator(gateway.address);
     await contract.connect(curator).closeLot(1);
 
-    await expect(contract.connect(gateway).settleReveal(1, 0, 40n, bidder.address))
+    const closed = await contract.getLot(1);
+    const reserveMet = await hre.fhevm.userDecryptEbool(closed.encryptedReserveMet, await contract.getAddress(), gateway);
+    expect(reserveMet).to.equal(true);
+
+    await expect(contract.connect(gateway).settleReveal(1, 0, 40n, bidder.address, reserveMet))
       .to.emit(contract, "RevealSettled")
       .withArgs(1, bidder.address, 40n);
 
     const lotSnapshot = await contract.getLot(1);
     expect(lotSnapshot.settled).to.equal(true);
     expect(lotSnapshot.winner).to.equal(bidder.address);
+    expect(lotSnapshot.reserveMet).to.equal(true);
+  });
+
+  it("settles unsold when the winning bid is below the encrypted reserve", async () => {
+    const { start: startTime, end: endTime } = await scheduleWindow();
+    const reserve = await encrypt64(curator, 100n);
+    await contract
+      .connect(curator)
+      .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
+
+    await advanceTo(startTime + 1);
+
+    const bidCipher = await encrypt64(bidder, 60n);
+    const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("below-reserve"));
+    await contract.connect(bidder).submitBid(1, bidCipher.handles[0], bidCipher.inputProof, salt, { value: DEPOSIT });
+
+    await contract.connect(owner).updateGatewayOperator(gateway.address);
+    await contract.connect(curator).closeLot(1);
+
+    const closed = await contract.getLot(1);
+    const reserveMet = await hre.fhevm.userDecryptEbool(closed.encryptedReserveMet, await contract.getAddress(), gateway);
+    expect(reserveMet).to.equal(false);
+
+    await expect(contract.connect(gateway).settleReveal(1, 0, 60n, bidder.address, reserveMet))
+      .to.emit(contract, "LotUnsold")
+      .withArgs(1)
+      .and.not.to.emit(contract, "RevealSettled");
+
+    const lotSnapshot = await contract.getLot(1);
+    expect(lotSnapshot.settled).to.equal(true);
+    expect(lotSnapshot.reserveMet).to.equal(false);
+    expect(lotSnapshot.winner).to.equal(hre.ethers.ZeroAddress);
+    expect(lotSnapshot.revealedAmount).to.equal(0n);
+  });
+
+  describe("second price", () => {
+    const SECOND_PRICE = 1;
+    let rival;
+    let third;
+
+    const openVickreyLot = async (reserveValue) => {
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, reserveValue);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, SECOND_PRICE, 1, HARD_CLOSE, []);
+      await advanceTo(startTime + 1);
+    };
+
+    const placeBid = async (signer, value, label) => {
+      const cipher = await encrypt64(signer, value);
+      const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes(label));
+      await contract.connect(signer).submitBid(1, cipher.handles[0], cipher.inputProof, salt, { value: DEPOSIT });
+    };
+
+    const decryptClearingPrice = async () => {
+      const lotSnapshot = await contract.getLot(1);
+      return hre.fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        lotSnapshot.encryptedClearingPrice,
+        await contract.getAddress(),
+        gateway,
+      );
+    };
+
+    beforeEach(async () => {
+      [, , , , rival, third] = await hre.ethers.getSigners();
+      await contract.connect(owner).updateGatewayOperator(gateway.address);
+    });
+
+    it("clears at the second-highest bid", async () => {
+      await openVickreyLot(10n);
+      await placeBid(bidder, 50n, "first");
+      await placeBid(rival, 80n, "second");
+      await placeBid(third, 65n, "third");
+      await contract.connect(curator).closeLot(1);
+
+      expect((await contract.getLot(1)).auctionType).to.equal(SECOND_PRICE);
+      const clearingPrice = await decryptClearingPrice();
+      expect(clearingPrice).to.equal(65n);
+
+      await contract.connect(gateway).settleReveal(1, 1, clearingPrice, rival.address, true);
+      const lotSnapshot = await contract.getLot(1);
+      expect(lotSnapshot.winner).to.equal(rival.address);
+      expect(lotSnapshot.revealedAmount).to.equal(65n);
+      expect(await contract.getDeposit(1, rival.address)).to.equal(DEPOSIT - 65n);
+    });
+
+    it("clears at the reserve when it exceeds the second-highest bid", async () => {
+      await openVickreyLot(30n);
+      await placeBid(bidder, 40n, "only");
+      await contract.connect(curator).closeLot(1);
+
+      expect(await decryptClearingPrice()).to.equal(30n);
+    });
+
+    it("clears first-price lots at the winning bid", async () => {
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, 10n);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
+      await advanceTo(startTime + 1);
+      await placeBid(bidder, 50n, "first");
+      await placeBid(rival, 80n, "second");
+      await contract.connect(curator).closeLot(1);
+
+      expect(await decryptClearingPrice()).to.equal(80n);
+    });
+  });
+
+  describe("escrow", () => {
+    let rival;
+
+    const openLot = async (depositCap = 0) => {
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, 10n);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, depositCap, 0, 1, HARD_CLOSE, []);
+      await advanceTo(startTime + 1);
+    };
+
+    const placeBid = async (signer, value, label, deposit = DEPOSIT) => {
+      const cipher = await encrypt64(signer, value);
+      const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes(label));
+      return contract.connect(signer).submitBid(1, cipher.handles[0], cipher.inputProof, salt, { value: deposit });
+    };
+
+    beforeEach(async () => {
+      [, , , , rival] = await hre.ethers.getSigners();
+      await contract.connect(owner).updateGatewayOperator(gateway.address);
+    });
+
+    it("requires the lot deposit with every bid", async () => {
+      await openLot(1000n);
+      expect((await contract.getLot(1)).depositCap).to.equal(1000n);
+
+      await expect(placeBid(bidder, 40n, "short", 999n)).to.be.revertedWithCustomError(contract, "InvalidDeposit");
+      await placeBid(bidder, 40n, "exact", 1000n);
+      expect(await contract.getDeposit(1, bidder.address)).to.equal(1000n);
+    });
+
+    it("falls back to the default deposit cap", async () => {
+      await openLot();
+      expect((await contract.getLot(1)).depositCap).to.equal(await contract.defaultDepositCap());
+    });
+
+    it("clamps bids above the deposit cap", async () => {
+      await openLot(500n);
+      await placeBid(bidder, 900n, "over", 500n);
+
+      const [encryptedAmount] = await contract.connect(bidder).getBid(1, bidder.address);
+      const clear = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedAmount,
+        await contract.getAddress(),
+        bidder,
+      );
+      expect(clear).to.equal(500n);
+    });
+
+    it("charges the winner and lets everyone withdraw the rest", async () => {
+      await openLot(1000n);
+      await placeBid(bidder, 400n, "winner", 1000n);
+      await placeBid(rival, 300n, "loser", 1000n);
+
+      await contract.connect(curator).closeLot(1);
+      await expect(contract.connect(rival).withdrawDeposit(1)).to.be.revertedWithCustomError(contract, "NotSettled");
+      await contract.connect(gateway).settleReveal(1, 0, 400n, bidder.address, true);
+
+      expect(await contract.getDeposit(1, bidder.address)).to.equal(600n);
+      expect(await contract.getDeposit(1, rival.address)).to.equal(1000n);
+
+      await expect(contract.connect(bidder).withdrawDeposit(1)).to.changeEtherBalances([bidder, contract], [600n, -600n]);
+      await expect(contract.connect(rival).withdrawDeposit(1))
+        .to.emit(contract, "DepositWithdrawn")
+        .withArgs(1, rival.address, 1000n);
+      await expect(contract.connect(rival).withdrawDeposit(1)).to.be.revertedWithCustomError(
+        contract,
+        "NothingToWithdraw",
+      );
+
+      await expect(contract.connect(curator).withdrawProceeds(1)).to.changeEtherBalances([curator, contract], [400n, -400n]);
+      await expect(contract.connect(curator).withdrawProceeds(1)).to.be.revertedWithCustomError(
+        contract,
+        "NothingToWithdraw",
+      );
+    });
+
+    it("refunds the full deposit when the lot does not sell", async () => {
+      await openLot(1000n);
+      await placeBid(bidder, 5n, "below-reserve", 1000n);
+      await contract.connect(curator).closeLot(1);
+      await contract.connect(gateway).settleReveal(1, 0, 5n, bidder.address, false);
+
+      await expect(contract.connect(bidder).withdrawDeposit(1)).to.changeEtherBalance(bidder, 1000n);
+      await expect(contract.connect(curator).withdrawProceeds(1)).to.be.revertedWithCustomError(
+        contract,
+        "NothingToWithdraw",
+      );
+    });
+  });
+  describe("custody", () => {
+    const ERC721 = 0;
+    const ERC1155 = 1;
+    const EDITION_ID = 7n;
+    let nft;
+    let editions;
+    let tokenId;
+    let bundle;
+
+    const openBundleLot = async (reserveValue, items = bundle) => {
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, reserveValue);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, items);
+      await advanceTo(startTime + 1);
+    };
+
+    const approveBundle = async () => {
+      await nft.connect(curator).approve(await contract.getAddress(), tokenId);
+      await editions.connect(curator).setApprovalForAll(await contract.getAddress(), true);
+    };
+
+    const closeWithBid = async (value) => {
+      const cipher = await encrypt64(bidder, value);
+      const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("custody"));
+      await contract.connect(bidder).submitBid(1, cipher.handles[0], cipher.inputProof, salt, { value: DEPOSIT });
+      await contract.connect(curator).closeLot(1);
+    };
+
+    beforeEach(async () => {
+      nft = await (await hre.ethers.getContractFactory("MockERC721", owner)).deploy();
+      editions = await (await hre.ethers.getContractFactory("MockERC1155", owner)).deploy();
+      tokenId = await nft.mint.staticCall(curator.address);
+      await nft.mint(curator.address);
+      await editions.mint(curator.address, EDITION_ID, 10n);
+      bundle = [
+        { standard: ERC721, token: await nft.getAddress(), tokenId, amount: 1n },
+        { standard: ERC1155, token: await editions.getAddress(), tokenId: EDITION_ID, amount: 3n },
+      ];
+      await contract.connect(owner).updateGatewayOperator(gateway.address);
+    });
+
+    it("escrows every bundle item when the lot is created", async () => {
+      await approveBundle();
+      await openBundleLot(10n);
+
+      expect(await nft.ownerOf(tokenId)).to.equal(await contract.getAddress());
+      expect(await editions.balanceOf(await contract.getAddress(), EDITION_ID)).to.equal(3n);
+      const { items } = await contract.getLot(1);
+      expect(items.length).to.equal(2);
+      expect(items[1].standard).to.equal(ERC1155);
+      expect(items[1].amount).to.equal(3n);
+    });
+
+    it("rejects the whole bundle when one item is not approved", async () => {
+      await nft.connect(curator).approve(await contract.getAddress(), tokenId);
+      await expect(openBundleLot(10n)).to.be.reverted;
+      expect(await nft.ownerOf(tokenId)).to.equal(curator.address);
+      expect(await editions.balanceOf(curator.address, EDITION_ID)).to.equal(10n);
+    });
+
+    it("rejects malformed items", async () => {
+      await approveBundle();
+      await expect(openBundleLot(10n, [{ ...bundle[0], amount: 2n }])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidLotItem",
+      );
+      await expect(openBundleLot(10n, [{ ...bundle[1], amount: 0n }])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidLotItem",
+      );
+    });
+
+    it("lets the winner claim the bundle after settlement", async () => {
+      await approveBundle();
+      await openBundleLot(10n);
+      await closeWithBid(40n);
+
+      await expect(contract.connect(gateway).settleReveal(1, 0, 40n, bidder.address, true))
+        .to.emit(contract, "ItemsClaimable")
+        .withArgs(1, bidder.address, 1);
+      expect(await nft.ownerOf(tokenId)).to.equal(await contract.getAddress());
+      expect(await contract.claimableItemUnits(1, bidder.address)).to.equal(1n);
+      await expect(contract.connect(curator).claimItems(1)).to.be.revertedWithCustomError(contract, "NothingToWithdraw");
+
+      await expect(contract.connect(bidder).claimItems(1))
+        .to.emit(contract, "ItemsReleased")
+        .withArgs(1, bidder.address, 2);
+      expect(await nft.ownerOf(tokenId)).to.equal(bidder.address);
+      expect(await editions.balanceOf(bidder.address, EDITION_ID)).to.equal(3n);
+      await expect(contract.connect(bidder).claimItems(1)).to.be.revertedWithCustomError(contract, "NothingToWithdraw");
+    });
+
+    it("refuses item claims before settlement", async () => {
+      await approveBundle();
+      await openBundleLot(10n);
+      await closeWithBid(40n);
+
+      await expect(contract.connect(bidder).claimItems(1)).to.be.revertedWithCustomError(contract, "NotSettled");
+    });
+
+    it("returns the bundle to the curator when the lot does not sell", async () => {
+      await approveBundle();
+      await openBundleLot(100n);
+      await closeWithBid(40n);
+
+      await contract.connect(gateway).settleReveal(1, 0, 40n, bidder.address, false);
+      expect(await contract.claimableItemUnits(1, bidder.address)).to.equal(0n);
+      await contract.connect(curator).claimItems(1);
+      expect(await nft.ownerOf(tokenId)).to.equal(curator.address);
+      expect(await editions.balanceOf(curator.address, EDITION_ID)).to.equal(10n);
+    });
+
+    it("returns the bundle to the curator when the lot is cancelled before any bid", async () => {
+      await approveBundle();
+      await openBundleLot(10n);
+
+      await expect(contract.connect(bidder).cancelLot(1)).to.be.revertedWithCustomError(contract, "NotCurator");
+      await expect(contract.connect(curator).cancelLot(1))
+        .to.emit(contract, "LotCancelled")
+        .withArgs(1, curator.address)
+        .and.to.emit(contract, "ItemsReleased")
+        .withArgs(1, curator.address, 2);
+      expect(await nft.ownerOf(tokenId)).to.equal(curator.address);
+      expect(await editions.balanceOf(curator.address, EDITION_ID)).to.equal(10n);
+
+      const lotSnapshot = await contract.getLot(1);
+      expect(lotSnapshot.cancelled).to.equal(true);
+      expect(lotSnapshot.closed).to.equal(true);
+      const cipher = await encrypt64(bidder, 40n);
+      const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("custody"));
+      await expect(
+        contract.connect(bidder).submitBid(1, cipher.handles[0], cipher.inputProof, salt, { value: DEPOSIT }),
+      ).to.be.revertedWithCustomError(contract, "AuctionClosed");
+      await expect(contract.connect(curator).cancelLot(1)).to.be.revertedWithCustomError(contract, "AuctionClosed");
+    });
+
+    it("refuses to cancel once a bid is in", async () => {
+      await approveBundle();
+      await openBundleLot(10n);
+      const cipher = await encrypt64(bidder, 40n);
+      const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("custody"));
+      await contract.connect(bidder).submitBid(1, cipher.handles[0], cipher.inputProof, salt, { value: DEPOSIT });
+
+      await expect(contract.connect(curator).cancelLot(1)).to.be.revertedWithCustomError(contract, "BidsAlreadyPlaced");
+      expect(await nft.ownerOf(tokenId)).to.equal(await contract.getAddress());
+    });
+  });
+
+  describe("uniform price", () => {
+    const UNIFORM_PRICE = 2;
+    const EDITION_ID = 3n;
+    let bidders;
+    let editions;
+
+    const openEditionLot = async (reserveValue, supply, items = []) => {
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, reserveValue);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, UNIFORM_PRICE, supply, HARD_CLOSE, items);
+      await advanceTo(startTime + 1);
+    };
+
+    const placeBids = async (values) => {
+      for (const [i, value] of values.entries()) {
+        const cipher = await encrypt64(bidders[i], value);
+        const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes(`uniform-${i}`));
+        await contract
+          .connect(bidders[i])
+          .submitBid(1, cipher.handles[0], cipher.inputProof, salt, { value: DEPOSIT });
+      }
+    };
+
+    const decrypt = (type, handle) => hre.fhevm.userDecryptEuint(type, handle, contract.getAddress(), gateway);
+
+    beforeEach(async () => {
+      bidders = (await hre.ethers.getSigners()).slice(4, 8);
+      editions = await (await hre.ethers.getContractFactory("MockERC1155", owner)).deploy();
+      await editions.mint(curator.address, EDITION_ID, 6n);
+      await editions.connect(curator).setApprovalForAll(await contract.getAddress(), true);
+      await contract.connect(owner).updateGatewayOperator(gateway.address);
+    });
+
+    it("keeps the top bids sorted and clears at the first losing bid", async () => {
+      await openEditionLot(10n, 2);
+      await placeBids([50n, 80n, 65n, 30n]);
+      await contract.connect(curator).closeLot(1);
+
+      const [bids, indices] = await contract.getTopBidHandles(1);
+      expect([await decrypt(FhevmType.euint64, bids[0]), await decrypt(FhevmType.euint64, bids[1])]).to.deep.equal([
+        80n,
+        65n,
+      ]);
+      expect([await decrypt(FhevmType.euint32, indices[0]), await decrypt(FhevmType.euint32, indices[1])]).to.deep.equal([
+        1n,
+        2n,
+      ]);
+      const clearingPrice = await decrypt(FhevmType.euint64, (await contract.getLot(1)).encryptedClearingPrice);
+      expect(clearingPrice).to.equal(50n);
+
+      await expect(contract.connect(gateway).settleUniformReveal(1, [1, 2], clearingPrice))
+        .to.emit(contract, "WinnersSettled")
+        .withArgs(1, [bidders[1].address, bidders[2].address], 50n);
+      expect(await contract.getWinners(1)).to.deep.equal([bidders[1].address, bidders[2].address]);
+      const lotSnapshot = await contract.getLot(1);
+      expect(lotSnapshot.winnerCount).to.equal(2);
+      expect(lotSnapshot.revealedAmount).to.equal(50n);
+      expect(await contract.getDeposit(1, bidders[1].address)).to.equal(DEPOSIT - 50n);
+      expect(await contract.getDeposit(1, bidders[0].address)).to.equal(DEPOSIT);
+      await expect(contract.connect(curator).withdrawProceeds(1)).to.changeEtherBalance(curator, 100n);
+    });
+
+    it("splits edition units between winners and returns the unsold ones", async () => {
+      const items = [{ standard: 1, token: await editions.getAddress(), tokenId: EDITION_ID, amount: 6n }];
+      await openEditionLot(20n, 3, items);
+      await placeBids([40n, 25n]);
+      await contract.connect(curator).closeLot(1);
+
+      const clearingPrice = await decrypt(FhevmType.euint64, (await contract.getLot(1)).encryptedClearingPrice);
+      expect(clearingPrice).to.equal(20n);
+      await contract.connect(gateway).settleUniformReveal(1, [0, 1], clearingPrice);
+      expect(await editions.balanceOf(await contract.getAddress(), EDITION_ID)).to.equal(6n);
+      expect(await contract.claimableItemUnits(1, curator.address)).to.equal(1n);
+
+      for (const account of [bidders[0], bidders[1], curator]) {
+        await contract.connect(account).claimItems(1);
+      }
+      expect(await editions.balanceOf(bidders[0].address, EDITION_ID)).to.equal(2n);
+      expect(await editions.balanceOf(bidders[1].address, EDITION_ID)).to.equal(2n);
+      expect(await editions.balanceOf(curator.address, EDITION_ID)).to.equal(2n);
+    });
+
+    it("validates supply, items and winner lists", async () => {
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, 10n);
+      await expect(
+        contract
+          .connect(curator)
+          .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 2, HARD_CLOSE, []),
+      ).to.be.revertedWithCustomError(contract, "InvalidSupply");
+      await expect(openEditionLot(10n, 11)).to.be.revertedWithCustomError(contract, "InvalidSupply");
+      const unevenItems = [{ standard: 1, token: await editions.getAddress(), tokenId: EDITION_ID, amount: 5n }];
+      await expect(openEditionLot(10n, 2, unevenItems)).to.be.revertedWithCustomError(contract, "InvalidLotItem");
+
+      await openEditionLot(10n, 2);
+      await placeBids([50n, 80n, 65n]);
+      await contract.connect(curator).closeLot(1);
+
+      await expect(contract.connect(gateway).settleReveal(1, 1, 65n, bidders[1].address, true)).to.be.revertedWithCustomError(
+        contract,
+        "UnsupportedAuctionType",
+      );
+      await expect(contract.connect(gateway).settleUniformReveal(1, [1, 1], 50n)).to.be.revertedWithCustomError(
+        contract,
+        "UnauthorizedGateway",
+      );
+      await expect(contract.connect(gateway).settleUniformReveal(1, [0, 1, 2], 50n)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSupply",
+      );
+    });
+  });
+
+  describe("bid replacement", () => {
+    let rival;
+    let third;
+
+    const openTypedLot = async (auctionType, supply = 1) => {
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, 5n);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, auctionType, supply, HARD_CLOSE, []);
+      await advanceTo(startTime + 1);
+    };
+
+    const placeBid = async (signer, value, salt) => {
+      const cipher = await encrypt64(signer, value);
+      await contract
+        .connect(signer)
+        .submitBid(1, cipher.handles[0], cipher.inputProof, hre.ethers.keccak256(hre.ethers.toUtf8Bytes(salt)), {
+          value: DEPOSIT,
+        });
+    };
+
+    const replaceBid = async (signer, value, previousSalt, salt) => {
+      const cipher = await encrypt64(signer, value);
+      return contract
+        .connect(signer)
+        .replaceBid(
+          1,
+          cipher.handles[0],
+          cipher.inputProof,
+          previousSalt,
+          hre.ethers.keccak256(hre.ethers.toUtf8Bytes(salt)),
+        );
+    };
+
+    const decrypt = (type, handle) => hre.fhevm.userDecryptEuint(type, handle, contract.getAddress(), gateway);
+
+    beforeEach(async () => {
+      [, , , , rival, third] = await hre.ethers.getSigners();
+      await contract.connect(owner).updateGatewayOperator(gateway.address);
+    });
+
+    it("recomputes the leader and second price after a bid is lowered", async () => {
+      await openTypedLot(1);
+      await placeBid(bidder, 80n, "bidder-1");
+      await placeBid(rival, 50n, "rival-1");
+      await placeBid(third, 65n, "third-1");
+
+      await expect(replaceBid(bidder, 60n, "bidder-1", "bidder-2"))
+        .to.emit(contract, "BidReplaced")
+        .withArgs(1, bidder.address, 0, hre.ethers.keccak256(hre.ethers.toUtf8Bytes("bidder-2")));
+      await contract.connect(curator).closeLot(1);
+
+      const lotSnapshot = await contract.getLot(1);
+      expect(lotSnapshot.bidCount).to.equal(3);
+      expect(await decrypt(FhevmType.euint32, lotSnapshot.encryptedWinningIndex)).to.equal(2n);
+      expect(await decrypt(FhevmType.euint64, lotSnapshot.encryptedClearingPrice)).to.equal(60n);
+      expect(await contract.getDeposit(1, bidder.address)).to.equal(DEPOSIT);
+    });
+
+    it("rebuilds the top bids of uniform-price lots", async () => {
+      await openTypedLot(2, 2);
+      await placeBid(bidder, 50n, "bidder-1");
+      await placeBid(rival, 80n, "rival-1");
+      await placeBid(third, 65n, "third-1");
+      await replaceBid(rival, 10n, "rival-1", "rival-2");
+      await contract.connect(curator).closeLot(1);
+
+      const [, indices] = await contract.getTopBidHandles(1);
+      expect([await decrypt(FhevmType.euint32, indices[0]), await decrypt(FhevmType.euint32, indices[1])]).to.deep.equal([
+        2n,
+        0n,
+      ]);
+      expect(await decrypt(FhevmType.euint64, (await contract.getLot(1)).encryptedClearingPrice)).to.equal(10n);
+    });
+
+    it("requires the previous salt and an open lot", async () => {
+      await openTypedLot(0);
+      await placeBid(bidder, 40n, "bidder-1");
+
+      await expect(replaceBid(rival, 60n, "bidder-1", "rival-2")).to.be.revertedWithCustomError(contract, "BidNotFound");
+      await expect(replaceBid(bidder, 60n, "guess", "bidder-2")).to.be.revertedWithCustomError(contract, "InvalidSalt");
+      await expect(replaceBid(bidder, 60n, "bidder-1", "bidder-1")).to.be.revertedWithCustomError(
+        contract,
+        "SaltAlreadyUsed",
+      );
+      await replaceBid(bidder, 60n, "bidder-1", "bidder-2");
+      await expect(replaceBid(bidder, 70n, "bidder-1", "bidder-3")).to.be.revertedWithCustomError(contract, "InvalidSalt");
+
+      await contract.connect(curator).closeLot(1);
+      await expect(replaceBid(bidder, 70n, "bidder-2", "bidder-3")).to.be.revertedWithCustomError(
+        contract,
+        "AuctionClosed",
+      );
+    });
+  });
+
+  describe("bid withdrawal", () => {
+    let rival;
+
+    const saltHash = (salt) => hre.ethers.keccak256(hre.ethers.toUtf8Bytes(salt));
+
+    const placeBid = async (signer, value, salt) => {
+      const cipher = await encrypt64(signer, value);
+      await contract
+        .connect(signer)
+        .submitBid(1, cipher.handles[0], cipher.inputProof, saltHash(salt), { value: DEPOSIT });
+    };
+
+    beforeEach(async () => {
+      [, , , , rival] = await hre.ethers.getSigners();
+      await contract.connect(owner).updateGatewayOperator(gateway.address);
+      const { start: startTime, end: endTime } = await scheduleWindow();
+      const reserve = await encrypt64(curator, 10n);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, startTime, endTime, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
+      await advanceTo(startTime + 1);
+    });
+
+    it("refunds the deposit and hands the lead to the remaining bids", async () => {
+      await placeBid(bidder, 80n, "bidder-1");
+      await placeBid(rival, 50n, "rival-1");
+
+      const tx = contract.connect(bidder).withdrawBid(1, "bidder-1");
+      await expect(tx).to.emit(contract, "BidWithdrawn").withArgs(1, bidder.address, 0, DEPOSIT);
+      await expect(tx).to.changeEtherBalances([bidder, contract], [DEPOSIT, -DEPOSIT]);
+
+      const lotSnapshot = await contract.getLot(1);
+      expect(lotSnapshot.bidCount).to.equal(2);
+      expect(lotSnapshot.activeBidCount).to.equal(1);
+      expect((await contract.connect(bidder).getBid(1, bidder.address)).saltHash).to.equal(hre.ethers.ZeroHash);
+
+      await contract.connect(curator).closeLot(1);
+      const winningIndex = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        (await contract.getLot(1)).encryptedWinningIndex,
+        await contract.getAddress(),
+        gateway,
+      );
+      expect(winningIndex).to.equal(1n);
+      await expect(
+        contract.connect(gateway).settleReveal(1, 0, 80n, bidder.address, true),
+      ).to.be.revertedWithCustomError(contract, "UnauthorizedGateway");
+      await contract.connect(gateway).settleReveal(1, 1, 50n, rival.address, true);
+      expect((await contract.getLot(1)).winner).to.equal(rival.address);
+    });
+
+    it("gives the lead to a new bid once every earlier bid is withdrawn", async () => {
+      await placeBid(bidder, 80n, "bidder-1");
+      await contract.connect(bidder).withdrawBid(1, "bidder-1");
+      await placeBid(rival, 0n, "rival-1");
+
+      await contract.connect(curator).closeLot(1);
+      const lotSnapshot = await contract.getLot(1);
+      const winningIndex = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        lotSnapshot.encryptedWinningIndex,
+        await contract.getAddress(),
+        gateway,
+      );
+      const winningBid = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        lotSnapshot.encryptedWinningBid,
+        await contract.getAddress(),
+        gateway,
+      );
+      expect(winningIndex).to.equal(1n);
+      expect(winningBid).to.equal(0n);
+    });
+
+    it("settles unsold once every bid is withdrawn", async () => {
+      await placeBid(bidder, 80n, "bidder-1");
+      await contract.connect(bidder).withdrawBid(1, "bidder-1");
+      await contract.connect(curator).closeLot(1);
+
+      await expect(contract.connect(gateway).settleReveal(1, 0, 0n, bidder.address, true)).to.emit(contract, "LotUnsold");
+      expect((await contract.getLot(1)).reserveMet).to.equal(false);
+    });
+
+    it("lets the curator cancel once every bid is withdrawn", async () => {
+      await placeBid(bidder, 80n, "bidder-1");
+      await expect(contract.connect(curator).cancelLot(1)).to.be.revertedWithCustomError(contract, "BidsAlreadyPlaced");
+
+      await contract.connect(bidder).withdrawBid(1, "bidder-1");
+      await expect(contract.connect(curator).cancelLot(1)).to.emit(contract, "LotCancelled").withArgs(1, curator.address);
+      expect((await contract.getLot(1)).cancelled).to.equal(true);
+    });
+
+    it("requires the salt and allows bidding again with a new one", async () => {
+      await expect(contract.connect(bidder).withdrawBid(1, "bidder-1")).to.be.revertedWithCustomError(
+        contract,
+        "BidNotFound",
+      );
+      await placeBid(bidder, 80n, "bidder-1");
+      await expect(contract.connect(bidder).withdrawBid(1, "guess")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSalt",
+      );
+      await contract.connect(bidder).withdrawBid(1, "bidder-1");
+
+      await placeBid(bidder, 60n, "bidder-2");
+      const [, , , index] = await contract.connect(bidder).getBid(1, bidder.address);
+      expect(index).to.equal(1);
+      expect((await contract.getLot(1)).activeBidCount).to.equal(1);
+
+      await contract.connect(curator).closeLot(1);
+      await expect(contract.connect(bidder).withdrawBid(1, "bidder-2")).to.be.revertedWithCustomError(
+        contract,
+        "AuctionClosed",
+      );
+    });
+  });
+
+  describe("soft close", () => {
+    const SOFT_CLOSE = { window: 600, extension: 300, maxExtension: 450 };
+    let rival;
+    let endTime;
+
+    const saltHash = (salt) => hre.ethers.keccak256(hre.ethers.toUtf8Bytes(salt));
+
+    const placeBid = async (signer, value, salt, lotId = 1) => {
+      const cipher = await encrypt64(signer, value);
+      return contract
+        .connect(signer)
+        .submitBid(lotId, cipher.handles[0], cipher.inputProof, saltHash(salt), { value: DEPOSIT });
+    };
+
+    const createLot = async (softClose) => {
+      const window = await scheduleWindow();
+      endTime = window.end;
+      const reserve = await encrypt64(curator, 10n);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, window.start, window.end, reserve.handles[0], reserve.inputProof, 0, 0, 1, softClose, []);
+      return window;
+    };
+
+    beforeEach(async () => {
+      [, , , , rival] = await hre.ethers.getSigners();
+    });
+
+    it("extends the end time for late bids up to the cap", async () => {
+      await createLot(SOFT_CLOSE);
+      const lotSnapshot = await contract.getLot(1);
+      expect(lotSnapshot.softCloseWindow).to.equal(600);
+      expect(lotSnapshot.softCloseExtension).to.equal(300);
+      expect(lotSnapshot.maxEndTime).to.equal(endTime + 450);
+
+      await advanceTo(endTime - 100);
+      await expect(placeBid(bidder, 50n, "bidder-1"))
+        .to.emit(contract, "EndTimeExtended")
+        .withArgs(1, endTime + 300);
+
+      // Past the original close, inside the extension: the cap trims the second push
+      await advanceTo(endTime + 200);
+      await expect(placeBid(rival, 60n, "rival-1"))
+        .to.emit(contract, "EndTimeExtended")
+        .withArgs(1, endTime + 450);
+
+      await advanceTo(endTime + 440);
+      const cipher = await encrypt64(bidder, 70n);
+      await expect(
+        contract.connect(bidder).replaceBid(1, cipher.handles[0], cipher.inputProof, "bidder-1", saltHash("bidder-2")),
+      ).not.to.emit(contract, "EndTimeExtended");
+      expect((await contract.getLot(1)).endTime).to.equal(endTime + 450);
+
+      await advanceTo(endTime + 451);
+      await expect(placeBid(owner, 80n, "owner-1")).to.be.revertedWithCustomError(contract, "OutsideBiddingWindow");
+    });
+
+    it("leaves early bids and hard-close lots alone", async () => {
+      const { start } = await createLot(SOFT_CLOSE);
+      await advanceTo(start + 1);
+      await expect(placeBid(bidder, 50n, "bidder-1")).not.to.emit(contract, "EndTimeExtended");
+
+      await createLot(HARD_CLOSE);
+      await advanceTo(endTime - 10);
+      await expect(placeBid(rival, 60n, "rival-1", 2)).not.to.emit(contract, "EndTimeExtended");
+      expect((await contract.getLot(2)).endTime).to.equal(endTime);
+    });
+
+    it("rejects incomplete soft-close rules", async () => {
+      const { start, end } = await scheduleWindow();
+      const reserve = await encrypt64(curator, 10n);
+      for (const softClose of [
+        { window: 600, extension: 0, maxExtension: 0 },
+        { window: 600, extension: 300, maxExtension: 100 },
+        { window: 0, extension: 300, maxExtension: 300 },
+      ]) {
+        await expect(
+          contract
+            .connect(curator)
+            .createLot(METADATA_URI, start, end, reserve.handles[0], reserve.inputProof, 0, 0, 1, softClose, []),
+        ).to.be.revertedWithCustomError(contract, "InvalidWindow");
+      }
+    });
+  });
+
+  describe("keeper close", () => {
+    const BID = 1_000_000n;
+    let keeper;
+    let endTime;
+
+    beforeEach(async () => {
+      [, , , , keeper] = await hre.ethers.getSigners();
+      await contract.connect(owner).updateGatewayOperator(gateway.address);
+      const window = await scheduleWindow();
+      endTime = window.end;
+      const reserve = await encrypt64(curator, 10n);
+      await contract
+        .connect(curator)
+        .createLot(METADATA_URI, window.start, window.end, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
+      await advanceTo(window.start + 1);
+      const cipher = await encrypt64(bidder, BID);
+      const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("keeper"));
+      await contract.connect(bidder).submitBid(1, cipher.handles[0], cipher.inputProof, salt, { value: DEPOSIT });
+    });
+
+    it("lets anyone close after the end time and pays the keeper a share of the proceeds", async () => {
+      await expect(contract.connect(keeper).closeLot(1)).to.be.revertedWithCustomError(contract, "NotCurator");
+
+      await advanceTo(endTime + 1);
+      await expect(contract.connect(keeper).closeLot(1)).to.emit(contract, "LotClosed").withArgs(1, keeper.address);
+      expect((await contract.getLot(1)).keeper).to.equal(keeper.address);
+
+      const reward = (BID * (await contract.KEEPER_REWARD_BPS())) / 10_000n;
+      await expect(contract.connect(gateway).settleReveal(1, 0, BID, bidder.address, true))
+        .to.emit(contract, "KeeperRewarded")
+        .withArgs(1, keeper.address, reward);
+      expect(await contract.keeperRewards(keeper.address)).to.equal(reward);
+
+      await expect(contract.connect(curator).withdrawProceeds(1)).to.changeEtherBalance(curator, BID - reward);
+      await expect(contract.connect(keeper).withdrawKeeperRewards()).to.changeEtherBalance(keeper, reward);
+      await expect(contract.connect(keeper).withdrawKeeperRewards()).to.be.revertedWithCustomError(
+        contract,
+        "NothingToWithdraw",
+      );
+    });
+
+    it("pays no keeper reward when the curator closes", async () => {
+      await advanceTo(endTime + 1);
+      await contract.connect(curator).closeLot(1);
+      await expect(contract.connect(gateway).settleReveal(1, 0, BID, bidder.address, true)).not.to.emit(
+        contract,
+        "KeeperRewarded",
+      );
+
+      expect((await contract.getLot(1)).keeper).to.equal(hre.ethers.ZeroAddress);
+      await expect(contract.connect(curator).withdrawProceeds(1)).to.changeEtherBalance(curator, BID);
+    });
   });
 });
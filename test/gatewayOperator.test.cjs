@@ -0,0 +1,207 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { expect } = require("chai");
+const hre = require("hardhat");
+
+const { createGatewayOperator } = require("../scripts/services/gateway-operator.ts");
+
+describe("Gateway operator service", () => {
+  const METADATA_URI = "ipfs://blind-bid-demo";
+  const DEPOSIT = hre.ethers.parseEther("1");
+  const HARD_CLOSE = { window: 0, extension: 0, maxExtension: 0 };
+  let contract;
+  let owner;
+  let curator;
+  let alice;
+  let bob;
+  let gateway;
+  let queueFile;
+
+  const advanceTo = async (timestamp) => {
+    await hre.ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+    await hre.ethers.provider.send("evm_mine", []);
+  };
+
+  async function encrypt64(forSigner, value) {
+    const input = hre.fhevm.createEncryptedInput(await contract.getAddress(), forSigner.address);
+    input.add64(BigInt(value));
+    return input.encrypt();
+  }
+
+  async function bid(signer, lotId, value, saltLabel) {
+    const cipher = await encrypt64(signer, value);
+    const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes(saltLabel));
+    await contract.connect(signer).submitBid(lotId, cipher.handles[0], cipher.inputProof, salt, { value: DEPOSIT });
+  }
+
+  async function closedLot(bids, auctionType = 0, supply = 1) {
+    const block = await hre.ethers.provider.getBlock("latest");
+    const start = Number(block.timestamp) + 60;
+    const reserve = await encrypt64(curator, 10n);
+    await contract
+      .connect(curator)
+      .createLot(METADATA_URI, start, start + 3600, reserve.handles[0], reserve.inputProof, 0, auctionType, supply, HARD_CLOSE, []);
+    const lotId = (await contract.getAllLotIds()).at(-1);
+
+    await advanceTo(start + 1);
+    for (const [signer, value, salt] of bids) {
+      await bid(signer, lotId, value, salt);
+    }
+    await contract.connect(curator).closeLot(lotId);
+    return lotId;
+  }
+
+  const operatorFor = async (overrides = {}, signer = gateway) =>
+    createGatewayOperator(hre, signer, {
+      contractAddress: await contract.getAddress(),
+      queueFile,
+      fromBlock: 0,
+      pollIntervalMs: 0,
+      maxAttempts: 2,
+      retryDelayMs: 0,
+      confirmations: 1,
+      dryRun: false,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    [owner, curator, alice, bob, gateway] = await hre.ethers.getSigners();
+    const factory = await hre.ethers.getContractFactory("BlindBidAuction", owner);
+    contract = await factory.deploy();
+    await contract.waitForDeployment();
+    await hre.fhevm.assertCoprocessorInitialized(contract, "BlindBidAuction");
+    await contract.connect(owner).updateGatewayOperator(gateway.address);
+
+    queueFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "blindbid-gateway-")), "queue.json");
+  });
+
+  it("decrypts the winner and settles revealed lots", async () => {
+    const lotId = await closedLot([
+      [alice, 40n, "alice"],
+      [bob, 75n, "bob"],
+    ]);
+
+    const operator = await operatorFor();
+    const jobs = await operator.runOnce();
+
+    expect(jobs).to.have.length(1);
+    expect(jobs[0].status).to.equal("settled");
+    const lot = await contract.getLot(lotId);
+    expect(lot.settled).to.equal(true);
+    expect(lot.winner).to.equal(bob.address);
+    expect(lot.revealedAmount).to.equal(75n);
+    expect(lot.reserveMet).to.equal(true);
+  });
+
+  it("charges the second-highest bid on second-price lots", async () => {
+    const lotId = await closedLot(
+      [
+        [alice, 40n, "alice"],
+        [bob, 75n, "bob"],
+      ],
+      1,
+    );
+
+    await (await operatorFor()).runOnce();
+
+    const lot = await contract.getLot(lotId);
+    expect(lot.winner).to.equal(bob.address);
+    expect(lot.revealedAmount).to.equal(40n);
+  });
+
+  it("settles every top bid above reserve on uniform-price lots", async () => {
+    const [, , , , , carol, dave] = await hre.ethers.getSigners();
+    const lotId = await closedLot(
+      [
+        [alice, 40n, "alice"],
+        [bob, 75n, "bob"],
+        [carol, 8n, "carol"],
+        [dave, 60n, "dave"],
+      ],
+      2,
+      3,
+    );
+
+    await (await operatorFor()).runOnce();
+
+    const lot = await contract.getLot(lotId);
+    expect(lot.settled).to.equal(true);
+    expect(await contract.getWinners(lotId)).to.deep.equal([bob.address, dave.address, alice.address]);
+    expect(lot.revealedAmount).to.equal(10n);
+  });
+
+  it("persists the queue so a restart does not settle twice", async () => {
+    await closedLot([[alice, 20n, "alice"]]);
+    await (await operatorFor()).runOnce();
+
+    const restarted = await operatorFor();
+    const jobs = await restarted.runOnce();
+    expect(jobs.map((job) => job.status)).to.deep.equal(["settled"]);
+    expect(JSON.parse(fs.readFileSync(queueFile, "utf8")).jobs).to.have.property("1");
+  });
+
+  it("settles lots without bids as unsold", async () => {
+    const lotId = await closedLot([]);
+    const jobs = await (await operatorFor()).runOnce();
+    expect(jobs[0].status).to.equal("settled");
+    const lot = await contract.getLot(lotId);
+    expect(lot.settled).to.equal(true);
+    expect(lot.reserveMet).to.equal(false);
+  });
+
+  it("settles lots below reserve as unsold", async () => {
+    const lotId = await closedLot([[alice, 5n, "alice"]]);
+    const jobs = await (await operatorFor()).runOnce();
+    expect(jobs[0].status).to.equal("settled");
+    const lot = await contract.getLot(lotId);
+    expect(lot.reserveMet).to.equal(false);
+    expect(lot.winner).to.equal(hre.ethers.ZeroAddress);
+  });
+
+  it("reveals lots closed under a previous operator once access is granted", async () => {
+    const [, , , , , , , successor] = await hre.ethers.getSigners();
+    const lotId = await closedLot([[alice, 55n, "alice"]]);
+    await contract.connect(owner).updateGatewayOperator(successor.address);
+
+    await expect(contract.connect(curator).grantGatewayAccess(1, 2)).to.be.revertedWithCustomError(contract, "NotOwner");
+    await contract.connect(owner).grantGatewayAccess(lotId, lotId + 1n);
+
+    const jobs = await (await operatorFor({}, successor)).runOnce();
+    expect(jobs[0].status).to.equal("settled");
+    expect((await contract.getLot(lotId)).winner).to.equal(alice.address);
+  });
+
+  it("grants a replacement operator access to earlier bids when the lot closes", async () => {
+    const [, , , , , , , successor] = await hre.ethers.getSigners();
+    const block = await hre.ethers.provider.getBlock("latest");
+    const start = Number(block.timestamp) + 60;
+    const reserve = await encrypt64(curator, 10n);
+    await contract
+      .connect(curator)
+      .createLot(METADATA_URI, start, start + 3600, reserve.handles[0], reserve.inputProof, 0, 0, 1, HARD_CLOSE, []);
+    await advanceTo(start + 1);
+    await bid(alice, 1n, 30n, "alice");
+
+    await contract.connect(owner).updateGatewayOperator(successor.address);
+    await contract.connect(curator).closeLot(1);
+
+    const settlement = await (await operatorFor({ dryRun: true }, successor)).resolveSettlement(1n);
+    expect(settlement.bidder).to.equal(alice.address);
+    expect(settlement.amount).to.equal(30n);
+  });
+
+  it("does not send transactions in dry-run mode", async () => {
+    const lotId = await closedLot([[alice, 55n, "alice"]]);
+
+    const operator = await operatorFor({ dryRun: true });
+    const settlement = await operator.resolveSettlement(lotId);
+    expect(settlement.bidder).to.equal(alice.address);
+    expect(settlement.amount).to.equal(55n);
+
+    const jobs = await operator.runOnce();
+    expect(jobs[0].status).to.equal("pending");
+    expect((await contract.getLot(lotId)).settled).to.equal(false);
+    expect(fs.existsSync(queueFile)).to.equal(false);
+  });
+});
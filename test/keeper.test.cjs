@@ -0,0 +1,99 @@
+const { expect } = require("chai");
+const hre = require("hardhat");
+
+const { createKeeper } = require("../scripts/services/keeper.ts");
+
+describe("Keeper service", () => {
+  const METADATA_URI = "ipfs://blind-bid-demo";
+  const DEPOSIT = hre.ethers.parseEther("1");
+  const HARD_CLOSE = { window: 0, extension: 0, maxExtension: 0 };
+  let contract;
+  let owner;
+  let curator;
+  let alice;
+  let gateway;
+  let keeperSigner;
+
+  const advanceTo = async (timestamp) => {
+    await hre.ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+    await hre.ethers.provider.send("evm_mine", []);
+  };
+
+  async function openLot(durationSeconds) {
+    const block = await hre.ethers.provider.getBlock("latest");
+    const start = Number(block.timestamp) + 60;
+    const reserve = hre.fhevm.createEncryptedInput(await contract.getAddress(), curator.address);
+    reserve.add64(10n);
+    const { handles, inputProof } = await reserve.encrypt();
+    await contract
+      .connect(curator)
+      .createLot(METADATA_URI, start, start + durationSeconds, handles[0], inputProof, 0, 0, 1, HARD_CLOSE, []);
+    return { lotId: (await contract.getAllLotIds()).at(-1), start, end: start + durationSeconds };
+  }
+
+  async function bid(lotId, value) {
+    const input = hre.fhevm.createEncryptedInput(await contract.getAddress(), alice.address);
+    input.add64(value);
+    const { handles, inputProof } = await input.encrypt();
+    const salt = hre.ethers.keccak256(hre.ethers.toUtf8Bytes(`alice-${lotId}`));
+    await contract.connect(alice).submitBid(lotId, handles[0], inputProof, salt, { value: DEPOSIT });
+  }
+
+  const keeperFor = async (overrides = {}) =>
+    createKeeper(hre, keeperSigner, {
+      contractAddress: await contract.getAddress(),
+      pollIntervalMs: 0,
+      confirmations: 1,
+      dryRun: false,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    [owner, curator, alice, gateway, keeperSigner] = await hre.ethers.getSigners();
+    const factory = await hre.ethers.getContractFactory("BlindBidAuction", owner);
+    contract = await factory.deploy();
+    await contract.waitForDeployment();
+    await hre.fhevm.assertCoprocessorInitialized(contract, "BlindBidAuction");
+    await contract.connect(owner).updateGatewayOperator(gateway.address);
+  });
+
+  it("closes only lots whose window has passed", async () => {
+    const expired = await openLot(600);
+    const running = await openLot(7200);
+    const closedByCurator = await openLot(600);
+    await advanceTo(expired.start + 1);
+    await bid(expired.lotId, 40n);
+    await contract.connect(curator).closeLot(closedByCurator.lotId);
+    await advanceTo(expired.end + 1);
+
+    const results = await (await keeperFor()).runOnce();
+
+    expect(results.map((result) => [result.lotId, result.status])).to.deep.equal([[expired.lotId, "closed"]]);
+    const lot = await contract.getLot(expired.lotId);
+    expect(lot.closed).to.equal(true);
+    expect(lot.revealRequested).to.equal(true);
+    expect(lot.keeper).to.equal(keeperSigner.address);
+    expect((await contract.getLot(running.lotId)).closed).to.equal(false);
+    expect(await (await keeperFor()).runOnce()).to.deep.equal([]);
+  });
+
+  it("waits for a gateway operator before closing", async () => {
+    const { end } = await openLot(600);
+    await contract.connect(owner).updateGatewayOperator(hre.ethers.ZeroAddress);
+    await advanceTo(end + 1);
+
+    const keeper = await keeperFor();
+    expect(await keeper.runOnce()).to.deep.equal([]);
+    expect(await keeper.findExpired()).to.have.length(1);
+  });
+
+  it("does not send transactions in dry-run mode", async () => {
+    const { lotId, end } = await openLot(600);
+    await advanceTo(end + 1);
+
+    const results = await (await keeperFor({ dryRun: true })).runOnce();
+
+    expect(results.map((result) => result.status)).to.deep.equal(["skipped"]);
+    expect((await contract.getLot(lotId)).closed).to.equal(false);
+  });
+});
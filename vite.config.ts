@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -25,6 +26,10 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The FHE worker is a module worker (it imports the relayer SDK's ESM build)
+    format: "es",
+  },
   optimizeDeps: {
     exclude: ["@zama-fhe/relayer-sdk"],
   },
@@ -33,4 +38,8 @@ export default defineConfig(({ mode }) => ({
     "process.env": {},
     global: "globalThis",
   },
+  test: {
+    // Unit tests only; contracts are tested by Hardhat (test/) and the app end to end by Playwright (e2e/)
+    include: ["src/**/*.test.ts"],
+  },
 }));